@@ -0,0 +1,156 @@
+import React from "react";
+import { View, StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { ProductItem } from "@/lib/storage";
+
+export type BatchItemStatus = "pending" | "loading" | "done" | "error";
+
+export interface BatchItem {
+  url: string;
+  status: BatchItemStatus;
+  product?: ProductItem;
+  error?: string;
+}
+
+interface BatchProgressListProps {
+  items: BatchItem[];
+  onProductPress: (product: ProductItem) => void;
+}
+
+export function BatchProgressList({
+  items,
+  onProductPress,
+}: BatchProgressListProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useTranslation();
+
+  const finished = items.filter(
+    (item) => item.status === "done" || item.status === "error",
+  ).length;
+  const failed = items.filter((item) => item.status === "error").length;
+  const progress = items.length > 0 ? finished / items.length : 0;
+
+  const renderStatusIcon = (item: BatchItem) => {
+    switch (item.status) {
+      case "loading":
+        return <ActivityIndicator size="small" color={AppColors.primary} />;
+      case "done":
+        return (
+          <Feather name="check-circle" size={18} color={AppColors.success} />
+        );
+      case "error":
+        return <Feather name="x-circle" size={18} color={AppColors.error} />;
+      default:
+        return <Feather name="clock" size={18} color={theme.textSecondary} />;
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.header}>
+        <ThemedText type="h4">{t("batch.title")}</ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {finished}/{items.length}
+          {failed > 0 ? t("batch.failed", { count: failed }) : ""}
+        </ThemedText>
+      </View>
+
+      <View style={[styles.progressTrack, { backgroundColor: theme.border }]}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+
+      {items.map((item) => (
+        <Pressable
+          key={item.url}
+          style={({ pressed }) => [
+            styles.row,
+            { borderTopColor: theme.border },
+            pressed && item.product && styles.pressed,
+          ]}
+          onPress={() => item.product && onProductPress(item.product)}
+          disabled={!item.product}
+          testID={`batch-item-${item.url}`}
+        >
+          <View style={styles.statusIcon}>{renderStatusIcon(item)}</View>
+          <View style={styles.rowContent}>
+            <ThemedText type="small" numberOfLines={1}>
+              {item.product?.title || item.url}
+            </ThemedText>
+            {item.status === "error" ? (
+              <ThemedText
+                type="caption"
+                style={{ color: AppColors.error }}
+                numberOfLines={1}
+              >
+                {item.error}
+              </ThemedText>
+            ) : item.product ? (
+              <ThemedText type="caption" style={{ color: AppColors.primary }}>
+                {item.product.price}
+              </ThemedText>
+            ) : null}
+          </View>
+          {item.product ? (
+            <Feather
+              name={isRTL ? "chevron-left" : "chevron-right"}
+              size={18}
+              color={theme.textSecondary}
+            />
+          ) : null}
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: BorderRadius.full,
+    overflow: "hidden",
+    marginBottom: Spacing.sm,
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: AppColors.primary,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    gap: Spacing.sm,
+  },
+  statusIcon: {
+    width: 24,
+    alignItems: "center",
+  },
+  rowContent: {
+    flex: 1,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+});
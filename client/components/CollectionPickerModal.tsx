@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  FAVORITES_COLLECTION_ID,
+  type ProductCollection,
+  type ProductItem,
+} from "@/lib/storage";
+import {
+  createCollection,
+  getCollectionErrorMessage,
+  getProductCollectionIds,
+  MAX_COLLECTIONS,
+  setProductCollections,
+} from "@/lib/collections";
+
+interface CollectionPickerModalProps {
+  visible: boolean;
+  product: ProductItem;
+  collections: ProductCollection[];
+  onClose: () => void;
+  onChange: (collections: ProductCollection[]) => void;
+  onError: (message: string) => void;
+}
+
+/** Adds a product to or removes it from collections, saving each toggle */
+export function CollectionPickerModal({
+  visible,
+  product,
+  collections,
+  onClose,
+  onChange,
+  onError,
+}: CollectionPickerModalProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [newName, setNewName] = useState("");
+
+  const selectedIds = getProductCollectionIds(collections, product.productId);
+
+  const toggleCollection = async (collectionId: string) => {
+    const nextIds = selectedIds.includes(collectionId)
+      ? selectedIds.filter((id) => id !== collectionId)
+      : [...selectedIds, collectionId];
+    try {
+      onChange(await setProductCollections(product, nextIds));
+    } catch (error) {
+      onError(getCollectionErrorMessage(error, t));
+    }
+  };
+
+  // A new collection starts with the product in it
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (collections.length >= MAX_COLLECTIONS) {
+      onError(t("collections.limitReached", { max: MAX_COLLECTIONS }));
+      return;
+    }
+    try {
+      const collection = await createCollection(newName);
+      setNewName("");
+      onChange(
+        await setProductCollections(product, [...selectedIds, collection.id]),
+      );
+    } catch (error) {
+      onError(getCollectionErrorMessage(error, t));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText type="h3">{t("collections.saveTo")}</ThemedText>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {collections.map((collection) => {
+              const isSelected = selectedIds.includes(collection.id);
+              const isFavorites = collection.id === FAVORITES_COLLECTION_ID;
+              return (
+                <Pressable
+                  key={collection.id}
+                  style={({ pressed }) => [
+                    styles.row,
+                    { borderColor: theme.border },
+                    pressed && styles.pressed,
+                  ]}
+                  onPress={() => toggleCollection(collection.id)}
+                  testID={`collection-option-${collection.id}`}
+                >
+                  <Feather
+                    name={isFavorites ? "star" : "folder"}
+                    size={18}
+                    color={isSelected ? AppColors.primary : theme.textSecondary}
+                  />
+                  <ThemedText
+                    type="body"
+                    numberOfLines={1}
+                    style={styles.rowLabel}
+                  >
+                    {isFavorites ? t("collections.favorites") : collection.name}
+                  </ThemedText>
+                  <Feather
+                    name={isSelected ? "check-square" : "square"}
+                    size={20}
+                    color={isSelected ? AppColors.primary : theme.textSecondary}
+                  />
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          <View style={[styles.inputContainer, { borderColor: theme.border }]}>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder={t("collections.newPlaceholder")}
+              placeholderTextColor={theme.textSecondary}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleCreate}
+              maxLength={60}
+              testID="input-new-collection"
+            />
+            <Pressable
+              style={styles.addButton}
+              onPress={handleCreate}
+              disabled={!newName.trim()}
+              accessibilityLabel={t("collections.create")}
+              testID="button-create-collection"
+            >
+              <Feather
+                name="plus"
+                size={22}
+                color={newName.trim() ? AppColors.primary : theme.textSecondary}
+              />
+            </Pressable>
+          </View>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    width: "100%",
+    maxHeight: "80%",
+    padding: Spacing.xl,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  list: {
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+  addButton: {
+    padding: Spacing.xs,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,361 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { TranslationKey } from "@/i18n";
+import type { HistoryQuery, HistorySort } from "@shared/history";
+
+const DISCOUNT_RANGES: { min?: number; max?: number; label: string }[] = [
+  { label: "" },
+  { max: 20, label: "0-20%" },
+  { min: 20, max: 50, label: "20-50%" },
+  { min: 50, label: "50%+" },
+];
+
+type DatePreset = "any" | "today" | "week" | "month";
+
+const DATE_PRESETS: { key: DatePreset; label: TranslationKey }[] = [
+  { key: "any", label: "history.anyTime" },
+  { key: "today", label: "history.today" },
+  { key: "week", label: "history.lastWeek" },
+  { key: "month", label: "history.lastMonth" },
+];
+
+const SORTS: { key: HistorySort; label: TranslationKey }[] = [
+  { key: "recent", label: "history.sortRecent" },
+  { key: "price", label: "history.sortPrice" },
+  { key: "discount", label: "history.sortDiscount" },
+  { key: "commission", label: "history.sortCommission" },
+];
+
+export interface HistoryFilterState {
+  search: string;
+  category: string | null;
+  /** Index into the discount ranges; 0 means any discount */
+  discountRange: number;
+  datePreset: DatePreset;
+  sort: HistorySort;
+  order: "asc" | "desc";
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilterState = {
+  search: "",
+  category: null,
+  discountRange: 0,
+  datePreset: "any",
+  sort: "recent",
+  order: "desc",
+};
+
+function getPresetStart(preset: DatePreset): string | undefined {
+  if (preset === "any") return undefined;
+  const start = new Date();
+  if (preset === "today") {
+    start.setHours(0, 0, 0, 0);
+  } else {
+    start.setDate(start.getDate() - (preset === "week" ? 7 : 30));
+  }
+  return start.toISOString();
+}
+
+export function toHistoryQuery(filters: HistoryFilterState): HistoryQuery {
+  const range = DISCOUNT_RANGES[filters.discountRange] ?? DISCOUNT_RANGES[0];
+  return {
+    search: filters.search.trim() || undefined,
+    category: filters.category ?? undefined,
+    minDiscount: range.min,
+    maxDiscount: range.max,
+    from: getPresetStart(filters.datePreset),
+    sort: filters.sort,
+    order: filters.order,
+  };
+}
+
+export function hasActiveFilters(filters: HistoryFilterState): boolean {
+  return (
+    !!filters.search.trim() ||
+    filters.category !== null ||
+    filters.discountRange !== 0 ||
+    filters.datePreset !== "any"
+  );
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      style={[
+        styles.chip,
+        { borderColor: selected ? AppColors.primary : theme.border },
+        selected && styles.chipSelected,
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText
+        type="caption"
+        style={selected ? styles.chipTextSelected : undefined}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilterState;
+  categories: string[];
+  onChange: (filters: HistoryFilterState) => void;
+}
+
+export function HistoryFilterBar({
+  filters,
+  categories,
+  onChange,
+}: HistoryFilterBarProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const update = (changes: Partial<HistoryFilterState>) =>
+    onChange({ ...filters, ...changes });
+
+  const renderRow = (label: string, chips: React.ReactNode) => (
+    <View style={styles.filterRow}>
+      <ThemedText
+        type="caption"
+        style={[styles.filterLabel, { color: theme.textSecondary }]}
+      >
+        {label}
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {chips}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <View
+          style={[
+            styles.searchContainer,
+            {
+              backgroundColor: theme.backgroundDefault,
+              borderColor: theme.border,
+            },
+          ]}
+        >
+          <Feather name="search" size={16} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder={t("history.searchPlaceholder")}
+            placeholderTextColor={theme.textSecondary}
+            value={filters.search}
+            onChangeText={(search) => update({ search })}
+            autoCapitalize="none"
+            testID="input-history-search"
+          />
+          {filters.search ? (
+            <Pressable onPress={() => update({ search: "" })}>
+              <Feather name="x" size={16} color={theme.textSecondary} />
+            </Pressable>
+          ) : null}
+        </View>
+        <Pressable
+          style={[
+            styles.filterButton,
+            {
+              borderColor:
+                isExpanded || hasActiveFilters(filters)
+                  ? AppColors.primary
+                  : theme.border,
+            },
+          ]}
+          onPress={() => setIsExpanded((prev) => !prev)}
+          testID="button-history-filters"
+        >
+          <Feather
+            name="sliders"
+            size={18}
+            color={
+              isExpanded || hasActiveFilters(filters)
+                ? AppColors.primary
+                : theme.textSecondary
+            }
+          />
+        </Pressable>
+      </View>
+
+      {isExpanded && (
+        <View style={styles.filters}>
+          {categories.length > 0 &&
+            renderRow(
+              t("history.category"),
+              [null, ...categories].map((category) => (
+                <Chip
+                  key={category ?? "all"}
+                  label={category ?? t("history.all")}
+                  selected={filters.category === category}
+                  onPress={() => update({ category })}
+                />
+              )),
+            )}
+          {renderRow(
+            t("history.discount"),
+            DISCOUNT_RANGES.map((range, index) => (
+              <Chip
+                key={index}
+                label={range.label || t("history.all")}
+                selected={filters.discountRange === index}
+                onPress={() => update({ discountRange: index })}
+              />
+            )),
+          )}
+          {renderRow(
+            t("history.date"),
+            DATE_PRESETS.map((preset) => (
+              <Chip
+                key={preset.key}
+                label={t(preset.label)}
+                selected={filters.datePreset === preset.key}
+                onPress={() => update({ datePreset: preset.key })}
+              />
+            )),
+          )}
+          {renderRow(
+            t("history.sortBy"),
+            <>
+              {SORTS.map((sort) => (
+                <Chip
+                  key={sort.key}
+                  label={t(sort.label)}
+                  selected={filters.sort === sort.key}
+                  onPress={() => update({ sort: sort.key })}
+                />
+              ))}
+              <Pressable
+                style={[styles.chip, { borderColor: theme.border }]}
+                onPress={() =>
+                  update({ order: filters.order === "asc" ? "desc" : "asc" })
+                }
+                accessibilityLabel={
+                  filters.order === "asc"
+                    ? t("history.ascending")
+                    : t("history.descending")
+                }
+                testID="button-history-order"
+              >
+                <Feather
+                  name={filters.order === "asc" ? "arrow-up" : "arrow-down"}
+                  size={14}
+                  color={theme.text}
+                />
+              </Pressable>
+            </>,
+          )}
+          {hasActiveFilters(filters) && (
+            <Pressable
+              style={styles.resetButton}
+              onPress={() =>
+                onChange({
+                  ...DEFAULT_HISTORY_FILTERS,
+                  sort: filters.sort,
+                  order: filters.order,
+                })
+              }
+            >
+              <ThemedText type="small" style={{ color: AppColors.primary }}>
+                {t("history.resetFilters")}
+              </ThemedText>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 14,
+  },
+  filterButton: {
+    width: 40,
+    height: 40,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filters: {
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  filterRow: {
+    gap: Spacing.xs,
+  },
+  filterLabel: {
+    fontWeight: "600",
+  },
+  chips: {
+    gap: Spacing.xs,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: AppColors.primary,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  resetButton: {
+    alignSelf: "flex-start",
+  },
+});
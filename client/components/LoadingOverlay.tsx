@@ -3,6 +3,7 @@ import { View, StyleSheet, ActivityIndicator, Modal } from "react-native";
 
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 interface LoadingOverlayProps {
@@ -10,11 +11,9 @@ interface LoadingOverlayProps {
   message?: string;
 }
 
-export function LoadingOverlay({
-  visible,
-  message = "Loading...",
-}: LoadingOverlayProps) {
+export function LoadingOverlay({ visible, message }: LoadingOverlayProps) {
   const { theme } = useTheme();
+  const { t } = useTranslation();
 
   return (
     <Modal visible={visible} transparent animationType="fade">
@@ -24,7 +23,7 @@ export function LoadingOverlay({
         >
           <ActivityIndicator size="large" color={AppColors.primary} />
           <ThemedText type="body" style={styles.message}>
-            {message}
+            {message ?? t("common.loading")}
           </ThemedText>
         </View>
       </View>
@@ -13,6 +13,7 @@ import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 interface OfferButtonProps {
@@ -20,6 +21,8 @@ interface OfferButtonProps {
   link: string;
   success: boolean;
   onCopied?: () => void;
+  /** Adds a button that shows the link as a QR code */
+  onShowQr?: () => void;
 }
 
 export function OfferButton({
@@ -27,8 +30,10 @@ export function OfferButton({
   link,
   success,
   onCopied,
+  onShowQr,
 }: OfferButtonProps) {
   const { theme } = useTheme();
+  const { t, isRTL } = useTranslation();
 
   const openOffer = async () => {
     if (!success) return;
@@ -102,10 +107,15 @@ export function OfferButton({
             {name}
           </ThemedText>
           <ThemedText type="small" style={{ color: theme.textSecondary }} numberOfLines={1}>
-            {success ? "Click to view offer" : "Offer unavailable"}
+            {success ? t("offer.viewOffer") : t("offer.unavailable")}
           </ThemedText>
         </View>
-        <Feather name="chevron-right" size={20} color={theme.textSecondary} style={styles.chevron} />
+        <Feather
+          name={isRTL ? "chevron-left" : "chevron-right"}
+          size={20}
+          color={theme.textSecondary}
+          style={styles.chevron}
+        />
       </Pressable>
 
       <View style={styles.actions}>
@@ -142,6 +152,28 @@ export function OfferButton({
             color={success ? AppColors.primary : theme.border}
           />
         </Pressable>
+        {onShowQr && (
+          <>
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <Pressable
+              style={({ pressed }) => [
+                styles.actionButton,
+                pressed && styles.pressed,
+                !success && styles.disabled,
+              ]}
+              onPress={onShowQr}
+              disabled={!success}
+              accessibilityLabel={t("qr.show")}
+              testID={`qr-offer-${name}`}
+            >
+              <Feather
+                name="grid"
+                size={18}
+                color={success ? AppColors.primary : theme.border}
+              />
+            </Pressable>
+          </>
+        )}
       </View>
     </View>
   );
@@ -176,7 +208,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
   },
   offerIcon: {
-    marginRight: Spacing.md,
+    marginEnd: Spacing.md,
   },
   iconBadge: {
     width: 32,
@@ -194,7 +226,7 @@ const styles = StyleSheet.create({
     marginBottom: 2,
   },
   chevron: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   actions: {
     flexDirection: "row",
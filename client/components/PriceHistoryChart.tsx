@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { View, StyleSheet, LayoutChangeEvent } from "react-native";
+import Svg, { Circle, Line, Polyline } from "react-native-svg";
+
+import { useTheme } from "@/hooks/useTheme";
+import { AppColors, Spacing } from "@/constants/theme";
+import type { PricePoint } from "@shared/price-history";
+
+interface PriceHistoryChartProps {
+  /** Oldest point first */
+  points: PricePoint[];
+  height?: number;
+}
+
+const CHART_PADDING = Spacing.sm;
+
+export function PriceHistoryChart({
+  points,
+  height = 120,
+}: PriceHistoryChartProps) {
+  const { theme } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const values = points
+    .map((point) => point.priceValue)
+    .filter((value): value is number => value !== null);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const plotWidth = width - CHART_PADDING * 2;
+  const plotHeight = height - CHART_PADDING * 2;
+
+  // A flat history is drawn through the middle of the chart
+  const coordinates = values.map((value, index) => ({
+    x:
+      CHART_PADDING +
+      (values.length > 1
+        ? (index / (values.length - 1)) * plotWidth
+        : plotWidth / 2),
+    y:
+      CHART_PADDING +
+      (max === min ? plotHeight / 2 : ((max - value) / range) * plotHeight),
+    value,
+  }));
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && values.length > 0 ? (
+        <Svg width={width} height={height}>
+          <Line
+            x1={CHART_PADDING}
+            y1={height - CHART_PADDING}
+            x2={width - CHART_PADDING}
+            y2={height - CHART_PADDING}
+            stroke={theme.border}
+            strokeWidth={1}
+          />
+          {coordinates.length > 1 ? (
+            <Polyline
+              points={coordinates.map(({ x, y }) => `${x},${y}`).join(" ")}
+              fill="none"
+              stroke={AppColors.primary}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+          ) : null}
+          {coordinates.map(({ x, y, value }, index) => (
+            <Circle
+              key={index}
+              cx={x}
+              cy={y}
+              r={value === min ? 4 : 3}
+              fill={value === min ? AppColors.success : AppColors.primary}
+            />
+          ))}
+        </Svg>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+});
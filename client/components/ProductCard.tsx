@@ -5,16 +5,32 @@ import { Feather } from "@expo/vector-icons";
 
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import type { ProductItem } from "@/lib/storage";
 
 interface ProductCardProps {
   product: ProductItem;
   onPress: () => void;
+  onLongPress?: () => void;
+  /** Shows a star button when set */
+  onToggleFavorite?: () => void;
+  isFavorite?: boolean;
+  /** Set while the list is in selection mode; shows a checkbox instead */
+  selected?: boolean;
 }
 
-export function ProductCard({ product, onPress }: ProductCardProps) {
+export function ProductCard({
+  product,
+  onPress,
+  onLongPress,
+  onToggleFavorite,
+  isFavorite = false,
+  selected,
+}: ProductCardProps) {
   const { theme } = useTheme();
+  const { t, isRTL } = useTranslation();
+  const isSelecting = selected !== undefined;
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -27,11 +43,12 @@ export function ProductCard({ product, onPress }: ProductCardProps) {
         styles.container,
         {
           backgroundColor: theme.backgroundDefault,
-          borderColor: theme.border,
+          borderColor: selected ? AppColors.primary : theme.border,
         },
         pressed && styles.pressed,
       ]}
       onPress={onPress}
+      onLongPress={onLongPress}
       testID={`product-card-${product.productId}`}
     >
       <View style={styles.imageContainer}>
@@ -78,8 +95,40 @@ export function ProductCard({ product, onPress }: ProductCardProps) {
         </ThemedText>
       </View>
 
+      {onToggleFavorite && !isSelecting && (
+        <Pressable
+          style={styles.favoriteButton}
+          onPress={onToggleFavorite}
+          hitSlop={8}
+          accessibilityLabel={
+            isFavorite
+              ? t("collections.removeFromFavorites")
+              : t("collections.addToFavorites")
+          }
+          testID={`button-favorite-${product.productId}`}
+        >
+          <Feather
+            name="star"
+            size={20}
+            color={isFavorite ? AppColors.accent : theme.textSecondary}
+          />
+        </Pressable>
+      )}
+
       <View style={styles.arrow}>
-        <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+        {isSelecting ? (
+          <Feather
+            name={selected ? "check-circle" : "circle"}
+            size={22}
+            color={selected ? AppColors.primary : theme.textSecondary}
+          />
+        ) : (
+          <Feather
+            name={isRTL ? "chevron-left" : "chevron-right"}
+            size={20}
+            color={theme.textSecondary}
+          />
+        )}
       </View>
     </Pressable>
   );
@@ -116,7 +165,7 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
-    marginLeft: Spacing.md,
+    marginStart: Spacing.md,
   },
   title: {
     marginBottom: Spacing.xs,
@@ -137,7 +186,11 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     fontWeight: "600",
   },
+  favoriteButton: {
+    marginStart: Spacing.sm,
+    padding: Spacing.xs,
+  },
   arrow: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
 });
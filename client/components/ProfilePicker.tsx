@@ -0,0 +1,100 @@
+import React from "react";
+import { ScrollView, StyleSheet, Pressable, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { TrackingProfile } from "@/lib/storage";
+
+interface ProfilePickerProps {
+  profiles: TrackingProfile[];
+  /** Selected profile id; null is the default tracking ID */
+  selectedId: string | null;
+  onSelect: (profileId: string | null) => void;
+  disabled?: boolean;
+}
+
+export function ProfilePicker({
+  profiles,
+  selectedId,
+  onSelect,
+  disabled = false,
+}: ProfilePickerProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const options = [
+    { id: null, name: t("common.default") },
+    ...profiles.map(({ id, name }) => ({ id, name })),
+  ];
+  const isKnownSelection = profiles.some((p) => p.id === selectedId);
+
+  return (
+    <View style={styles.container}>
+      <Feather name="users" size={16} color={theme.textSecondary} />
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.options}
+      >
+        {options.map((option) => {
+          const isSelected = isKnownSelection
+            ? option.id === selectedId
+            : option.id === null;
+          return (
+            <Pressable
+              key={option.id ?? "default"}
+              style={({ pressed }) => [
+                styles.chip,
+                {
+                  backgroundColor: isSelected
+                    ? `${AppColors.primary}15`
+                    : theme.backgroundDefault,
+                  borderColor: isSelected ? AppColors.primary : theme.border,
+                },
+                pressed && styles.pressed,
+              ]}
+              onPress={() => onSelect(option.id)}
+              disabled={disabled || isSelected}
+              testID={`profile-${option.id ?? "default"}`}
+            >
+              <ThemedText
+                type="small"
+                style={isSelected && { color: AppColors.primary }}
+              >
+                {option.name}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  options: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+});
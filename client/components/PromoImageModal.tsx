@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Share,
+  useWindowDimensions,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import { File, Paths } from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  formatProductMessage,
+  getShareTemplate,
+  type ProductItem,
+} from "@/lib/storage";
+import { fetchPromoCard } from "@/lib/promo-api";
+import { PROMO_LAYOUTS, type PromoLayout } from "@shared/promo";
+
+interface PromoImageModalProps {
+  visible: boolean;
+  product: ProductItem;
+  /** Shown in the card header; the server falls back to the app name */
+  channelName?: string;
+  /** Offer link that can be added to the card as a QR code */
+  qrLink?: string;
+  onClose: () => void;
+  onMessage: (message: string) => void;
+}
+
+const LAYOUT_OPTIONS: { layout: PromoLayout; icon: "square" | "smartphone" }[] =
+  [
+    { layout: "square", icon: "square" },
+    { layout: "story", icon: "smartphone" },
+  ];
+
+/** Previews the product's promo card and saves or shares it as PNG */
+export function PromoImageModal({
+  visible,
+  product,
+  channelName,
+  qrLink,
+  onClose,
+  onMessage,
+}: PromoImageModalProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const dimensions = useWindowDimensions();
+  const [layout, setLayout] = useState<PromoLayout>("square");
+  const [includeQr, setIncludeQr] = useState(true);
+  const [image, setImage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setImage(null);
+    setLoadError(null);
+    setIsLoading(true);
+    fetchPromoCard(product, layout, {
+      channelName,
+      qrLink: includeQr ? qrLink : null,
+    })
+      .then((dataUri) => {
+        if (!cancelled) setImage(dataUri);
+      })
+      .catch((fetchError) => {
+        if (!cancelled) {
+          setLoadError(fetchError instanceof Error ? fetchError.message : null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, layout, product, channelName, qrLink, includeQr]);
+
+  const size = PROMO_LAYOUTS[layout];
+  const previewHeight = Math.min(
+    dimensions.height * 0.5,
+    ((dimensions.width - Spacing.xl * 2) * size.height) / size.width,
+  );
+  const previewWidth = (previewHeight * size.width) / size.height;
+
+  // The server renders the PNG; it only needs writing to a file
+  const writePng = async () => {
+    if (!image) throw new Error("Image is not ready");
+    const file = new File(
+      Paths.cache,
+      `promo_${product.productId}_${layout}.png`,
+    );
+    file.write(image.slice(image.indexOf(",") + 1), { encoding: "base64" });
+    return file;
+  };
+
+  const handleSave = async () => {
+    setIsExporting(true);
+    try {
+      const { status } = await MediaLibrary.requestPermissionsAsync();
+      if (status !== "granted") {
+        onMessage(t("product.permissionRequired"));
+        return;
+      }
+      const file = await writePng();
+      await MediaLibrary.saveToLibraryAsync(file.uri);
+      onMessage(t("promo.saved"));
+    } catch (error) {
+      console.error("Failed to save promo image:", error);
+      onMessage(t("promo.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Share sheets attach the image on iOS; Android shares the message only
+  const handleShare = async () => {
+    setIsExporting(true);
+    try {
+      const file = await writePng();
+      const message = formatProductMessage(product, await getShareTemplate());
+      await Share.share({ message, url: file.uri });
+    } catch (error) {
+      console.error("Failed to share promo image:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isReady = !!image && !isLoading && !isExporting;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText type="h3">{t("promo.title")}</ThemedText>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.layoutRow}>
+            {LAYOUT_OPTIONS.map((option) => {
+              const isSelected = option.layout === layout;
+              return (
+                <Pressable
+                  key={option.layout}
+                  style={[
+                    styles.layoutChip,
+                    {
+                      backgroundColor: isSelected
+                        ? AppColors.primary
+                        : theme.backgroundSecondary,
+                    },
+                  ]}
+                  onPress={() => setLayout(option.layout)}
+                  testID={`promo-layout-${option.layout}`}
+                >
+                  <Feather
+                    name={option.icon}
+                    size={16}
+                    color={isSelected ? "#FFFFFF" : theme.text}
+                  />
+                  <ThemedText
+                    type="small"
+                    style={{ color: isSelected ? "#FFFFFF" : theme.text }}
+                  >
+                    {t(`promo.${option.layout}`)}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+            {qrLink && (
+              <Pressable
+                style={[
+                  styles.layoutChip,
+                  {
+                    backgroundColor: includeQr
+                      ? AppColors.primary
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+                onPress={() => setIncludeQr((value) => !value)}
+                accessibilityState={{ checked: includeQr }}
+                testID="promo-toggle-qr"
+              >
+                <Feather
+                  name="grid"
+                  size={16}
+                  color={includeQr ? "#FFFFFF" : theme.text}
+                />
+                <ThemedText
+                  type="small"
+                  style={{ color: includeQr ? "#FFFFFF" : theme.text }}
+                >
+                  {t("promo.qrCode")}
+                </ThemedText>
+              </Pressable>
+            )}
+          </View>
+
+          <View
+            style={[
+              styles.preview,
+              {
+                width: previewWidth,
+                height: previewHeight,
+                backgroundColor: theme.backgroundSecondary,
+              },
+            ]}
+          >
+            {image ? (
+              <Image
+                source={{ uri: image }}
+                style={{ width: previewWidth, height: previewHeight }}
+                contentFit="contain"
+              />
+            ) : isLoading ? (
+              <ActivityIndicator color={AppColors.primary} />
+            ) : (
+              <ThemedText
+                type="small"
+                style={[styles.error, { color: theme.textSecondary }]}
+              >
+                {loadError || t("promo.failed")}
+              </ThemedText>
+            )}
+          </View>
+
+          <View style={styles.actions}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.actionButton,
+                { borderColor: theme.border, borderWidth: 1 },
+                !isReady && styles.disabled,
+                pressed && styles.pressed,
+              ]}
+              onPress={handleSave}
+              disabled={!isReady}
+              testID="button-save-promo"
+            >
+              <Feather name="download" size={16} color={theme.text} />
+              <ThemedText type="small">{t("promo.save")}</ThemedText>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.actionButton,
+                { backgroundColor: AppColors.secondary },
+                !isReady && styles.disabled,
+                pressed && styles.pressed,
+              ]}
+              onPress={handleShare}
+              disabled={!isReady}
+              testID="button-share-promo"
+            >
+              <Feather name="share-2" size={16} color="#FFFFFF" />
+              <ThemedText type="small" style={styles.actionButtonText}>
+                {t("promo.share")}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    width: "100%",
+    padding: Spacing.xl,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  layoutRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  layoutChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  preview: {
+    alignSelf: "center",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+    marginBottom: Spacing.md,
+  },
+  error: {
+    padding: Spacing.md,
+    textAlign: "center",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  actionButtonText: {
+    color: "#FFFFFF",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+});
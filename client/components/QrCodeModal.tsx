@@ -0,0 +1,400 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Share,
+  useWindowDimensions,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import Svg, { parse } from "react-native-svg";
+import * as Clipboard from "expo-clipboard";
+import { File, Paths } from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import { fetchQrCode } from "@/lib/qr-api";
+import { renderSvgToPng } from "@/lib/image-export";
+
+interface QrCodeModalProps {
+  visible: boolean;
+  name: string;
+  link: string;
+  onClose: () => void;
+  onMessage: (message: string) => void;
+}
+
+const PNG_SIZE = 1024;
+
+// Dark on light only; many scanners can't read inverted codes
+const COLOR_PRESETS = [
+  { foreground: "#000000", background: "#FFFFFF" },
+  { foreground: AppColors.primary, background: "#FFFFFF" },
+  { foreground: AppColors.secondary, background: "#FFFFFF" },
+  { foreground: "#1D3557", background: "#FFFFFF" },
+  { foreground: "#1A1A1A", background: "#FFF4E5" },
+];
+
+/** Shows an offer link as a full-screen QR code and exports it */
+export function QrCodeModal({
+  visible,
+  name,
+  link,
+  onClose,
+  onMessage,
+}: QrCodeModalProps) {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const dimensions = useWindowDimensions();
+  const svgRef = useRef<Svg>(null);
+  const [colors, setColors] = useState(COLOR_PRESETS[0]);
+  const [withLogo, setWithLogo] = useState(false);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setSvg(null);
+    setLoadError(null);
+    setIsLoading(true);
+    fetchQrCode({ data: link, ...colors, logo: withLogo })
+      .then((markup) => {
+        if (!cancelled) setSvg(markup);
+      })
+      .catch((fetchError) => {
+        if (!cancelled) {
+          setLoadError(fetchError instanceof Error ? fetchError.message : null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, link, colors, withLogo]);
+
+  const ast = useMemo(() => (svg ? parse(svg) : null), [svg]);
+  const previewSize = Math.min(
+    dimensions.width - Spacing.xl * 2,
+    dimensions.height * 0.5,
+  );
+
+  const writePng = async () => {
+    const png = await renderSvgToPng(svgRef.current, {
+      width: PNG_SIZE,
+      height: PNG_SIZE,
+    });
+    const file = new File(Paths.cache, `qr_${Date.now()}.png`);
+    file.write(png, { encoding: "base64" });
+    return file;
+  };
+
+  const handleSave = async () => {
+    setIsExporting(true);
+    try {
+      const { status } = await MediaLibrary.requestPermissionsAsync();
+      if (status !== "granted") {
+        onMessage(t("product.permissionRequired"));
+        return;
+      }
+      const file = await writePng();
+      await MediaLibrary.saveToLibraryAsync(file.uri);
+      onMessage(t("qr.saved"));
+    } catch (error) {
+      console.error("Failed to save QR code:", error);
+      onMessage(t("qr.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Share sheets attach the image on iOS; Android shares the link only
+  const handleShare = async () => {
+    setIsExporting(true);
+    try {
+      const file = await writePng();
+      await Share.share({ message: `${name}\n${link}`, url: file.uri });
+    } catch (error) {
+      console.error("Failed to share QR code:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopySvg = async () => {
+    if (!svg) return;
+    try {
+      await Clipboard.setStringAsync(svg);
+      onMessage(t("qr.svgCopied"));
+    } catch {
+      onMessage(t("common.copyFailed"));
+    }
+  };
+
+  const isReady = !!ast && !isLoading && !isExporting;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="fullScreen"
+      onRequestClose={onClose}
+    >
+      <ThemedView
+        style={[
+          styles.container,
+          {
+            paddingTop: insets.top + Spacing.md,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="h3" numberOfLines={1} style={styles.title}>
+            {name}
+          </ThemedText>
+          <Pressable onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+
+        <View
+          style={[
+            styles.preview,
+            {
+              width: previewSize,
+              height: previewSize,
+              backgroundColor: colors.background,
+            },
+          ]}
+        >
+          {ast ? (
+            <Svg
+              ref={svgRef}
+              width={previewSize}
+              height={previewSize}
+              viewBox={ast.props.viewBox as string | undefined}
+            >
+              {ast.children}
+            </Svg>
+          ) : isLoading ? (
+            <ActivityIndicator color={AppColors.primary} />
+          ) : (
+            <ThemedText
+              type="small"
+              style={[styles.error, { color: theme.textSecondary }]}
+            >
+              {loadError || t("qr.failed")}
+            </ThemedText>
+          )}
+        </View>
+
+        <ThemedText
+          type="small"
+          numberOfLines={2}
+          style={[styles.link, { color: theme.textSecondary }]}
+        >
+          {link}
+        </ThemedText>
+
+        <View style={styles.options}>
+          {COLOR_PRESETS.map((preset) => {
+            const isSelected = preset === colors;
+            return (
+              <Pressable
+                key={`${preset.foreground}-${preset.background}`}
+                style={[
+                  styles.swatch,
+                  {
+                    backgroundColor: preset.background,
+                    borderColor: isSelected ? AppColors.primary : theme.border,
+                  },
+                ]}
+                onPress={() => setColors(preset)}
+                accessibilityState={{ selected: isSelected }}
+                testID={`qr-color-${preset.foreground}`}
+              >
+                <View
+                  style={[
+                    styles.swatchDot,
+                    { backgroundColor: preset.foreground },
+                  ]}
+                />
+              </Pressable>
+            );
+          })}
+          <Pressable
+            style={[
+              styles.logoToggle,
+              {
+                backgroundColor: withLogo
+                  ? AppColors.primary
+                  : theme.backgroundSecondary,
+              },
+            ]}
+            onPress={() => setWithLogo((value) => !value)}
+            accessibilityState={{ checked: withLogo }}
+            testID="qr-toggle-logo"
+          >
+            <Feather
+              name="award"
+              size={16}
+              color={withLogo ? "#FFFFFF" : theme.text}
+            />
+            <ThemedText
+              type="small"
+              style={{ color: withLogo ? "#FFFFFF" : theme.text }}
+            >
+              {t("qr.logo")}
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <View style={styles.actions}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.actionButton,
+              { borderColor: theme.border, borderWidth: 1 },
+              !isReady && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={handleSave}
+            disabled={!isReady}
+            testID="button-save-qr"
+          >
+            <Feather name="download" size={16} color={theme.text} />
+            <ThemedText type="small">{t("qr.savePng")}</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.actionButton,
+              { borderColor: theme.border, borderWidth: 1 },
+              !isReady && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={handleCopySvg}
+            disabled={!isReady}
+            testID="button-copy-qr-svg"
+          >
+            <Feather name="code" size={16} color={theme.text} />
+            <ThemedText type="small">{t("qr.copySvg")}</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.actionButton,
+              { backgroundColor: AppColors.secondary },
+              !isReady && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={handleShare}
+            disabled={!isReady}
+            testID="button-share-qr"
+          >
+            <Feather name="share-2" size={16} color="#FFFFFF" />
+            <ThemedText type="small" style={styles.actionButtonText}>
+              {t("qr.sharePng")}
+            </ThemedText>
+          </Pressable>
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  preview: {
+    alignSelf: "center",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+  },
+  error: {
+    padding: Spacing.md,
+    textAlign: "center",
+  },
+  link: {
+    textAlign: "center",
+    marginVertical: Spacing.md,
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  swatch: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  swatchDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+  },
+  logoToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: "auto",
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  actionButtonText: {
+    color: "#FFFFFF",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+});
@@ -0,0 +1,124 @@
+import React from "react";
+import { StyleSheet, Pressable } from "react-native";
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from "react-native-gesture-handler/ReanimatedSwipeable";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ProductCard } from "@/components/ProductCard";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { ProductItem } from "@/lib/storage";
+
+interface SwipeActionProps {
+  label: string;
+  icon: keyof typeof Feather.glyphMap;
+  color: string;
+  testID: string;
+  onPress: () => void;
+}
+
+function SwipeAction({
+  label,
+  icon,
+  color,
+  testID,
+  onPress,
+}: SwipeActionProps) {
+  return (
+    <Pressable
+      style={[styles.action, { backgroundColor: color }]}
+      onPress={onPress}
+      testID={testID}
+    >
+      <Feather name={icon} size={20} color="#FFFFFF" />
+      <ThemedText type="caption" style={styles.actionText}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+interface SwipeableProductCardProps {
+  product: ProductItem;
+  onPress: () => void;
+  onShare: () => void;
+  onDelete: () => void;
+  onLongPress?: () => void;
+  onToggleFavorite?: () => void;
+  isFavorite?: boolean;
+  /** Set while the list is in selection mode, which also disables swiping */
+  selected?: boolean;
+}
+
+/** Product card that reveals Share (swipe from start) and Delete actions. */
+export function SwipeableProductCard({
+  product,
+  onPress,
+  onShare,
+  onDelete,
+  onLongPress,
+  onToggleFavorite,
+  isFavorite,
+  selected,
+}: SwipeableProductCardProps) {
+  const { t } = useTranslation();
+
+  // Actions close the row before running so it is not left open
+  const closeThen = (methods: SwipeableMethods, action: () => void) => () => {
+    methods.close();
+    action();
+  };
+
+  return (
+    <ReanimatedSwipeable
+      friction={2}
+      overshootFriction={8}
+      enabled={selected === undefined}
+      renderLeftActions={(_progress, _translation, methods) => (
+        <SwipeAction
+          label={t("product.share")}
+          icon="share-2"
+          color={AppColors.secondary}
+          testID={`button-swipe-share-${product.productId}`}
+          onPress={closeThen(methods, onShare)}
+        />
+      )}
+      renderRightActions={(_progress, _translation, methods) => (
+        <SwipeAction
+          label={t("history.delete")}
+          icon="trash-2"
+          color={AppColors.error}
+          testID={`button-swipe-delete-${product.productId}`}
+          onPress={closeThen(methods, onDelete)}
+        />
+      )}
+    >
+      <ProductCard
+        product={product}
+        onPress={onPress}
+        onLongPress={onLongPress}
+        onToggleFavorite={onToggleFavorite}
+        isFavorite={isFavorite}
+        selected={selected}
+      />
+    </ReanimatedSwipeable>
+  );
+}
+
+const styles = StyleSheet.create({
+  action: {
+    width: 80,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.sm,
+    marginHorizontal: Spacing.xs,
+    gap: Spacing.xs,
+  },
+  actionText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, TextInput, Share } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { NamedTemplate } from "@/lib/storage";
+import {
+  createTemplate,
+  deleteTemplate,
+  duplicateTemplate,
+  exportTemplates,
+  importTemplates,
+  MAX_TEMPLATES,
+  TemplateLimitError,
+  updateTemplate,
+} from "@/lib/templates";
+
+interface TemplateLibraryPanelProps {
+  templates: NamedTemplate[];
+  selectedId: string | null;
+  /** Body given to newly created templates */
+  newTemplateBody: string;
+  onSelect: (template: NamedTemplate | null) => void;
+  onChange: (templates: NamedTemplate[]) => void;
+  onMessage: (message: string) => void;
+}
+
+/** Creates, renames, duplicates, deletes, imports and exports templates */
+export function TemplateLibraryPanel({
+  templates,
+  selectedId,
+  newTemplateBody,
+  onSelect,
+  onChange,
+  onMessage,
+}: TemplateLibraryPanelProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [newName, setNewName] = useState("");
+  const selected = templates.find((template) => template.id === selectedId);
+  const [name, setName] = useState(selected?.name ?? "");
+
+  useEffect(() => {
+    setName(selected?.name ?? "");
+  }, [selected?.id, selected?.name]);
+
+  const isFull = templates.length >= MAX_TEMPLATES;
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (isFull) {
+      onMessage(t("templates.limitReached", { max: MAX_TEMPLATES }));
+      return;
+    }
+    const result = await createTemplate(newName, newTemplateBody);
+    onChange(result.templates);
+    onSelect(result.template);
+    setNewName("");
+  };
+
+  const handleRename = async () => {
+    if (!selected) return;
+    if (!name.trim()) {
+      setName(selected.name);
+      return;
+    }
+    if (name.trim() !== selected.name) {
+      onChange(await updateTemplate(selected.id, { name }));
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!selected) return;
+    if (isFull) {
+      onMessage(t("templates.limitReached", { max: MAX_TEMPLATES }));
+      return;
+    }
+    const result = await duplicateTemplate(
+      selected.id,
+      t("templates.copyName", { name: selected.name }),
+    );
+    onChange(result.templates);
+    onSelect(result.template);
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    onChange(await deleteTemplate(selected.id));
+    onSelect(null);
+    onMessage(t("templates.deleted"));
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportTemplates(templates) });
+    } catch (error) {
+      console.error("Failed to export templates:", error);
+    }
+  };
+
+  // Teammates send the exported JSON as text, so it is read from the clipboard
+  const handleImport = async () => {
+    try {
+      const result = await importTemplates(await Clipboard.getStringAsync());
+      onChange(result.templates);
+      onMessage(t("templates.imported", { count: result.imported }));
+    } catch (error) {
+      onMessage(
+        error instanceof TemplateLimitError
+          ? t("templates.limitReached", { max: MAX_TEMPLATES })
+          : t("templates.importInvalid"),
+      );
+    }
+  };
+
+  return (
+    <View>
+      {templates.length > 0 ? (
+        <View style={styles.chips}>
+          {templates.map((template) => {
+            const isSelected = template.id === selectedId;
+            return (
+              <Pressable
+                key={template.id}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isSelected
+                      ? AppColors.primary
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+                onPress={() => onSelect(template)}
+                testID={`template-${template.id}`}
+              >
+                <ThemedText
+                  type="small"
+                  numberOfLines={1}
+                  style={{ color: isSelected ? "#FFFFFF" : theme.text }}
+                >
+                  {template.name}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : (
+        <ThemedText
+          type="small"
+          style={[styles.empty, { color: theme.textSecondary }]}
+        >
+          {t("templates.empty")}
+        </ThemedText>
+      )}
+
+      <View
+        style={[
+          styles.inputContainer,
+          {
+            backgroundColor: theme.backgroundDefault,
+            borderColor: theme.border,
+          },
+        ]}
+      >
+        <TextInput
+          style={[styles.input, { color: theme.text }]}
+          placeholder={t("templates.newPlaceholder")}
+          placeholderTextColor={theme.textSecondary}
+          value={newName}
+          onChangeText={setNewName}
+          onSubmitEditing={handleCreate}
+          maxLength={60}
+          testID="input-template-name"
+        />
+        <Pressable
+          style={styles.iconButton}
+          onPress={handleCreate}
+          disabled={!newName.trim()}
+          accessibilityLabel={t("templates.create")}
+          testID="button-create-template"
+        >
+          <Feather
+            name="plus"
+            size={22}
+            color={newName.trim() ? AppColors.primary : theme.textSecondary}
+          />
+        </Pressable>
+      </View>
+
+      {selected && (
+        <View
+          style={[
+            styles.inputContainer,
+            {
+              backgroundColor: theme.backgroundDefault,
+              borderColor: theme.border,
+            },
+          ]}
+        >
+          <Feather name="edit-2" size={16} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.input, styles.nameInput, { color: theme.text }]}
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={handleRename}
+            onBlur={handleRename}
+            maxLength={60}
+            accessibilityLabel={t("templates.rename")}
+            testID="input-rename-template"
+          />
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleDuplicate}
+            accessibilityLabel={t("templates.duplicate")}
+            testID="button-duplicate-template"
+          >
+            <Feather name="copy" size={18} color={AppColors.primary} />
+          </Pressable>
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleDelete}
+            accessibilityLabel={t("templates.delete")}
+            testID="button-delete-template"
+          >
+            <Feather name="trash-2" size={18} color={AppColors.error} />
+          </Pressable>
+        </View>
+      )}
+
+      <View style={styles.transferRow}>
+        <Pressable
+          style={({ pressed }) => [
+            styles.transferButton,
+            { borderColor: theme.border },
+            pressed && styles.pressed,
+          ]}
+          onPress={handleImport}
+          testID="button-import-templates"
+        >
+          <Feather name="download" size={16} color={theme.text} />
+          <ThemedText type="small">{t("templates.import")}</ThemedText>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [
+            styles.transferButton,
+            { borderColor: theme.border },
+            templates.length === 0 && styles.disabled,
+            pressed && styles.pressed,
+          ]}
+          onPress={handleExport}
+          disabled={templates.length === 0}
+          testID="button-export-templates"
+        >
+          <Feather name="upload" size={16} color={theme.text} />
+          <ThemedText type="small">{t("templates.export")}</ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    maxWidth: "100%",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  empty: {
+    marginBottom: Spacing.md,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+  nameInput: {
+    marginStart: Spacing.sm,
+  },
+  iconButton: {
+    padding: Spacing.sm,
+  },
+  transferRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  transferButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+});
@@ -0,0 +1,114 @@
+import React from "react";
+import { View, StyleSheet, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { NamedTemplate } from "@/lib/storage";
+
+interface TemplatePickerModalProps {
+  visible: boolean;
+  templates: NamedTemplate[];
+  onClose: () => void;
+  onSelect: (template: NamedTemplate) => void;
+}
+
+/** Lists the library templates to pick one for sharing */
+export function TemplatePickerModal({
+  visible,
+  templates,
+  onClose,
+  onSelect,
+}: TemplatePickerModalProps) {
+  const { theme } = useTheme();
+  const { t, isRTL } = useTranslation();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText type="h3">{t("templates.pickTitle")}</ThemedText>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView>
+            {templates.map((template) => (
+              <Pressable
+                key={template.id}
+                style={({ pressed }) => [
+                  styles.row,
+                  { borderColor: theme.border },
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => onSelect(template)}
+                testID={`template-option-${template.id}`}
+              >
+                <Feather name="file-text" size={18} color={AppColors.primary} />
+                <ThemedText
+                  type="body"
+                  numberOfLines={1}
+                  style={styles.rowLabel}
+                >
+                  {template.name}
+                </ThemedText>
+                <Feather
+                  name={isRTL ? "chevron-left" : "chevron-right"}
+                  size={20}
+                  color={theme.textSecondary}
+                />
+              </Pressable>
+            ))}
+          </ScrollView>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    width: "100%",
+    maxHeight: "80%",
+    padding: Spacing.xl,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+});
@@ -124,7 +124,7 @@ const styles = StyleSheet.create({
     }),
   },
   message: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
     flex: 1,
   },
 });
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import { formatPriceValue } from "@shared/price-history";
+import {
+  getWatchThreshold,
+  type WatchlistItem,
+  type WatchTarget,
+} from "@shared/watchlist";
+
+type WatchMode = "price" | "percent";
+
+interface WatchPriceModalProps {
+  visible: boolean;
+  /** Current price as displayed, e.g. "19.99 USD" */
+  price: string;
+  priceValue: number;
+  watch: WatchlistItem | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (target: WatchTarget) => void;
+  onRemove: () => void;
+}
+
+export function WatchPriceModal({
+  visible,
+  price,
+  priceValue,
+  watch,
+  isSaving,
+  onClose,
+  onSave,
+  onRemove,
+}: WatchPriceModalProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<WatchMode>("price");
+  const [value, setValue] = useState("");
+
+  // Start from the existing target each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    if (watch?.targetDropPercent != null) {
+      setMode("percent");
+      setValue(String(watch.targetDropPercent));
+    } else {
+      setMode("price");
+      setValue(watch?.targetPrice != null ? String(watch.targetPrice) : "");
+    }
+  }, [visible, watch]);
+
+  const amount = parseFloat(value.replace(",", "."));
+  const isValid =
+    Number.isFinite(amount) && amount > 0 && (mode === "price" || amount < 100);
+  const target: WatchTarget =
+    mode === "price" ? { targetPrice: amount } : { targetDropPercent: amount };
+  const threshold = isValid ? getWatchThreshold(target, priceValue) : null;
+
+  const modes: { key: WatchMode; label: string }[] = [
+    { key: "price", label: t("watch.targetPrice") },
+    { key: "percent", label: t("watch.dropPercent") },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText type="h3">
+              {watch ? t("watch.editWatch") : t("watch.title")}
+            </ThemedText>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {t("watch.currentPrice", { price })}
+          </ThemedText>
+
+          <View style={styles.modeRow}>
+            {modes.map((option) => (
+              <Pressable
+                key={option.key}
+                style={[
+                  styles.modeButton,
+                  { borderColor: theme.border },
+                  mode === option.key && styles.modeButtonActive,
+                ]}
+                onPress={() => setMode(option.key)}
+              >
+                <ThemedText
+                  type="small"
+                  style={mode === option.key ? styles.modeTextActive : null}
+                >
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          <View style={[styles.inputContainer, { borderColor: theme.border }]}>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder={
+                mode === "price"
+                  ? t("watch.targetPricePlaceholder")
+                  : t("watch.dropPercentPlaceholder")
+              }
+              placeholderTextColor={theme.textSecondary}
+              value={value}
+              onChangeText={setValue}
+              keyboardType="decimal-pad"
+              testID="input-watch-target"
+            />
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {mode === "price" ? "USD" : "%"}
+            </ThemedText>
+          </View>
+
+          <ThemedText
+            type="small"
+            style={[
+              styles.hint,
+              {
+                color:
+                  isValid || !value ? theme.textSecondary : AppColors.error,
+              },
+            ]}
+          >
+            {threshold !== null
+              ? t("watch.alertAt", { price: formatPriceValue(threshold) })
+              : value
+                ? t("watch.invalidValue")
+                : " "}
+          </ThemedText>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.saveButton,
+              (!isValid || isSaving) && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={() => onSave(target)}
+            disabled={!isValid || isSaving}
+            testID="button-save-watch"
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText type="body" style={styles.saveText}>
+                {t("watch.save")}
+              </ThemedText>
+            )}
+          </Pressable>
+
+          {watch ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.removeButton,
+                pressed && styles.pressed,
+              ]}
+              onPress={onRemove}
+              disabled={isSaving}
+              testID="button-remove-watch"
+            >
+              <ThemedText type="body" style={{ color: AppColors.error }}>
+                {t("watch.remove")}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    width: "100%",
+    padding: Spacing.xl,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  modeRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginVertical: Spacing.lg,
+  },
+  modeButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  modeButtonActive: {
+    backgroundColor: AppColors.primary,
+    borderColor: AppColors.primary,
+  },
+  modeTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  saveButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: AppColors.primary,
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  saveText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  removeButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+});
@@ -1,5 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  clearSession,
+  loadSession,
+  onSessionExpired,
+  saveSession,
+  SessionTokens,
+} from "@/lib/auth-session";
+import { claimAccountData, clearAccountData } from "@/lib/account-data";
+import { apiRequest } from "@/lib/query-client";
+import { refreshCredentialsStatus } from "@/lib/credentials-api";
+import { startCloudSync } from "@/lib/sync";
 
 interface User {
   id: string;
@@ -8,11 +19,15 @@ interface User {
   email: string;
 }
 
+export interface AuthResponse extends SessionTokens {
+  user: User;
+}
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (user: User) => Promise<void>;
+  login: (auth: AuthResponse) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -26,13 +41,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     loadUser();
+    return onSessionExpired(() => {
+      AsyncStorage.removeItem(AUTH_STORAGE_KEY).catch(console.error);
+      setUser(null);
+    });
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    refreshCredentialsStatus().catch((error) => {
+      console.error("Failed to load credentials status:", error);
+    });
+    return startCloudSync();
+  }, [user]);
+
   const loadUser = async () => {
     try {
-      const storedUser = await AsyncStorage.getItem(AUTH_STORAGE_KEY);
-      if (storedUser) {
-        setUser(JSON.parse(storedUser));
+      const [storedUser, hasSession] = await Promise.all([
+        AsyncStorage.getItem(AUTH_STORAGE_KEY),
+        loadSession(),
+      ]);
+      // Users saved before sessions existed have to sign in again
+      if (storedUser && hasSession) {
+        const savedUser: User = JSON.parse(storedUser);
+        await claimAccountData(savedUser.id);
+        setUser(savedUser);
       }
     } catch (error) {
       console.error("Failed to load user:", error);
@@ -41,9 +74,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (userData: User) => {
+  const login = async ({ user: userData, ...tokens }: AuthResponse) => {
     try {
+      await saveSession(tokens);
       await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(userData));
+      await claimAccountData(userData.id);
       setUser(userData);
     } catch (error) {
       console.error("Failed to save user:", error);
@@ -53,7 +88,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = async () => {
     try {
+      await apiRequest("POST", "/api/auth/logout").catch((error) => {
+        console.error("Failed to revoke session:", error);
+      });
+      await clearSession();
       await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
+      // Changes not sent yet are discarded with the session, and nothing
+      // of this account is left for the next one to sign in here
+      await clearAccountData();
       setUser(null);
     } catch (error) {
       console.error("Failed to logout:", error);
@@ -0,0 +1,69 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from "react";
+import { StyleSheet, View } from "react-native";
+
+import { getSettings, saveSettings } from "@/lib/storage";
+import { onSyncApplied } from "@/lib/sync";
+import { isRTLLanguage, type Language } from "@/i18n";
+
+interface LanguageContextType {
+  language: Language;
+  isRTL: boolean;
+  setLanguage: (language: Language) => Promise<void>;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(
+  undefined,
+);
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>("en");
+
+  useEffect(() => {
+    const loadLanguage = () =>
+      getSettings()
+        .then((settings) => setLanguageState(settings.language))
+        .catch((error) => console.error("Failed to load language:", error));
+
+    loadLanguage();
+    // Another device may have changed it
+    return onSyncApplied(loadLanguage);
+  }, []);
+
+  const setLanguage = async (next: Language) => {
+    setLanguageState(next);
+    const settings = await getSettings();
+    await saveSettings({ ...settings, language: next });
+  };
+
+  const isRTL = isRTLLanguage(language);
+
+  // Layout direction is applied to the tree rather than through
+  // I18nManager, which would need an app restart to take effect
+  return (
+    <LanguageContext.Provider value={{ language, isRTL, setLanguage }}>
+      <View style={[styles.root, { direction: isRTL ? "rtl" : "ltr" }]}>
+        {children}
+      </View>
+    </LanguageContext.Provider>
+  );
+}
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error("useLanguage must be used within a LanguageProvider");
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,55 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from "react";
+
+import { getSettings, saveSettings, AppSettings } from "@/lib/storage";
+import { onSyncApplied } from "@/lib/sync";
+
+export type ThemePreference = AppSettings["theme"];
+
+interface ThemeContextType {
+  themePreference: ThemePreference;
+  setThemePreference: (preference: ThemePreference) => Promise<void>;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const [themePreference, setPreferenceState] =
+    useState<ThemePreference>("system");
+
+  useEffect(() => {
+    const loadTheme = () =>
+      getSettings()
+        .then((settings) => setPreferenceState(settings.theme))
+        .catch((error) => console.error("Failed to load theme:", error));
+
+    loadTheme();
+    // Another device may have changed it
+    return onSyncApplied(loadTheme);
+  }, []);
+
+  const setThemePreference = async (preference: ThemePreference) => {
+    setPreferenceState(preference);
+    const settings = await getSettings();
+    await saveSettings({ ...settings, theme: preference });
+  };
+
+  return (
+    <ThemeContext.Provider value={{ themePreference, setThemePreference }}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+export function useThemePreference() {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error("useThemePreference must be used within a ThemeProvider");
+  }
+  return context;
+}
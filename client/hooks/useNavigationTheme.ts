@@ -0,0 +1,21 @@
+import { DarkTheme, DefaultTheme, Theme } from "@react-navigation/native";
+
+import { AppColors } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+
+export function useNavigationTheme(): Theme {
+  const { theme, isDark } = useTheme();
+  const baseTheme = isDark ? DarkTheme : DefaultTheme;
+
+  return {
+    ...baseTheme,
+    colors: {
+      ...baseTheme.colors,
+      primary: AppColors.primary,
+      background: theme.backgroundRoot,
+      card: theme.backgroundRoot,
+      text: theme.text,
+      border: theme.border,
+    },
+  };
+}
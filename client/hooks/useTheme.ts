@@ -1,13 +1,21 @@
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useThemePreference } from "@/contexts/ThemeContext";
 
 export function useTheme() {
-  const colorScheme = useColorScheme();
+  const systemColorScheme = useColorScheme();
+  const { themePreference, setThemePreference } = useThemePreference();
+  const colorScheme =
+    themePreference === "system"
+      ? (systemColorScheme ?? "light")
+      : themePreference;
   const isDark = colorScheme === "dark";
-  const theme = Colors[colorScheme ?? "light"];
+  const theme = Colors[colorScheme];
 
   return {
     theme,
     isDark,
+    themePreference,
+    setThemePreference,
   };
 }
@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  translate,
+  translateOfferLabel,
+  type TranslationKey,
+  type TranslationParams,
+} from "@/i18n";
+
+export function useTranslation() {
+  const { language, isRTL, setLanguage } = useLanguage();
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) =>
+      translate(language, key, params),
+    [language],
+  );
+
+  const offerLabel = useCallback(
+    (key: string | undefined, fallback: string) =>
+      translateOfferLabel(language, key, fallback),
+    [language],
+  );
+
+  return {
+    t,
+    offerLabel,
+    language,
+    isRTL,
+    setLanguage,
+  };
+}
@@ -0,0 +1,445 @@
+import type { TranslationKey } from "@/i18n/en";
+
+export const ar: Record<TranslationKey, string> = {
+  "common.copyFailed": "فشل النسخ",
+  "common.configureApiKeys": "يرجى إعداد مفاتيح API في الإعدادات أولاً",
+  "common.enterProductLink": "يرجى إدخال رابط منتج من AliExpress",
+  "common.failedToFetchProduct": "تعذر جلب المنتج",
+  "common.loading": "جارٍ التحميل...",
+  "common.requestFailed": "حدث خطأ ما",
+  "common.default": "الافتراضي",
+
+  "navigation.home": "الرئيسية",
+  "navigation.settings": "الإعدادات",
+  "navigation.messageDesign": "تصميم الرسائل",
+  "navigation.appGuide": "دليل التطبيق",
+  "navigation.watchlist": "قائمة المراقبة",
+  "navigation.collections": "المجموعات",
+  "navigation.linkStats": "إحصائيات الروابط",
+  "navigation.earnings": "الأرباح",
+  "navigation.productDetails": "تفاصيل المنتج",
+
+  "drawer.tagline": "الباحث عن عروض AliExpress",
+  "drawer.logout": "تسجيل الخروج",
+  "drawer.version": "الإصدار {version}",
+  "drawer.shareMessage":
+    "جرّب Offers 365 - اعثر على أفضل عروض AliExpress! حمّله الآن: https://offers365.app",
+
+  "home.searching": "جارٍ البحث عن العروض...",
+  "home.extracting": "جارٍ استخراج معلومات المنتج...",
+  "home.generatingLinks": "جارٍ إنشاء روابط الأفلييت...",
+  "home.noLinksFound": "لم يتم العثور على روابط منتجات AliExpress",
+  "home.batchSummary": "تمت معالجة {succeeded} من {total} منتجات",
+  "home.historyCleared": "تم مسح السجل",
+  "home.linkPasted": "تم لصق الرابط من الحافظة",
+  "home.clipboardEmpty": "الحافظة فارغة",
+  "home.emptyTitle": "لا توجد منتجات حديثة",
+  "home.emptyDescription":
+    "الصق رابط منتج من AliExpress أعلاه للعثور على أفضل العروض",
+  "home.clearHistory": "مسح السجل",
+  "home.saving": "جارٍ الحفظ في القائمة...",
+  "home.savedToList": "تم حفظ المنتج في القائمة!",
+  "home.saveFailed": "تعذر حفظ المنتج",
+  "home.batchPlaceholder": "الصق عدة روابط من AliExpress، رابط في كل سطر...",
+  "home.linkPlaceholder": "الصق رابط منتج AliExpress هنا...",
+  "home.paste": "لصق",
+  "home.batchMode": "وضع الدفعات (عدة روابط)",
+  "home.getOffersForAll": "احصل على عروض كل الروابط",
+  "home.getOffers": "احصل على العروض",
+  "home.saveToList": "حفظ في القائمة",
+  "home.recentProducts": "المنتجات الحديثة",
+  "home.unreadAlerts": "{count} تنبيهات أسعار جديدة",
+  "home.select": "تحديد",
+  "home.cancelSelect": "إلغاء",
+  "home.selectedCount": "تم تحديد {count}",
+  "home.shareDigest": "مشاركة",
+  "home.copyDigest": "نسخ",
+  "home.digestCopied": "تم نسخ ملخص {count} منتجات إلى الحافظة",
+  "history.searchPlaceholder": "ابحث بالعنوان أو المتجر...",
+  "history.count": "{count} منتجات",
+  "history.category": "الفئة",
+  "history.discount": "الخصم",
+  "history.date": "التاريخ",
+  "history.sortBy": "ترتيب حسب",
+  "history.all": "الكل",
+  "history.anyTime": "أي وقت",
+  "history.today": "اليوم",
+  "history.lastWeek": "آخر 7 أيام",
+  "history.lastMonth": "آخر 30 يومًا",
+  "history.sortRecent": "الأحدث",
+  "history.sortPrice": "السعر",
+  "history.sortDiscount": "الخصم",
+  "history.sortCommission": "العمولة",
+  "history.ascending": "تصاعدي",
+  "history.descending": "تنازلي",
+  "history.resetFilters": "إعادة ضبط الفلاتر",
+  "history.noMatches": "لا توجد منتجات مطابقة لبحثك",
+  "history.delete": "حذف",
+  "history.deleted": "تمت إزالة المنتج من السجل",
+  "collections.favorites": "المفضلة",
+  "collections.addToFavorites": "إضافة إلى المفضلة",
+  "collections.removeFromFavorites": "إزالة من المفضلة",
+  "collections.addToCollection": "إضافة إلى مجموعة",
+  "collections.inCollections": "في {count} مجموعات",
+  "collections.saveTo": "الحفظ في المجموعات",
+  "collections.newPlaceholder": "اسم المجموعة الجديدة",
+  "collections.create": "إنشاء مجموعة",
+  "collections.rename": "إعادة تسمية المجموعة",
+  "collections.save": "حفظ",
+  "collections.delete": "حذف المجموعة",
+  "collections.deleted": "تم حذف المجموعة",
+  "collections.limitReached": "يمكنك إنشاء {max} مجموعة كحد أقصى",
+  "collections.full": "مجموعاتك ممتلئة. احذف بعض المنتجات لإضافة منتجات جديدة",
+  "collections.productCount": "{count} منتجات",
+  "collections.empty": "لا توجد منتجات بعد",
+  "collections.emptyHint":
+    "ميّز منتجاً بنجمة أو أضفه إلى مجموعة من شاشة تفاصيله",
+  "collections.remove": "إزالة من المجموعة",
+  "collections.removed": "تمت إزالة المنتج من المجموعة",
+  "collections.shareAll": "مشاركة الكل",
+  "collections.copyAll": "نسخ الكل",
+  "collections.allCopied": "تم نسخ {count} منتجات إلى الحافظة",
+  "templates.title": "قوالبي",
+  "templates.description":
+    "قوالب بأسماء يمكنك اختيارها عند المشاركة من صفحة المنتج",
+  "templates.empty": "لا توجد قوالب بعد. أنشئ قالبًا أو استورده من زميل.",
+  "templates.newPlaceholder": "اسم القالب الجديد",
+  "templates.create": "إنشاء قالب",
+  "templates.rename": "اسم القالب",
+  "templates.duplicate": "نسخ القالب",
+  "templates.copyName": "{name} (نسخة)",
+  "templates.delete": "حذف القالب",
+  "templates.deleted": "تم حذف القالب",
+  "templates.limitReached": "يمكنك إنشاء {max} قالبًا كحد أقصى",
+  "templates.import": "استيراد من الحافظة",
+  "templates.export": "تصدير الكل",
+  "templates.imported": "تم استيراد {count} قوالب",
+  "templates.importInvalid": "الحافظة لا تحتوي على قوالب مصدّرة",
+  "templates.pickTitle": "المشاركة بقالب",
+  "templates.shareWith": "مشاركة بقالب…",
+  "promo.button": "صورة ترويجية",
+  "promo.title": "صورة ترويجية",
+  "promo.square": "منشور",
+  "promo.story": "قصة",
+  "promo.save": "حفظ",
+  "promo.share": "مشاركة",
+  "promo.saved": "تم حفظ الصورة الترويجية في المعرض!",
+  "promo.failed": "تعذر إنشاء الصورة الترويجية",
+  "promo.qrCode": "رمز QR",
+  "qr.show": "عرض رمز QR",
+  "qr.logo": "الشعار",
+  "qr.savePng": "حفظ PNG",
+  "qr.copySvg": "نسخ SVG",
+  "qr.sharePng": "مشاركة PNG",
+  "qr.saved": "تم حفظ رمز QR في المعرض!",
+  "qr.svgCopied": "تم نسخ SVG إلى الحافظة",
+  "qr.failed": "تعذر إنشاء رمز QR",
+
+  "batch.title": "تقدم الدفعة",
+  "batch.failed": " · فشل {count}",
+
+  "product.allCopied": "تم نسخ كل التفاصيل!",
+  "product.detailsCopied": "تم نسخ التفاصيل!",
+  "product.titleCopied": "تم نسخ العنوان!",
+  "product.noImage": "لا توجد صورة متاحة",
+  "product.permissionRequired": "يلزم منح الإذن لحفظ الصور",
+  "product.imageSaved": "تم حفظ الصورة في المعرض!",
+  "product.imageSaveFailed": "تعذر تنزيل الصورة",
+  "product.offerRefreshed": "تم تحديث العرض بنجاح!",
+  "product.refreshFailed": "تعذر تحديث العرض",
+  "product.refreshing": "جارٍ تحديث العرض...",
+  "product.currentPrice": "السعر الحالي",
+  "product.original": "الأصلي",
+  "product.rating": "تقييم {rating}",
+  "product.orders": "{orders} طلب",
+  "product.freeShipping": "شحن مجاني",
+  "product.shipping": "الشحن: {fees}",
+  "product.commission": "العمولة: {rate}",
+  "product.visitStore": "زيارة المتجر",
+  "product.copyAll": "نسخ الكل",
+  "product.share": "مشاركة",
+  "product.availableOffers": "العروض المتاحة",
+  "product.linkCopied": "تم نسخ الرابط!",
+  "product.refreshOffer": "تحديث العرض",
+  "product.copyDetails": "التفاصيل",
+  "product.copyTitle": "العنوان",
+  "product.priceHistory": "سجل الأسعار",
+  "product.historyEmpty": "يظهر سجل الأسعار بعد فحص هذا المنتج مرة أخرى.",
+  "product.historyPoints": "{count} عمليات فحص للسعر منذ {date}",
+  "product.lowestSeen": "الأدنى: {price}",
+  "product.highestSeen": "الأعلى: {price}",
+  "product.atLowest": "أدنى سعر حتى الآن",
+  "watch.watchPrice": "مراقبة السعر",
+  "watch.editWatch": "تعديل مراقبة السعر",
+  "watch.title": "مراقبة السعر",
+  "watch.targetPrice": "السعر المستهدف",
+  "watch.dropPercent": "نسبة الانخفاض %",
+  "watch.targetPricePlaceholder": "مثال: 19.99",
+  "watch.dropPercentPlaceholder": "مثال: 20",
+  "watch.currentPrice": "السعر الحالي: {price}",
+  "watch.alertAt": "سيتم تنبيهك عند {price} أو أقل",
+  "watch.invalidValue": "أدخل رقمًا صحيحًا",
+  "watch.save": "حفظ المراقبة",
+  "watch.remove": "إيقاف المراقبة",
+  "watch.saved": "تتم مراقبة هذا المنتج",
+  "watch.removed": "تم إيقاف المراقبة",
+  "watch.watching": "المراقبة: {price} أو أقل",
+  "watch.empty": "لا توجد منتجات مراقبة",
+  "watch.emptyHint":
+    "افتح منتجًا واضغط على مراقبة السعر لتلقي تنبيه عندما ينخفض سعره.",
+  "watch.watchedProducts": "المنتجات المراقبة",
+  "watch.triggered": "تم بلوغ الهدف",
+  "watch.lastChecked": "آخر فحص {date}",
+  "watch.notChecked": "لم يتم الفحص بعد",
+  "watch.checkNow": "افحص الآن",
+  "watch.alerts": "تنبيهات الأسعار",
+  "watch.noAlerts": "لا توجد تنبيهات بعد",
+  "watch.markAllRead": "تعليم الكل كمقروء",
+  "watch.alertDrop": "{price} (كان {base}، -{percent}%)",
+  "watch.webhook": "رابط Webhook للتنبيهات",
+  "watch.webhookHint":
+    "تُرسل التنبيهات أيضًا كطلب JSON POST إلى هذا الرابط، مثلًا لنشر العروض في قناة.",
+  "watch.webhookPlaceholder": "https://example.com/hook",
+  "watch.webhookSaved": "تم حفظ رابط Webhook",
+
+  "linkStats.range7": "7 أيام",
+  "linkStats.range30": "30 يوماً",
+  "linkStats.rangeAll": "كل الوقت",
+  "linkStats.totalClicks": "إجمالي النقرات",
+  "linkStats.products": "المنتجات",
+  "linkStats.links": "الروابط المختصرة",
+  "linkStats.clicks": "{count} نقرة",
+  "linkStats.lastClick": "آخر نقرة {date}",
+  "linkStats.noClicks": "لا توجد نقرات بعد",
+  "linkStats.empty": "لا توجد روابط مختصرة بعد",
+  "linkStats.emptyHint":
+    "يتم اختصار روابط العروض عند البحث عن منتج، وتظهر النقرات عليها هنا.",
+  "linkStats.linkCopied": "تم نسخ الرابط المختصر!",
+
+  "earnings.range7": "7 أيام",
+  "earnings.range30": "30 يوماً",
+  "earnings.range90": "90 يوماً",
+  "earnings.estimated": "المتوقعة",
+  "earnings.settled": "المسوّاة",
+  "earnings.orders": "الطلبات",
+  "earnings.rowDetails": "{orders} طلب · {settled} مسوّاة",
+  "earnings.byDay": "حسب اليوم",
+  "earnings.byProduct": "حسب المنتج",
+  "earnings.byTrackingId": "حسب معرّف التتبع",
+  "earnings.byOfferType": "حسب العرض",
+  "earnings.unattributed": "بدون نقرة متتبعة",
+  "earnings.sync": "مزامنة الطلبات",
+  "earnings.synced": "تمت مزامنة {count} طلب",
+  "earnings.syncedPartial":
+    "تمت مزامنة {count} طلب. تعذر جلب جميع الطلبات، قم بمزامنة فترة أقصر للحصول على الباقي",
+  "earnings.lastSynced": "آخر مزامنة {date}",
+  "earnings.neverSynced": "لم تتم مزامنة الطلبات بعد",
+  "earnings.exportCsv": "تصدير CSV",
+  "earnings.empty": "لا توجد طلبات في هذه الفترة",
+  "earnings.emptyHint":
+    "قم بالمزامنة لجلب طلبات التسويق بالعمولة من AliExpress. تُنسب العروض من النقرات على روابطك المختصرة.",
+
+  "offer.viewOffer": "اضغط لعرض العرض",
+  "offer.unavailable": "العرض غير متاح",
+  "offer.coin_link": "عرض صفحة العملات",
+  "offer.direct_link": "رابط المنتج المباشر",
+  "offer.super_link": "العروض الخارقة",
+  "offer.big_save_link": "خصم التوفير الكبير",
+  "offer.limited_link": "خصم محدود",
+  "offer.potential_link": "خصم محتمل",
+  "offer.bundle_direct_link": "الحزمة المباشرة",
+  "offer.bundle_page_link": "صفحة عروض الحزم",
+
+  "messageDesign.keywordTitle": "عنوان المنتج",
+  "messageDesign.keywordPrice": "السعر الحالي",
+  "messageDesign.keywordOriginalPrice": "السعر الأصلي",
+  "messageDesign.keywordDiscount": "نسبة الخصم",
+  "messageDesign.keywordStore": "اسم المتجر",
+  "messageDesign.keywordOffers": "كل روابط الأفلييت",
+  "messageDesign.keywordOfferLink": "رابط {label}",
+  "messageDesign.keywordSavings": "المبلغ الموفر (السعر الأصلي ناقص السعر)",
+  "messageDesign.keywordCommission": "العمولة المقدرة بالدولار",
+  "messageDesign.keywordCommissionRate": "نسبة العمولة",
+  "messageDesign.keywordStars": "التقييم كنجوم",
+  "messageDesign.keywordRating": "التقييم من 5",
+  "messageDesign.keywordEvaluateRate": "التقييم كما يرسله AliExpress",
+  "messageDesign.keywordOrders": "عدد الطلبات",
+  "messageDesign.keywordShipping": "رسوم الشحن",
+  "messageDesign.keywordCategory": "الفئة",
+  "messageDesign.keywordShopUrl": "رابط المتجر",
+  "messageDesign.keywordImageUrl": "رابط صورة المنتج",
+  "messageDesign.keywordProductId": "معرّف المنتج في AliExpress",
+  "messageDesign.keywordEntryId": "معرّف السجل",
+  "messageDesign.keywordSearchedAt": "تاريخ البحث عن المنتج",
+  "messageDesign.tabShare": "مشاركة",
+  "messageDesign.tabDetails": "التفاصيل",
+  "messageDesign.tabCopyAll": "نسخ الكل",
+  "messageDesign.tabDigest": "ملخص",
+  "messageDesign.tabLibrary": "المكتبة",
+  "messageDesign.digestHeader": "المقدمة",
+  "messageDesign.digestItem": "قسم المنتج (يتكرر لكل منتج)",
+  "messageDesign.digestFooter": "الخاتمة",
+  "messageDesign.digestDescription":
+    "يُستخدم عند مشاركة عدة منتجات محددة في رسالة واحدة",
+  "messageDesign.keywordCount": "عدد المنتجات",
+  "messageDesign.keywordDate": "تاريخ اليوم",
+  "messageDesign.keywordIndex": "رقم المنتج في الملخص",
+  "messageDesign.syntax": "صيغة القالب",
+  "messageDesign.syntaxDescription":
+    "اضغط على مثال لإضافته. الكتل في سطر مستقل لا تترك سطرًا فارغًا",
+  "messageDesign.syntaxIf": "يعرض النص فقط عند توفر القيمة",
+  "messageDesign.syntaxElse": "يعرض النص الثاني عندما تكون القيمة فارغة",
+  "messageDesign.syntaxEach": "يكرر النص لكل عرض",
+  "messageDesign.syntaxUppercase": "يحوّل القيمة إلى أحرف كبيرة",
+  "messageDesign.syntaxTruncate": "يختصر القيمة إلى 40 حرفًا",
+  "messageDesign.syntaxCurrency": "يحوّل السعر بمعدل 250 دينار لكل دولار",
+  "messageDesign.syntaxDefault": "يستخدم النص البديل عندما تكون القيمة فارغة",
+  "messageDesign.issueUnknownKey": "كلمة مفتاحية غير معروفة {tag}",
+  "messageDesign.issueUnknownFilter": "مرشح غير معروف في {tag}",
+  "messageDesign.issueInvalidArgument": "قيمة مرشح غير صالحة في {tag}",
+  "messageDesign.issueUnclosedBlock": "{tag} غير مغلق",
+  "messageDesign.issueUnexpectedTag": "{tag} بدون وسم افتتاحي مطابق",
+  "messageDesign.fixIssues": "أصلح مشاكل القالب قبل الحفظ",
+  "messageDesign.saved": "تم حفظ القالب بنجاح!",
+  "messageDesign.saveFailed": "تعذر حفظ القالب",
+  "messageDesign.reset": "تمت إعادة القالب إلى الافتراضي",
+  "messageDesign.keywordCopied": "تم نسخ {keyword} وإضافته إلى المحرر",
+  "messageDesign.sampleTitle": "عنوان منتج تجريبي - منتج عالي الجودة",
+  "messageDesign.sampleStore": "المتجر الرسمي",
+  "messageDesign.sampleCategory": "إلكترونيات استهلاكية",
+  "messageDesign.selectTemplate": "اختر القالب",
+  "messageDesign.selectTemplateDescription":
+    "اختر رسالة الزر التي تريد تخصيصها",
+  "messageDesign.editor": "محرر القالب",
+  "messageDesign.editorDescription": "خصّص طريقة تنسيق رسائل منتجاتك",
+  "messageDesign.placeholder": "أدخل قالب رسالتك...",
+  "messageDesign.keywords": "الكلمات المفتاحية المتاحة",
+  "messageDesign.keywordsDescription":
+    "اضغط على كلمة مفتاحية لإضافتها إلى القالب",
+  "messageDesign.preview": "معاينة",
+  "messageDesign.resetButton": "إعادة تعيين",
+  "messageDesign.save": "حفظ القالب",
+
+  "settings.saved": "تم حفظ الإعدادات بنجاح!",
+  "settings.saveFailed": "تعذر حفظ الإعدادات",
+  "settings.testFailed": "تعذر اختبار الاتصال",
+  "settings.outcome.valid": "تم الاتصال بنجاح، بيانات الاعتماد صالحة",
+  "settings.outcome.invalid_app_key": "لم يتعرف AliExpress على App Key",
+  "settings.outcome.invalid_signature": "App Secret لا يطابق App Key",
+  "settings.outcome.invalid_tracking_id":
+    "لم يتم العثور على Tracking ID لهذا الحساب",
+  "settings.outcome.rate_limited":
+    "طلبات كثيرة إلى AliExpress، حاول مجدداً بعد قليل",
+  "settings.outcome.unreachable": "تعذر الوصول إلى AliExpress API",
+  "settings.invalidOffer": "عرض غير صالح",
+  "settings.duplicateSourceType": "قيمة sourceType هذه موجودة بالفعل في عروضك",
+  "settings.customOfferLimit": "يمكنك إضافة {max} عروض مخصصة كحد أقصى",
+  "settings.customOfferAdded": "تمت إضافة العرض المخصص",
+  "settings.keepOneOffer": "أبقِ نوع عرض واحداً على الأقل مفعّلاً",
+  "settings.profileRequired": "أدخل اسم الملف الشخصي ومعرّف التتبع",
+  "settings.duplicateProfile": "يوجد ملف شخصي بهذا الاسم بالفعل",
+  "settings.profileAdded": "تمت إضافة الملف الشخصي",
+  "settings.appearance": "المظهر",
+  "settings.themeLight": "فاتح",
+  "settings.themeDark": "داكن",
+  "settings.themeSystem": "النظام",
+  "settings.language": "اللغة",
+  "settings.apiConfiguration": "إعدادات API",
+  "settings.apiDescription":
+    "أدخل بيانات اعتماد AliExpress Affiliate API. تُخزَّن مشفرة على الخادم وترافق حسابك على كل أجهزتك.",
+  "settings.appKey": "APP KEY",
+  "settings.appKeyPlaceholder": "أدخل APP KEY",
+  "settings.appSecret": "APP SECRET",
+  "settings.appSecretPlaceholder": "أدخل APP SECRET",
+  "settings.appSecretSaved": "المحفوظ {hint} (اتركه فارغاً للإبقاء عليه)",
+  "settings.trackingId": "TRACKING ID",
+  "settings.trackingIdPlaceholder": "أدخل معرّف التتبع",
+  "settings.testConnection": "اختبار الاتصال",
+  "settings.save": "حفظ الإعدادات",
+  "settings.profiles": "ملفات التتبع",
+  "settings.profilesDescription":
+    "أضف معرّف تتبع لكل قناة تروّج عليها، ثم بدّل بينها من الرئيسية أو من تفاصيل المنتج. تستخدم الملفات App Key و App Secret أعلاه.",
+  "settings.profileName": "اسم الملف",
+  "settings.profileTrackingId": "معرّف التتبع",
+  "settings.offerTypes": "أنواع العروض",
+  "settings.offerTypesDescription":
+    "اختر العروض التي يتم إنشاؤها وترتيب ظهورها في تفاصيل المنتج والرسائل المشتركة.",
+  "settings.customOffers": "عروض مخصصة",
+  "settings.customOffersDescription":
+    "أضف حملات sourceType خاصة بك من AliExpress. يتم إنشاؤها مع العروض المدمجة وتتوفر ككلمات مفتاحية في القوالب.",
+  "settings.offerName": "اسم العرض",
+  "settings.about": "حول التطبيق",
+  "settings.version": "الإصدار",
+  "settings.developer": "المطوّر",
+
+  "guide.heroTitle": "مرحباً بك في Offers 365",
+  "guide.heroSubtitle": "أداتك المثالية للعثور على أفضل عروض AliExpress",
+  "guide.howToUse": "طريقة الاستخدام",
+  "guide.linkInputTitle": "إدخال الرابط",
+  "guide.linkInputDescription":
+    "الصق أي رابط منتج من AliExpress في حقل الإدخال بالشاشة الرئيسية. يدعم التطبيق كل صيغ الروابط بما فيها الروابط المختصرة وروابط تطبيق AliExpress.",
+  "guide.getOffersTitle": "الحصول على العروض",
+  "guide.getOffersDescription":
+    "اضغط زر 'احصل على العروض' لجلب تفاصيل المنتج وإنشاء عدة روابط أفلييت. سيعرض التطبيق كل العروض الترويجية المتاحة للمنتج.",
+  "guide.offersTitle": "فهم العروض",
+  "guide.offersDescription":
+    "يمثل كل زر عرض نوعاً مختلفاً من الروابط الترويجية: صفحة العملات، الرابط المباشر، العروض الخارقة، التوفير الكبير، الخصم المحدود، عروض الحزم وغيرها. اضغط لفتح العرض في AliExpress.",
+  "guide.copyShareTitle": "النسخ والمشاركة",
+  "guide.copyShareDescription":
+    "استخدم أزرار النسخ لنسخ الروابط منفردة أو تفاصيل المنتج أو الرسالة المنسقة كاملة. تفتح أزرار المشاركة قائمة المشاركة في جهازك لنشرها بسهولة على مواقع التواصل.",
+  "guide.apiTitle": "إعدادات API",
+  "guide.apiDescription":
+    "انتقل إلى الإعدادات لإدخال بيانات اعتماد AliExpress Affiliate API (APP KEY و APP SECRET و TRACKING ID). هذه البيانات مطلوبة لإنشاء روابط الأفلييت.",
+  "guide.messageTitle": "تخصيص الرسائل",
+  "guide.messageDescription":
+    "افتح تصميم الرسائل لتخصيص طريقة تنسيق معلومات المنتج عند نسخها أو مشاركتها. استخدم كلمات مثل {title} و {price} و {discount} لإنشاء قالبك.",
+  "guide.tipsTitle": "نصائح احترافية",
+  "guide.tipRecent":
+    "تُحفظ المنتجات الحديثة للوصول السريع - اضغط عليها لعرض العروض دون جلبها من جديد",
+  "guide.tipDetect":
+    "يكتشف التطبيق روابط AliExpress داخل أي نص، لذا يمكنك لصق رسائل كاملة",
+  "guide.tipOfferTypes":
+    "جرّب أنواع عروض مختلفة - قد يقدم بعضها خصومات أفضل من غيره",
+  "guide.tipTemplate": "خصّص قالب رسالتك لمشاركة متناسقة على كل المنصات",
+
+  "auth.welcomeLogin": "تسجيل الدخول",
+  "auth.welcomeRegister": "إنشاء حساب",
+  "auth.loginTitle": "مرحباً بك",
+  "auth.loginSubtitle": "قم بتسجيل الدخول للمتابعة",
+  "auth.email": "البريد الإلكتروني",
+  "auth.password": "كلمة المرور",
+  "auth.login": "تسجيل الدخول",
+  "auth.noAccount": "ليس لديك حساب؟",
+  "auth.createAccount": "إنشاء حساب",
+  "auth.emailRequired": "يرجى إدخال البريد الإلكتروني",
+  "auth.passwordRequired": "يرجى إدخال كلمة المرور",
+  "auth.loginFailed": "حدث خطأ أثناء تسجيل الدخول",
+  "auth.userNotFound": "لم يتم العثور على حساب بهذا البريد الإلكتروني",
+  "auth.wrongPassword": "كلمة المرور غير صحيحة",
+  "auth.loginRetry": "حدث خطأ أثناء تسجيل الدخول. يرجى المحاولة لاحقاً",
+  "auth.registerTitle": "إنشاء حساب",
+  "auth.registerSubtitle": "أنشئ حسابك الجديد للبدء",
+  "auth.firstName": "الاسم",
+  "auth.lastName": "اللقب",
+  "auth.birthDate": "تاريخ الميلاد",
+  "auth.passwordPlaceholder": "8 أحرف وأرقام على الأقل",
+  "auth.confirmPassword": "تأكيد كلمة المرور",
+  "auth.confirmPasswordPlaceholder": "أعد كتابة كلمة المرور",
+  "auth.haveAccount": "لديك حساب بالفعل؟",
+  "auth.firstNameRequired": "يرجى إدخال الاسم",
+  "auth.lastNameRequired": "يرجى إدخال اللقب",
+  "auth.invalidEmail": "يرجى إدخال بريد إلكتروني صحيح",
+  "auth.birthDateRequired": "يرجى إدخال تاريخ الميلاد",
+  "auth.invalidBirthDate": "صيغة التاريخ غير صحيحة (YYYY-MM-DD)",
+  "auth.passwordTooShort": "كلمة المرور يجب أن تكون 8 أحرف أو أكثر",
+  "auth.passwordWeak": "كلمة المرور يجب أن تحتوي على أحرف وأرقام",
+  "auth.passwordMismatch": "كلمتا المرور غير متطابقتين",
+  "auth.emailTaken": "البريد الإلكتروني مستخدم مسبقاً",
+  "auth.registerFailed": "حدث خطأ أثناء إنشاء الحساب. يرجى المحاولة لاحقاً",
+
+  "error.title": "عذراً! حدث خطأ ما",
+  "error.message":
+    "واجه Offers 365 مشكلة غير متوقعة. يرجى إعادة التحميل للمتابعة.",
+  "error.retry": "حاول مجدداً",
+  "error.details": "تفاصيل الخطأ",
+};
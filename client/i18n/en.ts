@@ -0,0 +1,458 @@
+// English strings. Keys are grouped by screen; {name} placeholders are
+// filled in by translate().
+export const en = {
+  "common.copyFailed": "Failed to copy",
+  "common.configureApiKeys": "Please configure API keys in Settings first",
+  "common.enterProductLink": "Please enter an AliExpress product link",
+  "common.failedToFetchProduct": "Failed to fetch product",
+  "common.loading": "Loading...",
+  "common.requestFailed": "Something went wrong",
+  "common.default": "Default",
+
+  "navigation.home": "Home",
+  "navigation.settings": "Settings",
+  "navigation.messageDesign": "Message Design",
+  "navigation.appGuide": "App Guide",
+  "navigation.watchlist": "Watchlist",
+  "navigation.collections": "Collections",
+  "navigation.linkStats": "Link Stats",
+  "navigation.earnings": "Earnings",
+  "navigation.productDetails": "Product Details",
+
+  "drawer.tagline": "AliExpress Deals Finder",
+  "drawer.logout": "Log out",
+  "drawer.version": "Version {version}",
+  "drawer.shareMessage":
+    "Check out Offers 365 - Find the best AliExpress deals! Download now: https://offers365.app",
+
+  "home.searching": "Searching for offers...",
+  "home.extracting": "Extracting product information...",
+  "home.generatingLinks": "Generating affiliate links...",
+  "home.noLinksFound": "No AliExpress product links found",
+  "home.batchSummary": "{succeeded} of {total} products processed",
+  "home.historyCleared": "History cleared",
+  "home.linkPasted": "Link pasted from clipboard",
+  "home.clipboardEmpty": "Clipboard is empty",
+  "home.emptyTitle": "No Recent Products",
+  "home.emptyDescription":
+    "Paste an AliExpress product link above to find the best offers",
+  "home.clearHistory": "Clear History",
+  "home.saving": "Saving to list...",
+  "home.savedToList": "Product saved to list!",
+  "home.saveFailed": "Failed to save product",
+  "home.batchPlaceholder": "Paste several AliExpress links, one per line...",
+  "home.linkPlaceholder": "Paste AliExpress product link here...",
+  "home.paste": "Paste",
+  "home.batchMode": "Batch mode (multiple links)",
+  "home.getOffersForAll": "Get Offers for All Links",
+  "home.getOffers": "Get Offers",
+  "home.saveToList": "Save to List",
+  "home.recentProducts": "Recent Products",
+  "home.unreadAlerts": "{count} new price alerts",
+  "home.select": "Select",
+  "home.cancelSelect": "Cancel",
+  "home.selectedCount": "{count} selected",
+  "home.shareDigest": "Share",
+  "home.copyDigest": "Copy",
+  "home.digestCopied": "Digest of {count} products copied to clipboard",
+  "history.searchPlaceholder": "Search by title or store...",
+  "history.count": "{count} products",
+  "history.category": "Category",
+  "history.discount": "Discount",
+  "history.date": "Date",
+  "history.sortBy": "Sort by",
+  "history.all": "All",
+  "history.anyTime": "Any time",
+  "history.today": "Today",
+  "history.lastWeek": "Last 7 days",
+  "history.lastMonth": "Last 30 days",
+  "history.sortRecent": "Recent",
+  "history.sortPrice": "Price",
+  "history.sortDiscount": "Discount",
+  "history.sortCommission": "Commission",
+  "history.ascending": "Ascending",
+  "history.descending": "Descending",
+  "history.resetFilters": "Reset filters",
+  "history.noMatches": "No products match your search",
+  "history.delete": "Delete",
+  "history.deleted": "Product removed from history",
+  "collections.favorites": "Favorites",
+  "collections.addToFavorites": "Add to favorites",
+  "collections.removeFromFavorites": "Remove from favorites",
+  "collections.addToCollection": "Add to Collection",
+  "collections.inCollections": "In {count} collections",
+  "collections.saveTo": "Save to Collections",
+  "collections.newPlaceholder": "New collection name",
+  "collections.create": "Create Collection",
+  "collections.rename": "Rename Collection",
+  "collections.save": "Save",
+  "collections.delete": "Delete collection",
+  "collections.deleted": "Collection deleted",
+  "collections.limitReached": "You can have up to {max} collections",
+  "collections.full":
+    "Your collections are full. Remove some products to add new ones",
+  "collections.productCount": "{count} products",
+  "collections.empty": "No products yet",
+  "collections.emptyHint":
+    "Star a product or add it to a collection from its details screen",
+  "collections.remove": "Remove from collection",
+  "collections.removed": "Product removed from the collection",
+  "collections.shareAll": "Share All",
+  "collections.copyAll": "Copy All",
+  "collections.allCopied": "{count} products copied to clipboard",
+  "templates.title": "My Templates",
+  "templates.description":
+    "Named templates you can pick when sharing from a product page",
+  "templates.empty": "No templates yet. Create one or import from a teammate.",
+  "templates.newPlaceholder": "New template name",
+  "templates.create": "Create Template",
+  "templates.rename": "Template name",
+  "templates.duplicate": "Duplicate template",
+  "templates.copyName": "{name} (copy)",
+  "templates.delete": "Delete template",
+  "templates.deleted": "Template deleted",
+  "templates.limitReached": "You can have up to {max} templates",
+  "templates.import": "Import from Clipboard",
+  "templates.export": "Export All",
+  "templates.imported": "{count} templates imported",
+  "templates.importInvalid":
+    "The clipboard does not contain exported templates",
+  "templates.pickTitle": "Share With Template",
+  "templates.shareWith": "Share With…",
+  "promo.button": "Promo Image",
+  "promo.title": "Promo Image",
+  "promo.square": "Post",
+  "promo.story": "Story",
+  "promo.save": "Save",
+  "promo.share": "Share",
+  "promo.saved": "Promo image saved to gallery!",
+  "promo.failed": "Could not create the promo image",
+  "promo.qrCode": "QR Code",
+  "qr.show": "Show QR code",
+  "qr.logo": "Logo",
+  "qr.savePng": "Save PNG",
+  "qr.copySvg": "Copy SVG",
+  "qr.sharePng": "Share PNG",
+  "qr.saved": "QR code saved to gallery!",
+  "qr.svgCopied": "SVG copied to clipboard",
+  "qr.failed": "Could not create the QR code",
+
+  "batch.title": "Batch Progress",
+  "batch.failed": " · {count} failed",
+
+  "product.allCopied": "All details copied!",
+  "product.detailsCopied": "Details copied!",
+  "product.titleCopied": "Title copied!",
+  "product.noImage": "No image available",
+  "product.permissionRequired": "Permission required to save images",
+  "product.imageSaved": "Image saved to gallery!",
+  "product.imageSaveFailed": "Failed to download image",
+  "product.offerRefreshed": "Offer refreshed successfully!",
+  "product.refreshFailed": "Failed to refresh offer",
+  "product.refreshing": "Refreshing offer...",
+  "product.currentPrice": "Current Price",
+  "product.original": "Original",
+  "product.rating": "{rating} Rating",
+  "product.orders": "{orders} orders",
+  "product.freeShipping": "Free Shipping",
+  "product.shipping": "Shipping: {fees}",
+  "product.commission": "Comm: {rate}",
+  "product.visitStore": "Visit Store",
+  "product.copyAll": "Copy All",
+  "product.share": "Share",
+  "product.availableOffers": "Available Offers",
+  "product.linkCopied": "Link copied!",
+  "product.refreshOffer": "Refresh Offer",
+  "product.copyDetails": "Details",
+  "product.copyTitle": "Title",
+  "product.priceHistory": "Price History",
+  "product.historyEmpty":
+    "Price history appears after this product is checked again.",
+  "product.historyPoints": "{count} price checks since {date}",
+  "product.lowestSeen": "Lowest: {price}",
+  "product.highestSeen": "Highest: {price}",
+  "product.atLowest": "Lowest price seen so far",
+  "watch.watchPrice": "Watch Price",
+  "watch.editWatch": "Edit Price Watch",
+  "watch.title": "Price Watch",
+  "watch.targetPrice": "Target price",
+  "watch.dropPercent": "Price drop %",
+  "watch.targetPricePlaceholder": "e.g. 19.99",
+  "watch.dropPercentPlaceholder": "e.g. 20",
+  "watch.currentPrice": "Current price: {price}",
+  "watch.alertAt": "You will be alerted at {price} or less",
+  "watch.invalidValue": "Enter a valid number",
+  "watch.save": "Save Watch",
+  "watch.remove": "Stop Watching",
+  "watch.saved": "Watching this product",
+  "watch.removed": "Stopped watching",
+  "watch.watching": "Watching: {price} or less",
+  "watch.empty": "No watched products",
+  "watch.emptyHint":
+    "Open a product and tap Watch Price to get an alert when it gets cheaper.",
+  "watch.watchedProducts": "Watched Products",
+  "watch.triggered": "Target reached",
+  "watch.lastChecked": "Checked {date}",
+  "watch.notChecked": "Not checked yet",
+  "watch.checkNow": "Check now",
+  "watch.alerts": "Price Alerts",
+  "watch.noAlerts": "No alerts yet",
+  "watch.markAllRead": "Mark all as read",
+  "watch.alertDrop": "{price} (was {base}, -{percent}%)",
+  "watch.webhook": "Alert Webhook",
+  "watch.webhookHint":
+    "Alerts are also sent as a JSON POST to this URL, for example to post deals to a channel.",
+  "watch.webhookPlaceholder": "https://example.com/hook",
+  "watch.webhookSaved": "Webhook saved",
+
+  "linkStats.range7": "7 days",
+  "linkStats.range30": "30 days",
+  "linkStats.rangeAll": "All time",
+  "linkStats.totalClicks": "Total clicks",
+  "linkStats.products": "Products",
+  "linkStats.links": "Short links",
+  "linkStats.clicks": "{count} clicks",
+  "linkStats.lastClick": "Last click {date}",
+  "linkStats.noClicks": "No clicks yet",
+  "linkStats.empty": "No short links yet",
+  "linkStats.emptyHint":
+    "Offer links are shortened when you look up a product. Clicks on them show up here.",
+  "linkStats.linkCopied": "Short link copied!",
+
+  "earnings.range7": "7 days",
+  "earnings.range30": "30 days",
+  "earnings.range90": "90 days",
+  "earnings.estimated": "Estimated",
+  "earnings.settled": "Settled",
+  "earnings.orders": "Orders",
+  "earnings.rowDetails": "{orders} orders · {settled} settled",
+  "earnings.byDay": "By day",
+  "earnings.byProduct": "By product",
+  "earnings.byTrackingId": "By tracking ID",
+  "earnings.byOfferType": "By offer",
+  "earnings.unattributed": "No tracked click",
+  "earnings.sync": "Sync orders",
+  "earnings.synced": "{count} orders synced",
+  "earnings.syncedPartial":
+    "{count} orders synced. Not all orders could be fetched, sync a shorter range to get the rest",
+  "earnings.lastSynced": "Last synced {date}",
+  "earnings.neverSynced": "Orders have not been synced yet",
+  "earnings.exportCsv": "Export CSV",
+  "earnings.empty": "No orders in this range",
+  "earnings.emptyHint":
+    "Sync to pull your affiliate orders from AliExpress. Offers are credited from clicks on your short links.",
+
+  "offer.viewOffer": "Click to view offer",
+  "offer.unavailable": "Offer unavailable",
+  "offer.coin_link": "Coin Page Offer",
+  "offer.direct_link": "Direct Product Link",
+  "offer.super_link": "Super Deals",
+  "offer.big_save_link": "Big Save Discount",
+  "offer.limited_link": "Limited Discount",
+  "offer.potential_link": "Potential Discount",
+  "offer.bundle_direct_link": "Bundle Direct",
+  "offer.bundle_page_link": "Bundle Deals Page",
+
+  "messageDesign.keywordTitle": "Product title",
+  "messageDesign.keywordPrice": "Current price",
+  "messageDesign.keywordOriginalPrice": "Original price",
+  "messageDesign.keywordDiscount": "Discount percentage",
+  "messageDesign.keywordStore": "Store name",
+  "messageDesign.keywordOffers": "All affiliate links",
+  "messageDesign.keywordOfferLink": "{label} link",
+  "messageDesign.keywordSavings": "Amount saved (original minus price)",
+  "messageDesign.keywordCommission": "Estimated commission in USD",
+  "messageDesign.keywordCommissionRate": "Commission rate",
+  "messageDesign.keywordStars": "Rating as star emoji",
+  "messageDesign.keywordRating": "Rating out of 5",
+  "messageDesign.keywordEvaluateRate": "Rating as returned by AliExpress",
+  "messageDesign.keywordOrders": "Number of orders",
+  "messageDesign.keywordShipping": "Shipping fees",
+  "messageDesign.keywordCategory": "Category",
+  "messageDesign.keywordShopUrl": "Store link",
+  "messageDesign.keywordImageUrl": "Product image link",
+  "messageDesign.keywordProductId": "AliExpress product ID",
+  "messageDesign.keywordEntryId": "History entry ID",
+  "messageDesign.keywordSearchedAt": "Date the product was looked up",
+  "messageDesign.tabShare": "Share",
+  "messageDesign.tabDetails": "Details",
+  "messageDesign.tabCopyAll": "Copy All",
+  "messageDesign.tabDigest": "Digest",
+  "messageDesign.tabLibrary": "Library",
+  "messageDesign.digestHeader": "Header",
+  "messageDesign.digestItem": "Product block (repeated for each product)",
+  "messageDesign.digestFooter": "Footer",
+  "messageDesign.digestDescription":
+    "Used when sharing several selected products as one message",
+  "messageDesign.keywordCount": "Number of products",
+  "messageDesign.keywordDate": "Today's date",
+  "messageDesign.keywordIndex": "Product number in the digest",
+  "messageDesign.syntax": "Template Syntax",
+  "messageDesign.syntaxDescription":
+    "Tap an example to add it. Blocks on their own line leave no empty line",
+  "messageDesign.syntaxIf": "Shows the text only when the value is set",
+  "messageDesign.syntaxElse": "Shows the second text when the value is empty",
+  "messageDesign.syntaxEach": "Repeats the text for every offer",
+  "messageDesign.syntaxUppercase": "Converts the value to capital letters",
+  "messageDesign.syntaxTruncate": "Shortens the value to 40 characters",
+  "messageDesign.syntaxCurrency": "Converts the price at 250 DZD per USD",
+  "messageDesign.syntaxDefault":
+    "Uses the fallback text when the value is empty",
+  "messageDesign.issueUnknownKey": "Unknown keyword {tag}",
+  "messageDesign.issueUnknownFilter": "Unknown filter in {tag}",
+  "messageDesign.issueInvalidArgument": "Invalid filter value in {tag}",
+  "messageDesign.issueUnclosedBlock": "{tag} is never closed",
+  "messageDesign.issueUnexpectedTag": "{tag} has no matching opening tag",
+  "messageDesign.fixIssues": "Fix the template problems before saving",
+  "messageDesign.saved": "Template saved successfully!",
+  "messageDesign.saveFailed": "Failed to save template",
+  "messageDesign.reset": "Template reset to default",
+  "messageDesign.keywordCopied": "{keyword} copied & added to editor",
+  "messageDesign.sampleTitle": "Sample Product Title - High Quality Item",
+  "messageDesign.sampleStore": "Best Store Official",
+  "messageDesign.sampleCategory": "Consumer Electronics",
+  "messageDesign.selectTemplate": "Select Template",
+  "messageDesign.selectTemplateDescription":
+    "Choose which button message to customize",
+  "messageDesign.editor": "Template Editor",
+  "messageDesign.editorDescription":
+    "Customize how your product messages are formatted",
+  "messageDesign.placeholder": "Enter your message template...",
+  "messageDesign.keywords": "Available Keywords",
+  "messageDesign.keywordsDescription":
+    "Tap a keyword to add it to your template",
+  "messageDesign.preview": "Preview",
+  "messageDesign.resetButton": "Reset",
+  "messageDesign.save": "Save Template",
+
+  "settings.saved": "Settings saved successfully!",
+  "settings.saveFailed": "Failed to save settings",
+  "settings.testFailed": "Failed to test the connection",
+  "settings.outcome.valid": "Connection successful, credentials are valid",
+  "settings.outcome.invalid_app_key":
+    "The App Key is not recognised by AliExpress",
+  "settings.outcome.invalid_signature":
+    "The App Secret does not match the App Key",
+  "settings.outcome.invalid_tracking_id":
+    "The Tracking ID was not found for this account",
+  "settings.outcome.rate_limited":
+    "Too many requests to AliExpress, try again in a moment",
+  "settings.outcome.unreachable": "Could not reach the AliExpress API",
+  "settings.invalidOffer": "Invalid offer",
+  "settings.duplicateSourceType": "This sourceType is already in your offers",
+  "settings.customOfferLimit": "You can add up to {max} custom offers",
+  "settings.customOfferAdded": "Custom offer added",
+  "settings.keepOneOffer": "Keep at least one offer type enabled",
+  "settings.profileRequired": "Enter a profile name and tracking ID",
+  "settings.duplicateProfile": "A profile with this name already exists",
+  "settings.profileAdded": "Profile added",
+  "settings.appearance": "Appearance",
+  "settings.themeLight": "Light",
+  "settings.themeDark": "Dark",
+  "settings.themeSystem": "System",
+  "settings.language": "Language",
+  "settings.apiConfiguration": "API Configuration",
+  "settings.apiDescription":
+    "Enter your AliExpress Affiliate API credentials. They are stored encrypted on the server and follow your account across devices.",
+  "settings.appKey": "APP KEY",
+  "settings.appKeyPlaceholder": "Enter your APP KEY",
+  "settings.appSecret": "APP SECRET",
+  "settings.appSecretPlaceholder": "Enter your APP SECRET",
+  "settings.appSecretSaved": "Saved {hint} (leave empty to keep)",
+  "settings.trackingId": "TRACKING ID",
+  "settings.trackingIdPlaceholder": "Enter your Tracking ID",
+  "settings.testConnection": "Test connection",
+  "settings.save": "Save Settings",
+  "settings.profiles": "Tracking Profiles",
+  "settings.profilesDescription":
+    "Add a tracking ID for each channel you promote on, then switch between them from Home or a product's details. Profiles use the App Key and App Secret above.",
+  "settings.profileName": "Profile name",
+  "settings.profileTrackingId": "Tracking ID",
+  "settings.offerTypes": "Offer Types",
+  "settings.offerTypesDescription":
+    "Choose which offers are generated and the order they appear in product details and shared messages.",
+  "settings.customOffers": "Custom Offers",
+  "settings.customOffersDescription":
+    "Add your own AliExpress sourceType campaigns. They are generated alongside the built-in offers and available as template keywords.",
+  "settings.offerName": "Offer name",
+  "settings.about": "About",
+  "settings.version": "Version",
+  "settings.developer": "Developer",
+
+  "guide.heroTitle": "Welcome to Offers 365",
+  "guide.heroSubtitle":
+    "Your ultimate tool for finding the best AliExpress deals",
+  "guide.howToUse": "How to Use",
+  "guide.linkInputTitle": "Link Input",
+  "guide.linkInputDescription":
+    "Paste any AliExpress product link in the input field on the home screen. The app supports all link formats including shortened URLs and links from the AliExpress app.",
+  "guide.getOffersTitle": "Get Offers",
+  "guide.getOffersDescription":
+    "Press the 'Get Offers' button to fetch product details and generate multiple affiliate offer links. The app will display all available promotional offers for the product.",
+  "guide.offersTitle": "Understanding Offers",
+  "guide.offersDescription":
+    "Each offer button represents a different promotional link type: Coin Page, Direct Link, Super Deals, Big Save, Limited Discount, Bundle Deals, and more. Tap to open the offer in AliExpress.",
+  "guide.copyShareTitle": "Copy & Share",
+  "guide.copyShareDescription":
+    "Use the copy buttons to copy individual links, product details, or the complete formatted message. Share buttons open your device's share sheet for easy sharing to social media.",
+  "guide.apiTitle": "API Configuration",
+  "guide.apiDescription":
+    "Go to Settings to enter your AliExpress Affiliate API credentials (APP KEY, APP SECRET, and TRACKING ID). These are required to generate affiliate links.",
+  "guide.messageTitle": "Message Customization",
+  "guide.messageDescription":
+    "Visit Message Design to customize how product information is formatted when copied or shared. Use keywords like {title}, {price}, {discount} to create your template.",
+  "guide.tipsTitle": "Pro Tips",
+  "guide.tipRecent":
+    "Recent products are saved for quick access - tap them to view offers without fetching again",
+  "guide.tipDetect":
+    "The app detects AliExpress links within any text, so you can paste entire messages",
+  "guide.tipOfferTypes":
+    "Try different offer types - some may have better discounts than others",
+  "guide.tipTemplate":
+    "Customize your message template for consistent sharing across platforms",
+
+  "auth.welcomeLogin": "Log in",
+  "auth.welcomeRegister": "Create account",
+  "auth.loginTitle": "Welcome back",
+  "auth.loginSubtitle": "Log in to continue",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.login": "Log in",
+  "auth.noAccount": "Don't have an account?",
+  "auth.createAccount": "Create account",
+  "auth.emailRequired": "Please enter your email",
+  "auth.passwordRequired": "Please enter your password",
+  "auth.loginFailed": "Something went wrong while logging in",
+  "auth.userNotFound": "No account was found with this email",
+  "auth.wrongPassword": "Incorrect password",
+  "auth.loginRetry":
+    "Something went wrong while logging in. Please try again later",
+  "auth.registerTitle": "Create account",
+  "auth.registerSubtitle": "Create your new account to get started",
+  "auth.firstName": "First name",
+  "auth.lastName": "Last name",
+  "auth.birthDate": "Date of birth",
+  "auth.passwordPlaceholder": "At least 8 characters with letters and numbers",
+  "auth.confirmPassword": "Confirm password",
+  "auth.confirmPasswordPlaceholder": "Re-enter your password",
+  "auth.haveAccount": "Already have an account?",
+  "auth.firstNameRequired": "Please enter your first name",
+  "auth.lastNameRequired": "Please enter your last name",
+  "auth.invalidEmail": "Please enter a valid email",
+  "auth.birthDateRequired": "Please enter your date of birth",
+  "auth.invalidBirthDate": "Invalid date format (YYYY-MM-DD)",
+  "auth.passwordTooShort": "Password must be at least 8 characters",
+  "auth.passwordWeak": "Password must contain letters and numbers",
+  "auth.passwordMismatch": "Passwords do not match",
+  "auth.emailTaken": "This email is already in use",
+  "auth.registerFailed":
+    "Something went wrong while creating your account. Please try again later",
+
+  "error.title": "Oops! Something went wrong",
+  "error.message":
+    "Offers 365 encountered an unexpected issue. Please reload to continue.",
+  "error.retry": "Try Again",
+  "error.details": "Error Details",
+};
+
+export type TranslationKey = keyof typeof en;
@@ -0,0 +1,47 @@
+import type { AppSettings } from "@/lib/storage";
+import { en, type TranslationKey } from "@/i18n/en";
+import { ar } from "@/i18n/ar";
+
+export type { TranslationKey };
+export type Language = AppSettings["language"];
+export type TranslationParams = Record<string, string | number>;
+
+const catalogs: Record<Language, Record<TranslationKey, string>> = { en, ar };
+
+const RTL_LANGUAGES: Language[] = ["ar"];
+
+export function isRTLLanguage(language: Language): boolean {
+  return RTL_LANGUAGES.includes(language);
+}
+
+/**
+ * Looks up a string for the language, falling back to English, and fills
+ * {name} placeholders from params. Unknown placeholders are left as is.
+ */
+export function translate(
+  language: Language,
+  key: TranslationKey,
+  params?: TranslationParams,
+): string {
+  const text = catalogs[language]?.[key] ?? en[key];
+  if (!params) return text;
+
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+/**
+ * Built-in offer types have translated labels; custom offers keep the
+ * name the user gave them.
+ */
+export function translateOfferLabel(
+  language: Language,
+  key: string | undefined,
+  fallback: string,
+): string {
+  const translationKey = `offer.${key}`;
+  return key && translationKey in en
+    ? translate(language, translationKey as TranslationKey)
+    : fallback;
+}
@@ -0,0 +1,34 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { resetHistoryUpload } from "@/lib/history-api";
+import { clearAccountStorage } from "@/lib/storage";
+import { resetSyncState } from "@/lib/sync-state";
+
+// ID of the user whose data is stored on this device
+const OWNER_STORAGE_KEY = "offers365_data_owner";
+
+/**
+ * Removes everything the signed-in account left on this device: synced
+ * values, cached products, pending changes and sync progress.
+ */
+export async function clearAccountData(): Promise<void> {
+  await resetSyncState();
+  await resetHistoryUpload();
+  await clearAccountStorage();
+  await AsyncStorage.removeItem(OWNER_STORAGE_KEY);
+}
+
+/**
+ * Marks the data on this device as the user's before syncing starts.
+ * Data left by a different account, e.g. after its session expired, is
+ * cleared first so it is not uploaded into this one. Data without an owner
+ * predates sign-in and is kept to be merged on the first sync.
+ */
+export async function claimAccountData(userId: string): Promise<void> {
+  const owner = await AsyncStorage.getItem(OWNER_STORAGE_KEY);
+  if (owner === userId) return;
+  if (owner) {
+    await clearAccountData();
+  }
+  await AsyncStorage.setItem(OWNER_STORAGE_KEY, userId);
+}
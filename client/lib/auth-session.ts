@@ -0,0 +1,120 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+interface StoredSession {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch milliseconds after which the access token is refreshed */
+  accessTokenExpiresAt: number;
+}
+
+const SESSION_STORAGE_KEY = "@offers365_session";
+
+// Refresh slightly before expiry so in-flight requests don't race it
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+let session: StoredSession | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+const expiredListeners = new Set<() => void>();
+
+function toStoredSession(tokens: SessionTokens): StoredSession {
+  return {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    accessTokenExpiresAt: Date.now() + tokens.expiresIn * 1000,
+  };
+}
+
+export async function loadSession(): Promise<boolean> {
+  try {
+    const data = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
+    session = data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error("Failed to load session:", error);
+    session = null;
+  }
+  return !!session;
+}
+
+export async function saveSession(tokens: SessionTokens): Promise<void> {
+  session = toStoredSession(tokens);
+  await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export async function clearSession(): Promise<void> {
+  session = null;
+  await AsyncStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+/**
+ * Registers a callback for when the session can no longer be refreshed,
+ * so the app can return to the login screen.
+ */
+export function onSessionExpired(listener: () => void): () => void {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+}
+
+async function requestRefresh(
+  refreshUrl: string,
+  refreshToken: string,
+): Promise<string | null> {
+  try {
+    const response = await fetch(refreshUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (response.status === 401) {
+      await clearSession();
+      expiredListeners.forEach((listener) => listener());
+      return null;
+    }
+
+    if (!response.ok) return null;
+
+    const tokens: SessionTokens = await response.json();
+    await saveSession(tokens);
+    return tokens.accessToken;
+  } catch (error) {
+    console.error("Failed to refresh session:", error);
+    return null;
+  }
+}
+
+/**
+ * Exchanges the refresh token for a new access token. Concurrent callers
+ * share one request because each refresh token can only be used once.
+ */
+export function refreshAccessToken(refreshUrl: string): Promise<string | null> {
+  if (!session) return Promise.resolve(null);
+
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh(refreshUrl, session.refreshToken).finally(
+      () => {
+        refreshPromise = null;
+      },
+    );
+  }
+  return refreshPromise;
+}
+
+export async function getAccessToken(
+  refreshUrl: string,
+): Promise<string | null> {
+  if (!session) return null;
+
+  if (Date.now() >= session.accessTokenExpiresAt - EXPIRY_MARGIN_MS) {
+    return refreshAccessToken(refreshUrl);
+  }
+  return session.accessToken;
+}
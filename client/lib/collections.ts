@@ -0,0 +1,227 @@
+import {
+  FAVORITES_COLLECTION_ID,
+  formatProductMessage,
+  getCollections,
+  saveCollections,
+  type ProductCollection,
+  type ProductItem,
+} from "@/lib/storage";
+import type { TranslationKey, TranslationParams } from "@/i18n";
+import { MAX_SYNC_BODY_BYTES } from "@shared/sync";
+
+export const MAX_COLLECTIONS = 50;
+export const MAX_COLLECTION_PRODUCTS = 200;
+
+// Collections are synced as one value; half the request limit leaves room
+// for the settings and templates sent along with them
+const MAX_COLLECTIONS_BYTES = MAX_SYNC_BODY_BYTES / 2;
+
+export class CollectionLimitError extends Error {
+  /** "count" when there are too many collections, "size" when they are full */
+  reason: "count" | "size";
+
+  constructor(reason: "count" | "size") {
+    super(
+      reason === "count" ? "Collection limit reached" : "Collections are full",
+    );
+    this.name = "CollectionLimitError";
+    this.reason = reason;
+  }
+}
+
+// Separates the products in a bulk message
+const BULK_MESSAGE_SEPARATOR = "\n\n━━━━━━━━━━\n\n";
+
+function createCollectionId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getByteSize(collections: ProductCollection[]): number {
+  return new TextEncoder().encode(JSON.stringify(collections)).length;
+}
+
+// Changes that shrink the collections are always allowed, so collections
+// saved before the size cap can still be cleaned up
+async function updateCollections(
+  update: (collections: ProductCollection[]) => ProductCollection[],
+): Promise<ProductCollection[]> {
+  const current = await getCollections();
+  const collections = update(current);
+  const size = getByteSize(collections);
+  if (size > MAX_COLLECTIONS_BYTES && size > getByteSize(current)) {
+    throw new CollectionLimitError("size");
+  }
+  await saveCollections(collections);
+  return collections;
+}
+
+/** Message shown when a collection change was refused */
+export function getCollectionErrorMessage(
+  error: unknown,
+  t: (key: TranslationKey, params?: TranslationParams) => string,
+): string {
+  if (!(error instanceof CollectionLimitError)) {
+    return t("common.requestFailed");
+  }
+  return error.reason === "count"
+    ? t("collections.limitReached", { max: MAX_COLLECTIONS })
+    : t("collections.full");
+}
+
+function hasProduct(collection: ProductCollection, productId: string) {
+  return collection.products.some((product) => product.productId === productId);
+}
+
+// Failed offers never show up in messages, so the copy leaves them out
+function toSnapshot(product: ProductItem): ProductItem {
+  return {
+    ...product,
+    offers: product.offers.filter((offer) => offer.success),
+  };
+}
+
+function withProduct(
+  collection: ProductCollection,
+  product: ProductItem,
+): ProductCollection {
+  const products = collection.products.filter(
+    (existing) => existing.productId !== product.productId,
+  );
+  return {
+    ...collection,
+    products: [toSnapshot(product), ...products].slice(
+      0,
+      MAX_COLLECTION_PRODUCTS,
+    ),
+  };
+}
+
+function withoutProduct(
+  collection: ProductCollection,
+  productId: string,
+): ProductCollection {
+  return {
+    ...collection,
+    products: collection.products.filter(
+      (product) => product.productId !== productId,
+    ),
+  };
+}
+
+export function isFavorite(
+  collections: ProductCollection[],
+  productId: string,
+): boolean {
+  const favorites = collections.find(
+    (collection) => collection.id === FAVORITES_COLLECTION_ID,
+  );
+  return !!favorites && hasProduct(favorites, productId);
+}
+
+/** IDs of the collections that contain the product */
+export function getProductCollectionIds(
+  collections: ProductCollection[],
+  productId: string,
+): string[] {
+  return collections
+    .filter((collection) => hasProduct(collection, productId))
+    .map((collection) => collection.id);
+}
+
+export async function toggleFavorite(
+  product: ProductItem,
+): Promise<ProductCollection[]> {
+  return updateCollections((collections) =>
+    collections.map((collection) => {
+      if (collection.id !== FAVORITES_COLLECTION_ID) return collection;
+      return hasProduct(collection, product.productId)
+        ? withoutProduct(collection, product.productId)
+        : withProduct(collection, product);
+    }),
+  );
+}
+
+/** Puts the product in exactly the given collections */
+export async function setProductCollections(
+  product: ProductItem,
+  collectionIds: string[],
+): Promise<ProductCollection[]> {
+  return updateCollections((collections) =>
+    collections.map((collection) => {
+      const shouldContain = collectionIds.includes(collection.id);
+      if (shouldContain === hasProduct(collection, product.productId)) {
+        return collection;
+      }
+      return shouldContain
+        ? withProduct(collection, product)
+        : withoutProduct(collection, product.productId);
+    }),
+  );
+}
+
+export async function removeFromCollection(
+  collectionId: string,
+  productId: string,
+): Promise<ProductCollection[]> {
+  return updateCollections((collections) =>
+    collections.map((collection) =>
+      collection.id === collectionId
+        ? withoutProduct(collection, productId)
+        : collection,
+    ),
+  );
+}
+
+export async function createCollection(
+  name: string,
+): Promise<ProductCollection> {
+  const collection: ProductCollection = {
+    id: createCollectionId(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    products: [],
+  };
+  await updateCollections((collections) => {
+    if (collections.length >= MAX_COLLECTIONS) {
+      throw new CollectionLimitError("count");
+    }
+    return [...collections, collection];
+  });
+  return collection;
+}
+
+export async function renameCollection(
+  collectionId: string,
+  name: string,
+): Promise<ProductCollection[]> {
+  return updateCollections((collections) =>
+    collections.map((collection) =>
+      collection.id === collectionId
+        ? { ...collection, name: name.trim() }
+        : collection,
+    ),
+  );
+}
+
+/** Deletes a named collection; favorites can only be emptied */
+export async function deleteCollection(
+  collectionId: string,
+): Promise<ProductCollection[]> {
+  return updateCollections((collections) =>
+    collections.filter(
+      (collection) =>
+        collection.id === FAVORITES_COLLECTION_ID ||
+        collection.id !== collectionId,
+    ),
+  );
+}
+
+/** One message covering every product, each formatted with the template */
+export function formatCollectionMessage(
+  collection: ProductCollection,
+  template: string,
+): string {
+  return collection.products
+    .map((product) => formatProductMessage(product, template))
+    .join(BULK_MESSAGE_SEPARATOR);
+}
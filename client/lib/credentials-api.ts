@@ -0,0 +1,94 @@
+import { requestJson } from "@/lib/query-client";
+import {
+  clearLocalCredentials,
+  getSettings,
+  setCredentialsStored,
+} from "@/lib/storage";
+import type { CredentialVerification } from "@shared/credentials";
+
+export interface CredentialsSummary {
+  configured: boolean;
+  appKey?: string;
+  trackingId?: string;
+  /** Last characters of the stored app secret, e.g. "••••a1b2" */
+  appSecretHint?: string;
+  updatedAt?: string;
+}
+
+export interface CredentialsInput {
+  appKey: string;
+  /** Leave empty to keep the secret already stored on the server */
+  appSecret?: string;
+  trackingId: string;
+}
+
+export async function fetchCredentials(): Promise<CredentialsSummary> {
+  return requestJson<CredentialsSummary>(
+    "GET",
+    "/api/credentials",
+    undefined,
+    "Failed to load API credentials",
+  );
+}
+
+/**
+ * Loads the stored credentials summary and records on the device whether
+ * there are any, so a new install can look up products without Settings.
+ * Credentials an older version saved on the device are moved to the
+ * server first, unless it already has some, and then removed locally.
+ */
+export async function refreshCredentialsStatus(): Promise<CredentialsSummary> {
+  let stored = await fetchCredentials();
+
+  const { appKey, appSecret, trackingId } = await getSettings();
+  if (appSecret) {
+    if (!stored.configured) {
+      stored = await saveCredentials({ appKey, appSecret, trackingId });
+    }
+    await clearLocalCredentials();
+  }
+
+  await setCredentialsStored(stored.configured);
+  return stored;
+}
+
+export async function saveCredentials(
+  input: CredentialsInput,
+): Promise<CredentialsSummary> {
+  return requestJson<CredentialsSummary>(
+    "PUT",
+    "/api/credentials",
+    input,
+    "Failed to save API credentials",
+  );
+}
+
+/**
+ * Replaces the stored credentials only after the server confirms that the
+ * new ones are accepted by the AliExpress API.
+ */
+export async function rotateCredentials(
+  input: CredentialsInput & { appSecret: string },
+): Promise<CredentialsSummary> {
+  return requestJson<CredentialsSummary>(
+    "POST",
+    "/api/credentials/rotate",
+    input,
+    "Failed to update API credentials",
+  );
+}
+
+/**
+ * Makes a signed test call with the given credentials. Empty fields fall
+ * back to the credentials stored on the server.
+ */
+export async function verifyCredentials(
+  input: Partial<CredentialsInput>,
+): Promise<CredentialVerification> {
+  return requestJson<CredentialVerification>(
+    "POST",
+    "/api/credentials/verify",
+    input,
+    "Failed to test the connection",
+  );
+}
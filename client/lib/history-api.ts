@@ -0,0 +1,107 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { requestJson } from "@/lib/query-client";
+import {
+  clearRecentProducts,
+  getRecentProducts,
+  removeRecentProduct,
+  saveProduct,
+  type ProductItem,
+} from "@/lib/storage";
+import { flushSyncQueue } from "@/lib/sync";
+import { enqueueSyncOperation } from "@/lib/sync-state";
+import {
+  queryHistory,
+  type HistoryPage,
+  type HistoryQuery,
+} from "@shared/history";
+
+// Set once the products saved before the server history existed are queued
+// for upload
+const UPLOADED_STORAGE_KEY = "offers365_history_uploaded";
+
+function toQueryString(query: HistoryQuery): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+async function uploadLocalHistory(): Promise<void> {
+  if (await AsyncStorage.getItem(UPLOADED_STORAGE_KEY)) return;
+  const products = await getRecentProducts();
+  // Oldest first so the queue ends with the most recent lookup
+  for (const product of [...products].reverse()) {
+    await enqueueSyncOperation({ type: "saveProduct", product });
+  }
+  await AsyncStorage.setItem(UPLOADED_STORAGE_KEY, "true");
+}
+
+/** Lets the next account signed in on this device upload its own products */
+export function resetHistoryUpload(): Promise<void> {
+  return AsyncStorage.removeItem(UPLOADED_STORAGE_KEY);
+}
+
+/**
+ * Saves a looked-up product on the device and queues it for the server
+ * history, so lookups keep working offline.
+ */
+export async function recordProduct(product: ProductItem): Promise<void> {
+  await saveProduct(product);
+  await enqueueSyncOperation({ type: "saveProduct", product });
+  await flushSyncQueue();
+}
+
+/**
+ * Searches the server history. When the server is unreachable the same
+ * query runs on the products kept on the device.
+ */
+export async function fetchHistory(
+  query: HistoryQuery,
+): Promise<HistoryPage<ProductItem>> {
+  try {
+    await uploadLocalHistory();
+    await flushSyncQueue();
+    return await requestJson<HistoryPage<ProductItem>>(
+      "GET",
+      `/api/history?${toQueryString(query)}`,
+      undefined,
+      "Failed to load history",
+    );
+  } catch (error) {
+    console.error("Failed to load history:", error);
+    return queryHistory(await getRecentProducts(), query);
+  }
+}
+
+export async function fetchHistoryCategories(): Promise<string[]> {
+  try {
+    return await requestJson<string[]>(
+      "GET",
+      "/api/history/categories",
+      undefined,
+      "Failed to load categories",
+    );
+  } catch (error) {
+    console.error("Failed to load categories:", error);
+    const products = await getRecentProducts();
+    const categories = products
+      .map((product) => product.categoryName)
+      .filter((category): category is string => !!category)
+      .filter((category) => category !== "N/A");
+    return Array.from(new Set(categories)).sort();
+  }
+}
+
+export async function deleteHistoryProduct(productId: string): Promise<void> {
+  await removeRecentProduct(productId);
+  await enqueueSyncOperation({ type: "deleteProduct", productId });
+  await flushSyncQueue();
+}
+
+export async function clearHistory(): Promise<void> {
+  await clearRecentProducts();
+  await enqueueSyncOperation({ type: "clearHistory" });
+  await flushSyncQueue();
+}
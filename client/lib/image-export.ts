@@ -0,0 +1,18 @@
+import type Svg from "react-native-svg";
+
+/**
+ * Rasterizes a mounted Svg to base64 PNG data. The image is rendered at the
+ * given size, not the size shown on screen.
+ */
+export function renderSvgToPng(
+  svg: Svg | null,
+  size: { width: number; height: number },
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!svg) {
+      reject(new Error("Image is not ready"));
+      return;
+    }
+    svg.toDataURL(resolve, { width: size.width, height: size.height });
+  });
+}
@@ -0,0 +1,38 @@
+import { requestJson, requestText } from "@/lib/query-client";
+import type {
+  EarningsReport,
+  OrderRange,
+  OrderSyncResult,
+} from "@shared/orders";
+
+function toQueryString({ from, to }: OrderRange): string {
+  return new URLSearchParams({ from, to }).toString();
+}
+
+/** Pulls the range's orders from AliExpress with the stored credentials */
+export async function syncOrders(range: OrderRange): Promise<OrderSyncResult> {
+  return requestJson<OrderSyncResult>(
+    "POST",
+    "/api/orders/sync",
+    range,
+    "Failed to sync orders",
+  );
+}
+
+export async function fetchEarningsReport(
+  range: OrderRange,
+): Promise<EarningsReport> {
+  return requestJson<EarningsReport>(
+    "GET",
+    `/api/orders/report?${toQueryString(range)}`,
+    undefined,
+    "Failed to load the report",
+  );
+}
+
+export async function exportOrdersCsv(range: OrderRange): Promise<string> {
+  return requestText(
+    `/api/orders/export?${toQueryString(range)}`,
+    "Failed to export orders",
+  );
+}
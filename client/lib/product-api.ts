@@ -0,0 +1,106 @@
+import { requestJson } from "@/lib/query-client";
+import {
+  findProfile,
+  getLocalPriceHistory,
+  getUserOfferTypes,
+  saveLocalPriceHistory,
+  type AppSettings,
+  type ProductItem,
+  type TrackingProfile,
+} from "@/lib/storage";
+import {
+  summarizePriceHistory,
+  type PriceHistory,
+} from "@shared/price-history";
+
+export interface BatchLookupResult {
+  url: string;
+  success: boolean;
+  product?: ProductItem;
+  error?: string;
+}
+
+interface BatchLookupResponse {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchLookupResult[];
+}
+
+function lookupFieldsFrom(settings: AppSettings, profile?: TrackingProfile) {
+  return {
+    // Only the tracking ID changes; the server keeps the stored key/secret
+    ...(profile ? { trackingId: profile.trackingId } : {}),
+    customOffers: settings.customOfferTypes,
+    offerKeys: getUserOfferTypes(settings)
+      .filter((type) => type.enabled)
+      .map((type) => type.key),
+  };
+}
+
+export interface LookupOptions {
+  /** Bypass the server cache and fetch fresh product data and links */
+  force?: boolean;
+  /** Tracking profile to use; defaults to the active profile */
+  profileId?: string | null;
+}
+
+function withProfile(product: ProductItem, profile?: TrackingProfile) {
+  return { ...product, profileId: profile?.id };
+}
+
+export async function fetchProduct(
+  url: string,
+  settings: AppSettings,
+  { force = false, profileId = settings.activeProfileId }: LookupOptions = {},
+): Promise<ProductItem> {
+  const profile = findProfile(settings, profileId);
+  const product = await requestJson<ProductItem>(
+    "POST",
+    "/api/product",
+    { url, force, ...lookupFieldsFrom(settings, profile) },
+    "Failed to fetch product",
+  );
+  return withProfile(product, profile);
+}
+
+export async function fetchProductsBatch(
+  urls: string[],
+  settings: AppSettings,
+): Promise<BatchLookupResult[]> {
+  const profile = findProfile(settings, settings.activeProfileId);
+  const data = await requestJson<BatchLookupResponse>(
+    "POST",
+    "/api/products/batch",
+    { urls, ...lookupFieldsFrom(settings, profile) },
+    "Failed to fetch products",
+  );
+  return data.results.map((result) =>
+    result.product
+      ? { ...result, product: withProfile(result.product, profile) }
+      : result,
+  );
+}
+
+/**
+ * Loads the product's price history from the server and mirrors it
+ * locally; when the server is unreachable the local mirror is used.
+ */
+export async function fetchPriceHistory(
+  productId: string,
+): Promise<PriceHistory> {
+  try {
+    const history = await requestJson<PriceHistory>(
+      "GET",
+      `/api/products/${encodeURIComponent(productId)}/history`,
+      undefined,
+      "Failed to load price history",
+    );
+    await saveLocalPriceHistory(productId, history.points);
+    return history;
+  } catch (error) {
+    console.error("Failed to load price history:", error);
+    const points = await getLocalPriceHistory(productId);
+    return { productId, points, summary: summarizePriceHistory(points) };
+  }
+}
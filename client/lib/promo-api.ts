@@ -0,0 +1,23 @@
+import { requestImage } from "@/lib/query-client";
+import { parseRating, type ProductItem } from "@/lib/storage";
+import type { PromoLayout, PromoRequest } from "@shared/promo";
+
+/** Asks the server to compose the product's promo card as a PNG data URI */
+export async function fetchPromoCard(
+  product: ProductItem,
+  layout: PromoLayout,
+  options: { channelName?: string; qrLink?: string | null } = {},
+): Promise<string> {
+  const body: PromoRequest = {
+    layout,
+    title: product.title,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    discount: product.discount,
+    storeName: product.storeName,
+    rating: parseRating(product.evaluateRate),
+    imageUrl: product.imageUrl,
+    ...options,
+  };
+  return requestImage("/api/promo", body, "Failed to create the promo image");
+}
@@ -0,0 +1,7 @@
+import { requestSvg } from "@/lib/query-client";
+import type { QrRequest } from "@shared/qr";
+
+/** Renders a link as an SVG QR code, optionally with the channel logo */
+export async function fetchQrCode(request: QrRequest): Promise<string> {
+  return requestSvg("/api/qr", request, "Failed to create the QR code");
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { getAccessToken, refreshAccessToken } from "@/lib/auth-session";
 
 /**
  * Gets the base URL for the Express API server (e.g., "http://localhost:3000")
@@ -16,6 +17,38 @@ export function getApiUrl(): string {
   return url.href;
 }
 
+function getRefreshUrl(): string {
+  return new URL("/api/auth/refresh", getApiUrl()).href;
+}
+
+/**
+ * fetch wrapper that attaches the session's access token and, when the
+ * server rejects it, refreshes the session once and retries the request.
+ */
+export async function authorizedFetch(
+  url: URL | string,
+  init: Omit<RequestInit, "headers"> & {
+    headers?: Record<string, string>;
+  } = {},
+): Promise<Response> {
+  const send = (token: string | null) =>
+    fetch(url, {
+      ...init,
+      headers: token
+        ? { ...init.headers, Authorization: `Bearer ${token}` }
+        : init.headers,
+    });
+
+  const token = await getAccessToken(getRefreshUrl());
+  const res = await send(token);
+  if (res.status !== 401 || !token) {
+    return res;
+  }
+
+  const refreshedToken = await refreshAccessToken(getRefreshUrl());
+  return refreshedToken ? send(refreshedToken) : res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -31,7 +64,7 @@ export async function apiRequest(
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
 
-  const res = await fetch(url, {
+  const res = await authorizedFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
@@ -42,6 +75,123 @@ export async function apiRequest(
   return res;
 }
 
+/** Error from requestJson carrying the HTTP status of the response */
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+  }
+}
+
+/**
+ * Sends an authorized JSON request and parses the JSON response. Server
+ * error messages ({ message }) are rethrown as the Error message.
+ */
+export async function requestJson<T>(
+  method: string,
+  route: string,
+  body: unknown,
+  fallbackMessage: string,
+): Promise<T> {
+  const response = await authorizedFetch(new URL(route, getApiUrl()).href, {
+    method,
+    headers: body === undefined ? {} : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiRequestError(
+      error.message || fallbackMessage,
+      response.status,
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Sends an authorized JSON request to an endpoint that renders SVG and
+ * returns the markup. Errors are thrown as in requestJson.
+ */
+export async function requestSvg(
+  route: string,
+  body: unknown,
+  fallbackMessage: string,
+): Promise<string> {
+  const response = await authorizedFetch(new URL(route, getApiUrl()).href, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiRequestError(
+      error.message || fallbackMessage,
+      response.status,
+    );
+  }
+
+  return response.text();
+}
+
+/**
+ * Sends an authorized JSON request to an endpoint that renders an image
+ * and returns it as a data URI. Errors are thrown as in requestJson.
+ */
+export async function requestImage(
+  route: string,
+  body: unknown,
+  fallbackMessage: string,
+): Promise<string> {
+  const response = await authorizedFetch(new URL(route, getApiUrl()).href, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiRequestError(
+      error.message || fallbackMessage,
+      response.status,
+    );
+  }
+
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(fallbackMessage));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Sends an authorized GET request to an endpoint that returns a text file
+ * (e.g. CSV) and returns its contents. Errors are thrown as in requestJson.
+ */
+export async function requestText(
+  route: string,
+  fallbackMessage: string,
+): Promise<string> {
+  const response = await authorizedFetch(new URL(route, getApiUrl()).href);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiRequestError(
+      error.message || fallbackMessage,
+      response.status,
+    );
+  }
+
+  return response.text();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -51,7 +201,7 @@ export const getQueryFn: <T>(options: {
     const baseUrl = getApiUrl();
     const url = new URL(queryKey.join("/") as string, baseUrl);
 
-    const res = await fetch(url, {
+    const res = await authorizedFetch(url, {
       credentials: "include",
     });
 
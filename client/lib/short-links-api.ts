@@ -0,0 +1,13 @@
+import { requestJson } from "@/lib/query-client";
+import type { LinkStats, LinkStatsRange } from "@shared/short-links";
+
+export async function fetchLinkStats(
+  range: LinkStatsRange,
+): Promise<LinkStats> {
+  return requestJson<LinkStats>(
+    "GET",
+    `/api/links/stats?range=${range}`,
+    undefined,
+    "Failed to load link stats",
+  );
+}
@@ -1,4 +1,22 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  applyOfferPreferences,
+  getOfferTypes,
+  type CustomOfferType,
+  type OfferType,
+} from "@shared/offers";
+import {
+  createPricePoint,
+  parsePriceValue,
+  type PricePoint,
+} from "@shared/price-history";
+import type { SyncKey } from "@shared/sync";
+import {
+  renderTemplate,
+  type TemplateData,
+  type TemplateValues,
+} from "@shared/template";
+import { recordSyncChange } from "@/lib/sync-state";
 
 const STORAGE_KEYS = {
   RECENT_PRODUCTS: "offers365_recent_products",
@@ -6,8 +24,40 @@ const STORAGE_KEYS = {
   SHARE_TEMPLATE: "offers365_share_template",
   DETAILS_TEMPLATE: "offers365_details_template",
   COPY_ALL_TEMPLATE: "offers365_copy_all_template",
+  PRICE_HISTORY: "offers365_price_history",
+  COLLECTIONS: "offers365_collections",
+  DIGEST_TEMPLATE: "offers365_digest_template",
+  TEMPLATE_LIBRARY: "offers365_template_library",
 };
 
+// The full history lives on the server; the device keeps the most recent
+// products for offline use
+const MAX_CACHED_PRODUCTS = 100;
+const MAX_PRICE_POINTS = 100;
+const MAX_PRICE_HISTORY_PRODUCTS = 50;
+
+type JsonSyncKey = "template.digest" | "template.library" | "collections";
+
+const TEMPLATE_STORAGE_KEYS: Record<
+  Exclude<SyncKey, "settings" | JsonSyncKey>,
+  string
+> = {
+  "template.share": STORAGE_KEYS.SHARE_TEMPLATE,
+  "template.details": STORAGE_KEYS.DETAILS_TEMPLATE,
+  "template.copyAll": STORAGE_KEYS.COPY_ALL_TEMPLATE,
+};
+
+// Synced values that are stored as JSON rather than plain text
+const JSON_STORAGE_KEYS: Record<JsonSyncKey, string> = {
+  "template.digest": STORAGE_KEYS.DIGEST_TEMPLATE,
+  "template.library": STORAGE_KEYS.TEMPLATE_LIBRARY,
+  collections: STORAGE_KEYS.COLLECTIONS,
+};
+
+function isJsonSyncKey(key: SyncKey): key is JsonSyncKey {
+  return key in JSON_STORAGE_KEYS;
+}
+
 export interface ProductItem {
   id: string;
   productId: string;
@@ -24,6 +74,8 @@ export interface ProductItem {
   orders?: string;
   shipping_fees?: string;
   searchedAt: string;
+  /** Tracking profile the offers were generated with; unset means default */
+  profileId?: string;
   offers: OfferItem[];
 }
 
@@ -34,27 +86,86 @@ export interface OfferItem {
   success: boolean;
 }
 
+/**
+ * A named group of saved products. Products are copied in so they outlive
+ * the recent history; the favorites collection always exists.
+ */
+export interface ProductCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** Most recently added first */
+  products: ProductItem[];
+}
+
+export const FAVORITES_COLLECTION_ID = "favorites";
+
+/** A user-named message template, picked at share time */
+export interface NamedTemplate {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * A named tracking ID (e.g. one per channel). Profiles reuse the App Key and
+ * App Secret stored on the server and only swap the tracking ID.
+ */
+export interface TrackingProfile {
+  id: string;
+  name: string;
+  trackingId: string;
+}
+
 export interface AppSettings {
   language: "en" | "ar";
   theme: "light" | "dark" | "system";
   appKey: string;
   appSecret: string;
   trackingId: string;
+  /** True once the API credentials are stored on the server */
+  credentialsStored: boolean;
+  profiles: TrackingProfile[];
+  /** Profile used for new lookups; null uses the default tracking ID */
+  activeProfileId: string | null;
+  customOfferTypes: CustomOfferType[];
+  offerOrder: string[];
+  disabledOfferKeys: string[];
 }
 
+// API credentials are not synced; the server keeps them separately
+const SYNCED_SETTINGS: (keyof AppSettings)[] = [
+  "language",
+  "theme",
+  "profiles",
+  "activeProfileId",
+  "customOfferTypes",
+  "offerOrder",
+  "disabledOfferKeys",
+];
+
 export const DEFAULT_SETTINGS: AppSettings = {
   language: "en",
   theme: "system",
   appKey: "",
   appSecret: "",
   trackingId: "",
+  credentialsStored: false,
+  profiles: [],
+  activeProfileId: null,
+  customOfferTypes: [],
+  offerOrder: [],
+  disabledOfferKeys: [],
 };
 
 export const DEFAULT_SHARE_TEMPLATE = `{title}
 
 Current Price: {price}
+{#if discount}
 Original Price: {originalPrice}
 Discount: {discount}
+{/if}
 
 Store: {storeName}
 
@@ -64,21 +175,118 @@ Offers:
 export const DEFAULT_DETAILS_TEMPLATE = `{title}
 
 Price: {price}
+{#if discount}
 Original: {originalPrice}
 Discount: {discount}
+{/if}
 Store: {storeName}`;
 
 export const DEFAULT_COPY_ALL_TEMPLATE = `{title}
 
 Current Price: {price}
+{#if discount}
 Original Price: {originalPrice}
 Discount: {discount}
+{/if}
 
 Store: {storeName}
 
 Offers:
 {offers}`;
 
+const ARABIC_SHARE_TEMPLATE = `{title}
+
+السعر الحالي: {price}
+{#if discount}
+السعر الأصلي: {originalPrice}
+الخصم: {discount}
+{/if}
+
+المتجر: {storeName}
+
+العروض:
+{offers}`;
+
+const ARABIC_DETAILS_TEMPLATE = `{title}
+
+السعر: {price}
+{#if discount}
+السعر الأصلي: {originalPrice}
+الخصم: {discount}
+{/if}
+المتجر: {storeName}`;
+
+export interface MessageTemplates {
+  share: string;
+  details: string;
+  copyAll: string;
+}
+
+const DEFAULT_TEMPLATES: Record<AppSettings["language"], MessageTemplates> = {
+  en: {
+    share: DEFAULT_SHARE_TEMPLATE,
+    details: DEFAULT_DETAILS_TEMPLATE,
+    copyAll: DEFAULT_COPY_ALL_TEMPLATE,
+  },
+  ar: {
+    share: ARABIC_SHARE_TEMPLATE,
+    details: ARABIC_DETAILS_TEMPLATE,
+    copyAll: ARABIC_SHARE_TEMPLATE,
+  },
+};
+
+/**
+ * Template for one message covering several products: the item block is
+ * repeated for each product between the header and the footer.
+ */
+export interface DigestTemplate {
+  header: string;
+  item: string;
+  footer: string;
+}
+
+const DEFAULT_DIGEST_TEMPLATES: Record<
+  AppSettings["language"],
+  DigestTemplate
+> = {
+  en: {
+    header: "Today's top {count} deals ({date})",
+    item: `{index}. {title}
+Price: {price}{#if discount} ({discount} off){/if}
+Store: {storeName}
+{offers}`,
+    footer: "Follow us for more daily deals!",
+  },
+  ar: {
+    header: "أفضل {count} عروض اليوم ({date})",
+    item: `{index}. {title}
+السعر: {price}{#if discount} (خصم {discount}){/if}
+المتجر: {storeName}
+{offers}`,
+    footer: "تابعونا للمزيد من العروض اليومية!",
+  },
+};
+
+export function getDefaultDigestTemplate(
+  language: AppSettings["language"],
+): DigestTemplate {
+  return DEFAULT_DIGEST_TEMPLATES[language] || DEFAULT_DIGEST_TEMPLATES.en;
+}
+
+export function getDefaultTemplates(
+  language: AppSettings["language"],
+): MessageTemplates {
+  return DEFAULT_TEMPLATES[language] || DEFAULT_TEMPLATES.en;
+}
+
+// Templates the user never customized follow the app language
+async function getDefaultTemplate(
+  type: keyof MessageTemplates,
+): Promise<string> {
+  const settings = await getSettings();
+  return getDefaultTemplates(settings.language)[type];
+}
+
 export async function getRecentProducts(): Promise<ProductItem[]> {
   try {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_PRODUCTS);
@@ -101,7 +309,7 @@ export async function saveProduct(product: ProductItem): Promise<void> {
 
     products.unshift(product);
 
-    if (products.length > 20) {
+    if (products.length > MAX_CACHED_PRODUCTS) {
       products.pop();
     }
 
@@ -109,11 +317,84 @@ export async function saveProduct(product: ProductItem): Promise<void> {
       STORAGE_KEYS.RECENT_PRODUCTS,
       JSON.stringify(products)
     );
+    await recordLocalPricePoint(product);
   } catch (error) {
     console.error("Failed to save product:", error);
   }
 }
 
+type PriceHistoryStore = Record<string, PricePoint[]>;
+
+async function getPriceHistoryStore(): Promise<PriceHistoryStore> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.PRICE_HISTORY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function savePriceHistoryStore(store: PriceHistoryStore) {
+  const productIds = Object.keys(store);
+  if (productIds.length > MAX_PRICE_HISTORY_PRODUCTS) {
+    // Forget the products that were looked up least recently
+    const lastRecorded = (id: string) =>
+      store[id][store[id].length - 1]?.recordedAt ?? "";
+    productIds
+      .sort((a, b) => lastRecorded(b).localeCompare(lastRecorded(a)))
+      .slice(MAX_PRICE_HISTORY_PRODUCTS)
+      .forEach((id) => delete store[id]);
+  }
+  await AsyncStorage.setItem(STORAGE_KEYS.PRICE_HISTORY, JSON.stringify(store));
+}
+
+/** Local mirror of the server price history, oldest point first */
+export async function getLocalPriceHistory(
+  productId: string,
+): Promise<PricePoint[]> {
+  const store = await getPriceHistoryStore();
+  return store[productId] || [];
+}
+
+export async function saveLocalPriceHistory(
+  productId: string,
+  points: PricePoint[],
+): Promise<void> {
+  try {
+    const store = await getPriceHistoryStore();
+    store[productId] = points.slice(-MAX_PRICE_POINTS);
+    await savePriceHistoryStore(store);
+  } catch (error) {
+    console.error("Failed to save price history:", error);
+  }
+}
+
+async function recordLocalPricePoint(product: ProductItem): Promise<void> {
+  const point = createPricePoint(
+    { ...product, orders: product.orders || "N/A" },
+    product.searchedAt,
+  );
+  if (point.priceValue === null) return;
+
+  const points = await getLocalPriceHistory(product.productId);
+  if (points.some((existing) => existing.recordedAt === point.recordedAt)) {
+    return;
+  }
+  await saveLocalPriceHistory(product.productId, [...points, point]);
+}
+
+export async function removeRecentProduct(productId: string): Promise<void> {
+  try {
+    const products = await getRecentProducts();
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.RECENT_PRODUCTS,
+      JSON.stringify(products.filter((p) => p.productId !== productId)),
+    );
+  } catch (error) {
+    console.error("Failed to remove product:", error);
+  }
+}
+
 export async function clearRecentProducts(): Promise<void> {
   try {
     await AsyncStorage.removeItem(STORAGE_KEYS.RECENT_PRODUCTS);
@@ -122,6 +403,65 @@ export async function clearRecentProducts(): Promise<void> {
   }
 }
 
+function withFavorites(collections: ProductCollection[]): ProductCollection[] {
+  if (collections.some((c) => c.id === FAVORITES_COLLECTION_ID)) {
+    return collections;
+  }
+  const favorites: ProductCollection = {
+    id: FAVORITES_COLLECTION_ID,
+    name: "",
+    createdAt: new Date(0).toISOString(),
+    products: [],
+  };
+  return [favorites, ...collections];
+}
+
+export async function getCollections(): Promise<ProductCollection[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.COLLECTIONS);
+    return withFavorites(data ? JSON.parse(data) : []);
+  } catch {
+    return withFavorites([]);
+  }
+}
+
+export async function saveCollections(
+  collections: ProductCollection[],
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.COLLECTIONS,
+      JSON.stringify(collections),
+    );
+    await recordSyncChange("collections");
+  } catch (error) {
+    console.error("Failed to save collections:", error);
+  }
+}
+
+export async function getTemplateLibrary(): Promise<NamedTemplate[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.TEMPLATE_LIBRARY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveTemplateLibrary(
+  templates: NamedTemplate[],
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.TEMPLATE_LIBRARY,
+      JSON.stringify(templates),
+    );
+    await recordSyncChange("template.library");
+  } catch (error) {
+    console.error("Failed to save template library:", error);
+  }
+}
+
 export async function getSettings(): Promise<AppSettings> {
   try {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
@@ -131,18 +471,68 @@ export async function getSettings(): Promise<AppSettings> {
   }
 }
 
+/**
+ * Saves the settings except the API credentials, which only reach the
+ * server through the credentials API. Credentials an older version saved
+ * on the device are left in place until they are moved to the server.
+ */
 export async function saveSettings(settings: AppSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    const { appKey, appSecret, trackingId } = await getSettings();
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SETTINGS,
+      JSON.stringify({ ...settings, appKey, appSecret, trackingId }),
+    );
+    await recordSyncChange("settings");
   } catch (error) {
     console.error("Failed to save settings:", error);
   }
 }
 
+/**
+ * Removes the signed-in account's products, settings, templates and
+ * collections from the device. Language and theme are kept so the sign-in
+ * screen does not change appearance.
+ */
+export async function clearAccountStorage(): Promise<void> {
+  const { language, theme } = await getSettings();
+  await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.SETTINGS,
+    JSON.stringify({ language, theme }),
+  );
+}
+
+/** Removes API credentials an older version saved on the device */
+export async function clearLocalCredentials(): Promise<void> {
+  const settings = await getSettings();
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.SETTINGS,
+    JSON.stringify({ ...settings, appKey: "", appSecret: "", trackingId: "" }),
+  );
+}
+
+/**
+ * Remembers whether the server holds the user's API credentials. The flag
+ * belongs to this device and is not synced.
+ */
+export async function setCredentialsStored(stored: boolean): Promise<void> {
+  try {
+    const settings = await getSettings();
+    if (settings.credentialsStored === stored) return;
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SETTINGS,
+      JSON.stringify({ ...settings, credentialsStored: stored }),
+    );
+  } catch (error) {
+    console.error("Failed to save credentials status:", error);
+  }
+}
+
 export async function getShareTemplate(): Promise<string> {
   try {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.SHARE_TEMPLATE);
-    return data || DEFAULT_SHARE_TEMPLATE;
+    return data || (await getDefaultTemplate("share"));
   } catch {
     return DEFAULT_SHARE_TEMPLATE;
   }
@@ -151,6 +541,7 @@ export async function getShareTemplate(): Promise<string> {
 export async function saveShareTemplate(template: string): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.SHARE_TEMPLATE, template);
+    await recordSyncChange("template.share");
   } catch (error) {
     console.error("Failed to save share template:", error);
   }
@@ -159,7 +550,7 @@ export async function saveShareTemplate(template: string): Promise<void> {
 export async function getDetailsTemplate(): Promise<string> {
   try {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.DETAILS_TEMPLATE);
-    return data || DEFAULT_DETAILS_TEMPLATE;
+    return data || (await getDefaultTemplate("details"));
   } catch {
     return DEFAULT_DETAILS_TEMPLATE;
   }
@@ -168,6 +559,7 @@ export async function getDetailsTemplate(): Promise<string> {
 export async function saveDetailsTemplate(template: string): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.DETAILS_TEMPLATE, template);
+    await recordSyncChange("template.details");
   } catch (error) {
     console.error("Failed to save details template:", error);
   }
@@ -176,7 +568,7 @@ export async function saveDetailsTemplate(template: string): Promise<void> {
 export async function getCopyAllTemplate(): Promise<string> {
   try {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.COPY_ALL_TEMPLATE);
-    return data || DEFAULT_COPY_ALL_TEMPLATE;
+    return data || (await getDefaultTemplate("copyAll"));
   } catch {
     return DEFAULT_COPY_ALL_TEMPLATE;
   }
@@ -185,46 +577,235 @@ export async function getCopyAllTemplate(): Promise<string> {
 export async function saveCopyAllTemplate(template: string): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.COPY_ALL_TEMPLATE, template);
+    await recordSyncChange("template.copyAll");
   } catch (error) {
     console.error("Failed to save copy all template:", error);
   }
 }
 
+/**
+ * Value of a synced key as stored on this device, or null when it was never
+ * saved here.
+ */
+export async function getSyncValue(key: SyncKey): Promise<unknown | null> {
+  if (isJsonSyncKey(key)) {
+    const data = await AsyncStorage.getItem(JSON_STORAGE_KEYS[key]);
+    return data ? JSON.parse(data) : null;
+  }
+  if (key !== "settings") {
+    return AsyncStorage.getItem(TEMPLATE_STORAGE_KEYS[key]);
+  }
+
+  const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
+  if (!data) return null;
+  const settings: AppSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(data) };
+  return Object.fromEntries(
+    SYNCED_SETTINGS.map((name) => [name, settings[name]]),
+  );
+}
+
+/** Stores a value received from another device without queueing it again */
+export async function applySyncValue(
+  key: SyncKey,
+  value: unknown,
+): Promise<void> {
+  if (isJsonSyncKey(key)) {
+    if (value && typeof value === "object") {
+      await AsyncStorage.setItem(JSON_STORAGE_KEYS[key], JSON.stringify(value));
+    }
+    return;
+  }
+  if (key !== "settings") {
+    if (typeof value === "string") {
+      await AsyncStorage.setItem(TEMPLATE_STORAGE_KEYS[key], value);
+    }
+    return;
+  }
+
+  if (!value || typeof value !== "object") return;
+  const settings = await getSettings();
+  const synced = Object.fromEntries(
+    Object.entries(value).filter(([name]) =>
+      SYNCED_SETTINGS.includes(name as keyof AppSettings),
+    ),
+  );
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.SETTINGS,
+    JSON.stringify({ ...settings, ...synced }),
+  );
+}
+
+/** Replaces the offline copy of the history with the server's latest */
+export async function cacheRecentProducts(
+  products: ProductItem[],
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.RECENT_PRODUCTS,
+      JSON.stringify(products.slice(0, MAX_CACHED_PRODUCTS)),
+    );
+  } catch (error) {
+    console.error("Failed to cache products:", error);
+  }
+}
+
+export async function getDigestTemplate(): Promise<DigestTemplate> {
+  const settings = await getSettings();
+  const defaults = getDefaultDigestTemplate(settings.language);
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.DIGEST_TEMPLATE);
+    return data ? { ...defaults, ...JSON.parse(data) } : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export async function saveDigestTemplate(
+  template: DigestTemplate,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.DIGEST_TEMPLATE,
+      JSON.stringify(template),
+    );
+    await recordSyncChange("template.digest");
+  } catch (error) {
+    console.error("Failed to save digest template:", error);
+  }
+}
+
+export function hasApiCredentials(settings: AppSettings): boolean {
+  return settings.credentialsStored;
+}
+
+export function findProfile(
+  settings: AppSettings,
+  profileId: string | null | undefined,
+): TrackingProfile | undefined {
+  return profileId
+    ? settings.profiles.find((profile) => profile.id === profileId)
+    : undefined;
+}
+
+/**
+ * Returns every offer type available to the user, in their preferred order
+ * and with their enabled state applied.
+ */
+export function getUserOfferTypes(settings: AppSettings): OfferType[] {
+  return applyOfferPreferences(
+    getOfferTypes(settings.customOfferTypes),
+    settings,
+  );
+}
+
+// Prices come from the API in USD
+function formatUsd(amount: number | null): string {
+  return amount !== null && amount > 0 ? `${amount.toFixed(2)} USD` : "";
+}
+
+/**
+ * Rating out of 5. The API reports either a score ("4.8") or the share of
+ * positive reviews ("96.5%"), which is scaled down to the same range.
+ */
+export function parseRating(evaluateRate: string | undefined): number | null {
+  const value = parsePriceValue(evaluateRate || "");
+  if (value === null) return null;
+  const rating = evaluateRate?.includes("%") || value > 5 ? value / 20 : value;
+  return Math.min(Math.max(rating, 0), 5);
+}
+
+/** Values a product exposes to message templates */
+export function getProductTemplateData(product: ProductItem): TemplateData {
+  const offers = product.offers.filter((offer) => offer.success);
+  const price = parsePriceValue(product.price);
+  const originalPrice = parsePriceValue(product.originalPrice);
+  const commissionRate = parsePriceValue(product.commissionRate || "");
+  const rating = parseRating(product.evaluateRate);
+
+  const values: TemplateValues = {
+    id: product.id,
+    productId: product.productId,
+    title: product.title,
+    imageUrl: product.imageUrl || "",
+    price: product.price,
+    originalPrice: product.originalPrice,
+    discount: product.discount,
+    storeName: product.storeName,
+    shopUrl: product.shopUrl || "",
+    categoryName: product.categoryName || "",
+    commissionRate: product.commissionRate || "N/A",
+    shipping_fees: product.shipping_fees || "Free Shipping",
+    evaluateRate: product.evaluateRate || "N/A",
+    orders: product.orders || "N/A",
+    searchedAt: new Date(product.searchedAt).toLocaleDateString(),
+    savings: formatUsd(
+      price !== null && originalPrice !== null ? originalPrice - price : null,
+    ),
+    commission: formatUsd(
+      price !== null && commissionRate !== null
+        ? (price * commissionRate) / 100
+        : null,
+    ),
+    rating: rating !== null ? rating.toFixed(1) : "",
+    stars: rating !== null ? "⭐".repeat(Math.round(rating)) : "",
+    offers: offers.map((o) => `${o.name}:\n${o.link}`).join("\n\n"),
+  };
+  offers.forEach((offer) => {
+    if (offer.key) values[offer.key] = offer.link;
+  });
+
+  return {
+    values,
+    lists: {
+      offers: offers.map((offer) => ({
+        name: offer.name,
+        link: offer.link,
+        key: offer.key ?? "",
+      })),
+    },
+  };
+}
+
 export function formatProductMessage(
   product: ProductItem,
   template: string
 ): string {
-  const offersText = product.offers
-    .filter((o) => o.success)
-    .map((o) => `${o.name}:\n${o.link}`)
-    .join("\n\n");
+  return renderTemplate(template, getProductTemplateData(product));
+}
 
-  let formatted = template
-    .replace("{title}", product.title)
-    .replace("{price}", product.price)
-    .replace("{originalPrice}", product.originalPrice)
-    .replace("{discount}", product.discount)
-    .replace("{storeName}", product.storeName)
-    .replace("{shipping_fees}", product.shipping_fees || "Free Shipping")
-    .replace("{evaluateRate}", product.evaluateRate || "N/A")
-    .replace("{orders}", product.orders || "N/A")
-    .replace("{offers}", offersText);
-
-  // Replace specific offer links if they exist
-  product.offers.forEach((offer) => {
-    if (offer.key && offer.success) {
-      formatted = formatted.replace(`{${offer.key}}`, offer.link);
-    }
-  });
+/** Values for the digest header and footer */
+export function getDigestTemplateData(count: number): TemplateData {
+  return {
+    values: {
+      count: String(count),
+      date: new Date().toLocaleDateString(),
+    },
+  };
+}
 
-  // Clean up any unused specific link placeholders
-  const specificLinkKeys = [
-    "{coin_link}", "{direct_link}", "{super_link}", "{big_save_link}",
-    "{limited_link}", "{potential_link}", "{bundle_direct_link}", "{bundle_page_link}"
-  ];
-  specificLinkKeys.forEach(key => {
-    formatted = formatted.replace(key, "");
+/**
+ * Formats several products as one message. {count} and {date} work in the
+ * header and footer, {index} in the item block; empty sections are left out.
+ */
+export function formatDigestMessage(
+  products: ProductItem[],
+  template: DigestTemplate,
+): string {
+  const sectionData = getDigestTemplateData(products.length);
+  const items = products.map((product, index) => {
+    const data = getProductTemplateData(product);
+    return renderTemplate(template.item, {
+      ...data,
+      values: { ...data.values, index: String(index + 1) },
+    });
   });
 
-  return formatted;
+  return [
+    renderTemplate(template.header, sectionData),
+    ...items,
+    renderTemplate(template.footer, sectionData),
+  ]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("\n\n");
 }
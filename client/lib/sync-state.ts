@@ -0,0 +1,141 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { ProductItem } from "@/lib/storage";
+import type { SyncKey } from "@shared/sync";
+
+const QUEUE_STORAGE_KEY = "offers365_sync_queue";
+const STATE_STORAGE_KEY = "offers365_sync_state";
+
+type SyncChange =
+  | { type: "entry"; key: SyncKey; updatedAt: string }
+  | { type: "saveProduct"; product: ProductItem }
+  | { type: "deleteProduct"; productId: string }
+  | { type: "clearHistory" };
+
+/** A change made on this device that has not reached the server yet */
+export type SyncOperation = SyncChange & { id: string };
+
+interface SyncState {
+  /** When each synced value was last written on this device */
+  updatedAt: Partial<Record<SyncKey, string>>;
+  /** Server time of the last pull */
+  cursor: string | null;
+}
+
+const EMPTY_STATE: SyncState = { updatedAt: {}, cursor: null };
+
+const queuedListeners = new Set<() => void>();
+
+// Read-modify-write updates run one at a time so that concurrent changes
+// don't overwrite each other
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(update: () => Promise<T>): Promise<T> {
+  const run = pendingUpdate.then(update);
+  pendingUpdate = run.catch(() => undefined);
+  return run;
+}
+
+function createOperationId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Later operations make earlier ones on the same data redundant
+function supersedes(next: SyncChange, queued: SyncOperation): boolean {
+  switch (next.type) {
+    case "entry":
+      return queued.type === "entry" && queued.key === next.key;
+    case "saveProduct":
+    case "deleteProduct": {
+      const productId =
+        next.type === "saveProduct" ? next.product.productId : next.productId;
+      return (
+        (queued.type === "saveProduct" &&
+          queued.product.productId === productId) ||
+        (queued.type === "deleteProduct" && queued.productId === productId)
+      );
+    }
+    case "clearHistory":
+      return queued.type !== "entry";
+  }
+}
+
+export async function getSyncQueue(): Promise<SyncOperation[]> {
+  try {
+    const data = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function enqueueSyncOperation(
+  operation: SyncChange,
+): Promise<void> {
+  await serialize(async () => {
+    const queue = await getSyncQueue();
+    const next = queue.filter((queued) => !supersedes(operation, queued));
+    next.push({ ...operation, id: createOperationId() });
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(next));
+  });
+  queuedListeners.forEach((listener) => listener());
+}
+
+export function removeSyncOperations(ids: string[]): Promise<void> {
+  return serialize(async () => {
+    const queue = await getSyncQueue();
+    await AsyncStorage.setItem(
+      QUEUE_STORAGE_KEY,
+      JSON.stringify(queue.filter((operation) => !ids.includes(operation.id))),
+    );
+  });
+}
+
+/** Registers a callback for every change queued on this device */
+export function onSyncQueued(listener: () => void): () => void {
+  queuedListeners.add(listener);
+  return () => {
+    queuedListeners.delete(listener);
+  };
+}
+
+export async function getSyncState(): Promise<SyncState> {
+  try {
+    const data = await AsyncStorage.getItem(STATE_STORAGE_KEY);
+    return data ? { ...EMPTY_STATE, ...JSON.parse(data) } : EMPTY_STATE;
+  } catch {
+    return EMPTY_STATE;
+  }
+}
+
+export function updateSyncState(
+  update: (state: SyncState) => SyncState,
+): Promise<void> {
+  return serialize(async () => {
+    const state = await getSyncState();
+    await AsyncStorage.setItem(
+      STATE_STORAGE_KEY,
+      JSON.stringify(update(state)),
+    );
+  });
+}
+
+/** Stamps a local write of a synced value and queues it for upload */
+export async function recordSyncChange(key: SyncKey): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  await updateSyncState((state) => ({
+    ...state,
+    updatedAt: { ...state.updatedAt, [key]: updatedAt },
+  }));
+  await enqueueSyncOperation({ type: "entry", key, updatedAt });
+}
+
+/**
+ * Forgets pending changes and sync progress, so the next account signed in
+ * on this device starts from its own server data.
+ */
+export function resetSyncState(): Promise<void> {
+  return serialize(() =>
+    AsyncStorage.multiRemove([QUEUE_STORAGE_KEY, STATE_STORAGE_KEY]),
+  );
+}
@@ -0,0 +1,286 @@
+import { AppState } from "react-native";
+
+import { ApiRequestError, requestJson } from "@/lib/query-client";
+import {
+  applySyncValue,
+  cacheRecentProducts,
+  getSyncValue,
+  type ProductItem,
+} from "@/lib/storage";
+import {
+  getSyncQueue,
+  getSyncState,
+  onSyncQueued,
+  recordSyncChange,
+  removeSyncOperations,
+  updateSyncState,
+  type SyncOperation,
+} from "@/lib/sync-state";
+import {
+  isNewerWrite,
+  SYNC_KEYS,
+  type SyncEntry,
+  type SyncPullResponse,
+} from "@shared/sync";
+import type { HistoryPage } from "@shared/history";
+
+// Local changes are batched briefly, e.g. while a setting is being typed
+const FLUSH_DELAY_MS = 2000;
+const CACHED_HISTORY_SIZE = 100;
+
+const appliedListeners = new Set<() => void>();
+
+let flushChain: Promise<boolean> = Promise.resolve(true);
+let syncPromise: Promise<void> | null = null;
+
+/**
+ * Registers a callback for when values from another device were stored
+ * locally, so screens holding settings can reload them.
+ */
+export function onSyncApplied(listener: () => void): () => void {
+  appliedListeners.add(listener);
+  return () => {
+    appliedListeners.delete(listener);
+  };
+}
+
+// Rejected requests would fail the same way on every retry. Batches that
+// are too large are split up instead, see sendEntries
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof ApiRequestError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    ![401, 408, 413, 429].includes(error.status)
+  );
+}
+
+function isTooLarge(error: unknown): boolean {
+  return error instanceof ApiRequestError && error.status === 413;
+}
+
+async function applyEntries(entries: SyncEntry[]): Promise<void> {
+  const { updatedAt } = await getSyncState();
+  const newer = entries.filter((entry) =>
+    isNewerWrite(entry.updatedAt, updatedAt[entry.key]),
+  );
+  if (newer.length === 0) return;
+
+  for (const entry of newer) {
+    await applySyncValue(entry.key, entry.value);
+  }
+  await updateSyncState((state) => ({
+    ...state,
+    updatedAt: {
+      ...state.updatedAt,
+      ...Object.fromEntries(newer.map((entry) => [entry.key, entry.updatedAt])),
+    },
+  }));
+  appliedListeners.forEach((listener) => listener());
+}
+
+async function pushEntries(
+  operations: Extract<SyncOperation, { type: "entry" }>[],
+): Promise<void> {
+  const changes = [];
+  for (const operation of operations) {
+    const value = await getSyncValue(operation.key);
+    if (value !== null) {
+      changes.push({
+        key: operation.key,
+        value,
+        updatedAt: operation.updatedAt,
+      });
+    }
+  }
+  if (changes.length === 0) return;
+
+  const { entries } = await requestJson<{ entries: SyncEntry[] }>(
+    "POST",
+    "/api/sync",
+    { changes },
+    "Failed to sync changes",
+  );
+  await applyEntries(entries);
+}
+
+async function sendHistoryOperation(operation: SyncOperation): Promise<void> {
+  switch (operation.type) {
+    case "saveProduct":
+      await requestJson(
+        "PUT",
+        `/api/history/${encodeURIComponent(operation.product.productId)}`,
+        operation.product,
+        "Failed to save product",
+      );
+      break;
+    case "deleteProduct":
+      await requestJson(
+        "DELETE",
+        `/api/history/${encodeURIComponent(operation.productId)}`,
+        undefined,
+        "Failed to delete product",
+      );
+      break;
+    case "clearHistory":
+      await requestJson(
+        "DELETE",
+        "/api/history",
+        undefined,
+        "Failed to clear history",
+      );
+      break;
+  }
+}
+
+// Rejected changes are dropped; any other failure keeps them queued
+async function sendOperations(
+  operations: SyncOperation[],
+  send: () => Promise<void>,
+): Promise<void> {
+  try {
+    await send();
+  } catch (error) {
+    if (!isPermanentFailure(error)) throw error;
+    console.error("Dropping rejected changes:", error);
+  }
+  await removeSyncOperations(operations.map((operation) => operation.id));
+}
+
+// A batch the server finds too large is sent again one value at a time, so
+// one large value does not hold back the others. Collections are capped
+// below the limit when saved, so a single value that is still too large
+// can only be dropped.
+async function sendEntries(
+  entries: Extract<SyncOperation, { type: "entry" }>[],
+): Promise<void> {
+  try {
+    await sendOperations(entries, () => pushEntries(entries));
+  } catch (error) {
+    if (!isTooLarge(error)) throw error;
+    if (entries.length === 1) {
+      console.error(`Dropping ${entries[0].key}, too large to sync:`, error);
+      await removeSyncOperations([entries[0].id]);
+      return;
+    }
+    for (const entry of entries) {
+      await sendEntries([entry]);
+    }
+  }
+}
+
+// History changes are sent oldest first and sending stops at the first
+// failure, so they reach the server in the order they were made
+async function sendQueuedOperations(): Promise<boolean> {
+  const queue = await getSyncQueue();
+  const entries = queue.filter((operation) => operation.type === "entry");
+
+  try {
+    if (entries.length > 0) {
+      await sendEntries(entries);
+    }
+    for (const operation of queue) {
+      if (operation.type !== "entry") {
+        await sendOperations([operation], () =>
+          sendHistoryOperation(operation),
+        );
+      }
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to send queued changes:", error);
+    return false;
+  }
+}
+
+/**
+ * Sends the changes queued on this device. Resolves to false while some
+ * could not be sent, e.g. when offline; they stay queued for the next try.
+ */
+export function flushSyncQueue(): Promise<boolean> {
+  flushChain = flushChain.then(sendQueuedOperations);
+  return flushChain;
+}
+
+async function pullChanges(): Promise<void> {
+  const { cursor, updatedAt } = await getSyncState();
+  const query = cursor ? `?since=${encodeURIComponent(cursor)}` : "";
+  const { entries, serverTime } = await requestJson<SyncPullResponse>(
+    "GET",
+    `/api/sync${query}`,
+    undefined,
+    "Failed to load synced data",
+  );
+  await applyEntries(entries);
+
+  // Values saved before sync existed are uploaded on the first pull,
+  // unless the account already has newer ones. Another account's values
+  // never get here: they are cleared when a different user signs in
+  if (!cursor) {
+    for (const key of SYNC_KEYS) {
+      const isRemote = entries.some((entry) => entry.key === key);
+      if (!isRemote && !updatedAt[key] && (await getSyncValue(key)) !== null) {
+        await recordSyncChange(key);
+      }
+    }
+  }
+  await updateSyncState((state) => ({ ...state, cursor: serverTime }));
+
+  const history = await requestJson<HistoryPage<ProductItem>>(
+    "GET",
+    `/api/history?limit=${CACHED_HISTORY_SIZE}`,
+    undefined,
+    "Failed to load history",
+  );
+  // Skipped when products were saved meanwhile; the next sync caches them
+  if ((await getSyncQueue()).length === 0) {
+    await cacheRecentProducts(history.items);
+  }
+}
+
+async function runSync(): Promise<void> {
+  // Pulling over unsent history changes would drop them from the cache
+  if (!(await flushSyncQueue())) return;
+  try {
+    await pullChanges();
+  } catch (error) {
+    console.error("Failed to pull synced data:", error);
+  }
+}
+
+/** Sends pending changes, then fetches what other devices changed */
+export function syncNow(): Promise<void> {
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+/**
+ * Keeps this device in sync while a user is signed in: on start, whenever
+ * the app returns to the foreground and shortly after local changes.
+ * Returns a function that stops syncing.
+ */
+export function startCloudSync(): () => void {
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const unsubscribe = onSyncQueued(() => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flushSyncQueue();
+    }, FLUSH_DELAY_MS);
+  });
+  const subscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") syncNow();
+  });
+  syncNow();
+
+  return () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    unsubscribe();
+    subscription.remove();
+  };
+}
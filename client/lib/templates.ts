@@ -0,0 +1,158 @@
+import { z } from "zod";
+
+import {
+  getTemplateLibrary,
+  saveTemplateLibrary,
+  type NamedTemplate,
+} from "@/lib/storage";
+
+export const MAX_TEMPLATES = 50;
+
+const EXPORT_FORMAT = "offers365.templates";
+const EXPORT_VERSION = 1;
+
+// Shape of the JSON handed between users
+const templateExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  templates: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(60),
+        body: z.string(),
+      }),
+    )
+    .min(1),
+});
+
+export class TemplateLimitError extends Error {
+  constructor() {
+    super("Template limit reached");
+    this.name = "TemplateLimitError";
+  }
+}
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateImportError";
+  }
+}
+
+function createTemplateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function newTemplate(name: string, body: string): NamedTemplate {
+  return {
+    id: createTemplateId(),
+    name: name.trim(),
+    body,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function updateTemplates(
+  update: (templates: NamedTemplate[]) => NamedTemplate[],
+): Promise<NamedTemplate[]> {
+  const templates = update(await getTemplateLibrary());
+  if (templates.length > MAX_TEMPLATES) throw new TemplateLimitError();
+  await saveTemplateLibrary(templates);
+  return templates;
+}
+
+export async function createTemplate(
+  name: string,
+  body: string,
+): Promise<{ template: NamedTemplate; templates: NamedTemplate[] }> {
+  const template = newTemplate(name, body);
+  const templates = await updateTemplates((existing) => [
+    ...existing,
+    template,
+  ]);
+  return { template, templates };
+}
+
+/** Adds a copy right after the original */
+export async function duplicateTemplate(
+  templateId: string,
+  name: string,
+): Promise<{ template: NamedTemplate; templates: NamedTemplate[] }> {
+  const original = (await getTemplateLibrary()).find(
+    (template) => template.id === templateId,
+  );
+  if (!original) throw new Error("Template not found");
+
+  const copy = newTemplate(name, original.body);
+  const templates = await updateTemplates((existing) =>
+    existing.flatMap((template) =>
+      template.id === templateId ? [template, copy] : [template],
+    ),
+  );
+  return { template: copy, templates };
+}
+
+export async function updateTemplate(
+  templateId: string,
+  changes: Partial<Pick<NamedTemplate, "name" | "body">>,
+): Promise<NamedTemplate[]> {
+  return updateTemplates((templates) =>
+    templates.map((template) =>
+      template.id === templateId
+        ? {
+            ...template,
+            ...changes,
+            name: (changes.name ?? template.name).trim(),
+          }
+        : template,
+    ),
+  );
+}
+
+export async function deleteTemplate(
+  templateId: string,
+): Promise<NamedTemplate[]> {
+  return updateTemplates((templates) =>
+    templates.filter((template) => template.id !== templateId),
+  );
+}
+
+export function exportTemplates(templates: NamedTemplate[]): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      templates: templates.map(({ name, body }) => ({ name, body })),
+    },
+    null,
+    2,
+  );
+}
+
+/** Adds the templates from an export to the library, keeping existing ones */
+export async function importTemplates(
+  json: string,
+): Promise<{ imported: number; templates: NamedTemplate[] }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new TemplateImportError("Not valid JSON");
+  }
+
+  const parsed = templateExportSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new TemplateImportError(
+      parsed.error.errors[0]?.message || "Not a template export",
+    );
+  }
+
+  const imported = parsed.data.templates.map(({ name, body }) =>
+    newTemplate(name, body),
+  );
+  const templates = await updateTemplates((existing) => [
+    ...existing,
+    ...imported,
+  ]);
+  return { imported: imported.length, templates };
+}
@@ -0,0 +1,103 @@
+import { requestJson } from "@/lib/query-client";
+import type { ProductItem } from "@/lib/storage";
+import type { PriceAlert, WatchlistItem, WatchTarget } from "@shared/watchlist";
+
+export async function fetchWatchlist(): Promise<WatchlistItem[]> {
+  return requestJson<WatchlistItem[]>(
+    "GET",
+    "/api/watchlist",
+    undefined,
+    "Failed to load the watchlist",
+  );
+}
+
+/**
+ * Watches a product from its current price. Watching a product again
+ * replaces its target.
+ */
+export async function watchProduct(
+  product: ProductItem,
+  target: WatchTarget,
+): Promise<WatchlistItem> {
+  return requestJson<WatchlistItem>(
+    "POST",
+    "/api/watchlist",
+    {
+      productId: product.productId,
+      title: product.title,
+      imageUrl: product.imageUrl,
+      price: product.price,
+      ...target,
+    },
+    "Failed to watch this product",
+  );
+}
+
+export async function updateWatch(
+  id: string,
+  target: WatchTarget,
+): Promise<WatchlistItem> {
+  return requestJson<WatchlistItem>(
+    "PATCH",
+    `/api/watchlist/${id}`,
+    target,
+    "Failed to update the watch",
+  );
+}
+
+export async function removeWatch(id: string): Promise<void> {
+  await requestJson(
+    "DELETE",
+    `/api/watchlist/${id}`,
+    undefined,
+    "Failed to remove the watch",
+  );
+}
+
+export async function checkWatchNow(id: string): Promise<WatchlistItem> {
+  return requestJson<WatchlistItem>(
+    "POST",
+    `/api/watchlist/${id}/check`,
+    undefined,
+    "Failed to check the price",
+  );
+}
+
+export async function fetchPriceAlerts(): Promise<PriceAlert[]> {
+  return requestJson<PriceAlert[]>(
+    "GET",
+    "/api/alerts",
+    undefined,
+    "Failed to load price alerts",
+  );
+}
+
+export async function markPriceAlertsRead(): Promise<void> {
+  await requestJson(
+    "POST",
+    "/api/alerts/read",
+    undefined,
+    "Failed to update price alerts",
+  );
+}
+
+export async function fetchAlertWebhook(): Promise<string | null> {
+  const { url } = await requestJson<{ url: string | null }>(
+    "GET",
+    "/api/alerts/webhook",
+    undefined,
+    "Failed to load the alert webhook",
+  );
+  return url;
+}
+
+/** An empty URL removes the webhook. */
+export async function saveAlertWebhook(url: string): Promise<string | null> {
+  const result = await requestJson<{ url: string | null }>(
+    "PUT",
+    "/api/alerts/webhook",
+    { url },
+    "Failed to save the alert webhook",
+  );
+  return result.url;
+}
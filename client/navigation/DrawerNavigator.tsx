@@ -9,17 +9,26 @@ import { Feather } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import HomeScreen from "@/screens/HomeScreen";
+import WatchlistScreen from "@/screens/WatchlistScreen";
+import LinkStatsScreen from "@/screens/LinkStatsScreen";
+import EarningsScreen from "@/screens/EarningsScreen";
+import CollectionsScreen from "@/screens/CollectionsScreen";
 import SettingsScreen from "@/screens/SettingsScreen";
 import MessageDesignScreen from "@/screens/MessageDesignScreen";
 import AppGuideScreen from "@/screens/AppGuideScreen";
 import { ThemedText } from "@/components/ThemedText";
 import { SocialLinks } from "@/components/SocialLinks";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { useAuth } from "@/contexts/AuthContext";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
 export type DrawerParamList = {
   Home: undefined;
+  Watchlist: undefined;
+  LinkStats: undefined;
+  Earnings: undefined;
+  Collections: undefined;
   Settings: undefined;
   MessageDesign: undefined;
   AppGuide: undefined;
@@ -69,14 +78,35 @@ function DrawerItem({ label, icon, isActive, onPress }: DrawerItemProps) {
 function CustomDrawerContent(props: DrawerContentComponentProps) {
   const { theme } = useTheme();
   const { logout } = useAuth();
+  const { t } = useTranslation();
   const insets = useSafeAreaInsets();
   const { state, navigation } = props;
 
   const menuItems: { name: keyof DrawerParamList; label: string; icon: keyof typeof Feather.glyphMap }[] = [
-    { name: "Home", label: "Home", icon: "home" },
-    { name: "Settings", label: "Settings", icon: "settings" },
-    { name: "MessageDesign", label: "Message Design", icon: "edit-3" },
-    { name: "AppGuide", label: "App Guide", icon: "book-open" },
+    { name: "Home", label: t("navigation.home"), icon: "home" },
+    { name: "Watchlist", label: t("navigation.watchlist"), icon: "bell" },
+    {
+      name: "LinkStats",
+      label: t("navigation.linkStats"),
+      icon: "bar-chart-2",
+    },
+    {
+      name: "Earnings",
+      label: t("navigation.earnings"),
+      icon: "dollar-sign",
+    },
+    {
+      name: "Collections",
+      label: t("navigation.collections"),
+      icon: "folder",
+    },
+    { name: "Settings", label: t("navigation.settings"), icon: "settings" },
+    {
+      name: "MessageDesign",
+      label: t("navigation.messageDesign"),
+      icon: "edit-3",
+    },
+    { name: "AppGuide", label: t("navigation.appGuide"), icon: "book-open" },
   ];
 
   const handleLogout = async () => {
@@ -103,7 +133,7 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
           Offers 365
         </ThemedText>
         <ThemedText type="small" style={{ color: theme.textSecondary }}>
-          AliExpress Deals Finder
+          {t("drawer.tagline")}
         </ThemedText>
       </View>
 
@@ -133,7 +163,7 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
         >
           <Feather name="log-out" size={20} color={AppColors.error} />
           <ThemedText type="body" style={styles.logoutText}>
-            تسجيل الخروج
+            {t("drawer.logout")}
           </ThemedText>
         </Pressable>
 
@@ -141,7 +171,7 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
           type="caption"
           style={[styles.version, { color: theme.textSecondary }]}
         >
-          Version 1.0.0
+          {t("drawer.version", { version: "1.0.0" })}
         </ThemedText>
       </View>
     </DrawerContentScrollView>
@@ -150,12 +180,12 @@ function CustomDrawerContent(props: DrawerContentComponentProps) {
 
 export default function DrawerNavigator() {
   const { theme, isDark } = useTheme();
+  const { t, isRTL } = useTranslation();
 
   const shareApp = async () => {
     try {
       await Share.share({
-        message:
-          "Check out Offers 365 - Find the best AliExpress deals! Download now: https://offers365.app",
+        message: t("drawer.shareMessage"),
       });
     } catch (error) {
       console.error("Failed to share:", error);
@@ -171,6 +201,7 @@ export default function DrawerNavigator() {
         },
         headerTintColor: theme.text,
         headerTitleAlign: "center",
+        drawerPosition: isRTL ? "right" : "left",
         drawerStyle: {
           backgroundColor: theme.backgroundRoot,
           width: 280,
@@ -202,25 +233,53 @@ export default function DrawerNavigator() {
           ),
         }}
       />
+      <Drawer.Screen
+        name="Watchlist"
+        component={WatchlistScreen}
+        options={{
+          headerTitle: t("navigation.watchlist"),
+        }}
+      />
+      <Drawer.Screen
+        name="LinkStats"
+        component={LinkStatsScreen}
+        options={{
+          headerTitle: t("navigation.linkStats"),
+        }}
+      />
+      <Drawer.Screen
+        name="Earnings"
+        component={EarningsScreen}
+        options={{
+          headerTitle: t("navigation.earnings"),
+        }}
+      />
+      <Drawer.Screen
+        name="Collections"
+        component={CollectionsScreen}
+        options={{
+          headerTitle: t("navigation.collections"),
+        }}
+      />
       <Drawer.Screen
         name="Settings"
         component={SettingsScreen}
         options={{
-          headerTitle: "Settings",
+          headerTitle: t("navigation.settings"),
         }}
       />
       <Drawer.Screen
         name="MessageDesign"
         component={MessageDesignScreen}
         options={{
-          headerTitle: "Message Design",
+          headerTitle: t("navigation.messageDesign"),
         }}
       />
       <Drawer.Screen
         name="AppGuide"
         component={AppGuideScreen}
         options={{
-          headerTitle: "App Guide",
+          headerTitle: t("navigation.appGuide"),
         }}
       />
     </Drawer.Navigator>
@@ -266,7 +325,7 @@ const styles = StyleSheet.create({
     opacity: 0.7,
   },
   drawerLabel: {
-    marginLeft: Spacing.md,
+    marginStart: Spacing.md,
   },
   footer: {
     paddingHorizontal: Spacing.xl,
@@ -297,7 +356,7 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
   headerButton: {
-    marginRight: Spacing.lg,
+    marginEnd: Spacing.lg,
     padding: Spacing.sm,
   },
   headerButtonPressed: {
@@ -308,7 +367,7 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   headerTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
     color: AppColors.primary,
   },
 });
@@ -5,8 +5,10 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import DrawerNavigator from "@/navigation/DrawerNavigator";
 import AuthNavigator from "@/navigation/AuthNavigator";
 import ProductDetailsScreen from "@/screens/ProductDetailsScreen";
+import CollectionScreen from "@/screens/CollectionScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useAuth } from "@/contexts/AuthContext";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors } from "@/constants/theme";
 import type { ProductItem } from "@/lib/storage";
 
@@ -14,6 +16,7 @@ export type RootStackParamList = {
   Auth: undefined;
   Main: undefined;
   ProductDetails: { product: ProductItem };
+  Collection: { collectionId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -21,6 +24,7 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 export default function RootStackNavigator() {
   const screenOptions = useScreenOptions({ transparent: false });
   const { isAuthenticated, isLoading } = useAuth();
+  const { t } = useTranslation();
 
   if (isLoading) {
     return (
@@ -43,7 +47,15 @@ export default function RootStackNavigator() {
             name="ProductDetails"
             component={ProductDetailsScreen}
             options={{
-              headerTitle: "Product Details",
+              headerTitle: t("navigation.productDetails"),
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="Collection"
+            component={CollectionScreen}
+            options={{
+              headerTitle: t("navigation.collections"),
               presentation: "card",
             }}
           />
@@ -7,7 +7,16 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { SocialLinks } from "@/components/SocialLinks";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { TranslationKey } from "@/i18n";
+
+const TIP_KEYS: TranslationKey[] = [
+  "guide.tipRecent",
+  "guide.tipDetect",
+  "guide.tipOfferTypes",
+  "guide.tipTemplate",
+];
 
 interface GuideCardProps {
   icon: keyof typeof Feather.glyphMap;
@@ -43,43 +52,38 @@ function GuideCard({ icon, title, description }: GuideCardProps) {
 export default function AppGuideScreen() {
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
+  const { t } = useTranslation();
 
   const guideItems: GuideCardProps[] = [
     {
       icon: "link",
-      title: "Link Input",
-      description:
-        "Paste any AliExpress product link in the input field on the home screen. The app supports all link formats including shortened URLs and links from the AliExpress app.",
+      title: t("guide.linkInputTitle"),
+      description: t("guide.linkInputDescription"),
     },
     {
       icon: "search",
-      title: "Get Offers",
-      description:
-        "Press the 'Get Offers' button to fetch product details and generate multiple affiliate offer links. The app will display all available promotional offers for the product.",
+      title: t("guide.getOffersTitle"),
+      description: t("guide.getOffersDescription"),
     },
     {
       icon: "tag",
-      title: "Understanding Offers",
-      description:
-        "Each offer button represents a different promotional link type: Coin Page, Direct Link, Super Deals, Big Save, Limited Discount, Bundle Deals, and more. Tap to open the offer in AliExpress.",
+      title: t("guide.offersTitle"),
+      description: t("guide.offersDescription"),
     },
     {
       icon: "copy",
-      title: "Copy & Share",
-      description:
-        "Use the copy buttons to copy individual links, product details, or the complete formatted message. Share buttons open your device's share sheet for easy sharing to social media.",
+      title: t("guide.copyShareTitle"),
+      description: t("guide.copyShareDescription"),
     },
     {
       icon: "settings",
-      title: "API Configuration",
-      description:
-        "Go to Settings to enter your AliExpress Affiliate API credentials (APP KEY, APP SECRET, and TRACKING ID). These are required to generate affiliate links.",
+      title: t("guide.apiTitle"),
+      description: t("guide.apiDescription"),
     },
     {
       icon: "edit-3",
-      title: "Message Customization",
-      description:
-        "Visit Message Design to customize how product information is formatted when copied or shared. Use keywords like {title}, {price}, {discount} to create your template.",
+      title: t("guide.messageTitle"),
+      description: t("guide.messageDescription"),
     },
   ];
 
@@ -100,13 +104,13 @@ export default function AppGuideScreen() {
             resizeMode="contain"
           />
           <ThemedText type="h2" style={styles.heroTitle}>
-            Welcome to Offers 365
+            {t("guide.heroTitle")}
           </ThemedText>
           <ThemedText
             type="body"
             style={[styles.heroSubtitle, { color: theme.textSecondary }]}
           >
-            Your ultimate tool for finding the best AliExpress deals
+            {t("guide.heroSubtitle")}
           </ThemedText>
         </View>
 
@@ -114,7 +118,7 @@ export default function AppGuideScreen() {
           <View style={styles.sectionHeader}>
             <Feather name="book-open" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              How to Use
+              {t("guide.howToUse")}
             </ThemedText>
           </View>
 
@@ -137,16 +141,11 @@ export default function AppGuideScreen() {
           <View style={styles.tipHeader}>
             <Feather name="zap" size={20} color={AppColors.accent} />
             <ThemedText type="h4" style={[styles.tipTitle, { color: "#B8860B" }]}>
-              Pro Tips
+              {t("guide.tipsTitle")}
             </ThemedText>
           </View>
           <ThemedText type="small" style={styles.tipText}>
-            {"\u2022"} Recent products are saved for quick access - tap them to view offers
-            without fetching again{"\n"}
-            {"\u2022"} The app detects AliExpress links within any text, so you can paste
-            entire messages{"\n"}
-            {"\u2022"} Try different offer types - some may have better discounts than others{"\n"}
-            {"\u2022"} Customize your message template for consistent sharing across platforms
+            {TIP_KEYS.map((key) => `\u2022 ${t(key)}`).join("\n")}
           </ThemedText>
         </View>
 
@@ -192,7 +191,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
   sectionTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   guideCard: {
     flexDirection: "row",
@@ -208,7 +207,7 @@ const styles = StyleSheet.create({
     backgroundColor: `${AppColors.primary}15`,
     justifyContent: "center",
     alignItems: "center",
-    marginRight: Spacing.md,
+    marginEnd: Spacing.md,
   },
   guideContent: {
     flex: 1,
@@ -228,7 +227,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
   },
   tipTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   tipText: {
     lineHeight: 22,
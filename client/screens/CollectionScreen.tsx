@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  Share,
+  Platform,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  useNavigation,
+  useRoute,
+  useFocusEffect,
+  RouteProp,
+} from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Toast } from "@/components/Toast";
+import { SwipeableProductCard } from "@/components/SwipeableProductCard";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  FAVORITES_COLLECTION_ID,
+  formatProductMessage,
+  getCollections,
+  getCopyAllTemplate,
+  getShareTemplate,
+  type ProductCollection,
+  type ProductItem,
+} from "@/lib/storage";
+import {
+  formatCollectionMessage,
+  removeFromCollection,
+} from "@/lib/collections";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type CollectionRouteProp = RouteProp<RootStackParamList, "Collection">;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export default function CollectionScreen() {
+  const insets = useSafeAreaInsets();
+  const route = useRoute<CollectionRouteProp>();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const { collectionId } = route.params;
+
+  const [collection, setCollection] = useState<ProductCollection | null>(null);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as const,
+  });
+
+  const showToast = (
+    message: string,
+    type: "success" | "error" | "info" = "success",
+  ) => {
+    setToast({ visible: true, message, type: "success" });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  const applyCollections = useCallback(
+    (collections: ProductCollection[]) => {
+      setCollection(
+        collections.find((item) => item.id === collectionId) ?? null,
+      );
+    },
+    [collectionId],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      getCollections().then(applyCollections);
+    }, [applyCollections]),
+  );
+
+  useEffect(() => {
+    if (!collection) return;
+    navigation.setOptions({
+      headerTitle:
+        collection.id === FAVORITES_COLLECTION_ID
+          ? t("collections.favorites")
+          : collection.name,
+    });
+  }, [collection, navigation, t]);
+
+  const products = collection?.products ?? [];
+
+  const shareAll = async () => {
+    if (!collection) return;
+    try {
+      const template = await getShareTemplate();
+      await Share.share({
+        message: formatCollectionMessage(collection, template),
+      });
+    } catch (error) {
+      console.error("Failed to share collection:", error);
+    }
+  };
+
+  const copyAll = async () => {
+    if (!collection) return;
+    try {
+      const template = await getCopyAllTemplate();
+      await Clipboard.setStringAsync(
+        formatCollectionMessage(collection, template),
+      );
+      if (Platform.OS !== "web") {
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success,
+        );
+      }
+      showToast(
+        t("collections.allCopied", { count: products.length }),
+        "success",
+      );
+    } catch {
+      showToast(t("common.copyFailed"), "error");
+    }
+  };
+
+  const shareProduct = async (product: ProductItem) => {
+    try {
+      const template = await getShareTemplate();
+      await Share.share({ message: formatProductMessage(product, template) });
+    } catch (error) {
+      console.error("Failed to share:", error);
+    }
+  };
+
+  const removeProduct = async (product: ProductItem) => {
+    applyCollections(
+      await removeFromCollection(collectionId, product.productId),
+    );
+    showToast(t("collections.removed"), "success");
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        data={products}
+        keyExtractor={(item) => item.productId}
+        renderItem={({ item }) => (
+          <SwipeableProductCard
+            product={item}
+            onPress={() =>
+              navigation.navigate("ProductDetails", { product: item })
+            }
+            onShare={() => shareProduct(item)}
+            onDelete={() => removeProduct(item)}
+          />
+        )}
+        ListHeaderComponent={
+          products.length > 0 ? (
+            <View style={styles.actions}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.actionButton,
+                  { backgroundColor: AppColors.secondary },
+                  pressed && styles.pressed,
+                ]}
+                onPress={shareAll}
+                testID="button-share-collection"
+              >
+                <Feather name="share-2" size={16} color="#FFFFFF" />
+                <ThemedText type="small" style={styles.actionText}>
+                  {t("collections.shareAll")}
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.actionButton,
+                  { backgroundColor: AppColors.primary },
+                  pressed && styles.pressed,
+                ]}
+                onPress={copyAll}
+                testID="button-copy-collection"
+              >
+                <Feather name="copy" size={16} color="#FFFFFF" />
+                <ThemedText type="small" style={styles.actionText}>
+                  {t("collections.copyAll")}
+                </ThemedText>
+              </Pressable>
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Feather name="folder" size={40} color={theme.textSecondary} />
+            <ThemedText type="body" style={styles.emptyTitle}>
+              {t("collections.empty")}
+            </ThemedText>
+            <ThemedText
+              type="small"
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              {t("collections.emptyHint")}
+            </ThemedText>
+          </View>
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  actionText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  emptyTitle: {
+    fontWeight: "600",
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
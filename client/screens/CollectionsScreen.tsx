@@ -0,0 +1,335 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Toast } from "@/components/Toast";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  FAVORITES_COLLECTION_ID,
+  getCollections,
+  type ProductCollection,
+} from "@/lib/storage";
+import {
+  createCollection,
+  deleteCollection,
+  getCollectionErrorMessage,
+  MAX_COLLECTIONS,
+  renameCollection,
+} from "@/lib/collections";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export default function CollectionsScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { t, isRTL } = useTranslation();
+
+  const [collections, setCollections] = useState<ProductCollection[]>([]);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as const,
+  });
+
+  const showToast = (
+    message: string,
+    type: "success" | "error" | "info" = "success",
+  ) => {
+    setToast({ visible: true, message, type: "success" });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      getCollections().then(setCollections);
+    }, []),
+  );
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (collections.length >= MAX_COLLECTIONS) {
+      showToast(
+        t("collections.limitReached", { max: MAX_COLLECTIONS }),
+        "error",
+      );
+      return;
+    }
+    try {
+      const collection = await createCollection(newName);
+      setCollections((prev) => [...prev, collection]);
+      setNewName("");
+    } catch (error) {
+      showToast(getCollectionErrorMessage(error, t), "error");
+    }
+  };
+
+  const startEditing = (collection: ProductCollection) => {
+    setEditingId(collection.id);
+    setEditingName(collection.name);
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    if (editingName.trim()) {
+      setCollections(await renameCollection(editingId, editingName));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (collection: ProductCollection) => {
+    setCollections(await deleteCollection(collection.id));
+    showToast(t("collections.deleted"), "success");
+  };
+
+  const renderCollection = (collection: ProductCollection) => {
+    const isFavorites = collection.id === FAVORITES_COLLECTION_ID;
+    const isEditing = editingId === collection.id;
+    const cover = collection.products.find((product) => product.imageUrl);
+
+    return (
+      <Pressable
+        key={collection.id}
+        style={({ pressed }) => [
+          styles.card,
+          {
+            backgroundColor: theme.backgroundDefault,
+            borderColor: theme.border,
+          },
+          pressed && styles.pressed,
+        ]}
+        onPress={() =>
+          navigation.navigate("Collection", { collectionId: collection.id })
+        }
+        disabled={isEditing}
+        testID={`collection-${collection.id}`}
+      >
+        {cover?.imageUrl ? (
+          <Image
+            source={{ uri: cover.imageUrl }}
+            style={styles.image}
+            contentFit="cover"
+          />
+        ) : (
+          <View
+            style={[
+              styles.image,
+              styles.imagePlaceholder,
+              { backgroundColor: theme.border },
+            ]}
+          >
+            <Feather
+              name={isFavorites ? "star" : "folder"}
+              size={24}
+              color={theme.textSecondary}
+            />
+          </View>
+        )}
+        <View style={styles.cardContent}>
+          {isEditing ? (
+            <TextInput
+              style={[
+                styles.nameInput,
+                { color: theme.text, borderColor: theme.border },
+              ]}
+              value={editingName}
+              onChangeText={setEditingName}
+              onSubmitEditing={handleRename}
+              maxLength={60}
+              autoFocus
+              testID="input-rename-collection"
+            />
+          ) : (
+            <ThemedText type="body" numberOfLines={1} style={styles.name}>
+              {isFavorites ? t("collections.favorites") : collection.name}
+            </ThemedText>
+          )}
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {t("collections.productCount", {
+              count: collection.products.length,
+            })}
+          </ThemedText>
+        </View>
+        {isEditing ? (
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleRename}
+            accessibilityLabel={t("collections.save")}
+            testID="button-save-collection-name"
+          >
+            <Feather name="check" size={18} color={AppColors.primary} />
+          </Pressable>
+        ) : isFavorites ? (
+          <Feather
+            name={isRTL ? "chevron-left" : "chevron-right"}
+            size={20}
+            color={theme.textSecondary}
+          />
+        ) : (
+          <View style={styles.cardActions}>
+            <Pressable
+              style={styles.iconButton}
+              onPress={() => startEditing(collection)}
+              accessibilityLabel={t("collections.rename")}
+              testID={`button-rename-${collection.id}`}
+            >
+              <Feather name="edit-2" size={18} color={AppColors.primary} />
+            </Pressable>
+            <Pressable
+              style={styles.iconButton}
+              onPress={() => handleDelete(collection)}
+              accessibilityLabel={t("collections.delete")}
+              testID={`button-delete-${collection.id}`}
+            >
+              <Feather name="trash-2" size={18} color={AppColors.error} />
+            </Pressable>
+          </View>
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View
+          style={[
+            styles.inputContainer,
+            {
+              backgroundColor: theme.backgroundDefault,
+              borderColor: theme.border,
+            },
+          ]}
+        >
+          <TextInput
+            style={[styles.input, { color: theme.text }]}
+            placeholder={t("collections.newPlaceholder")}
+            placeholderTextColor={theme.textSecondary}
+            value={newName}
+            onChangeText={setNewName}
+            onSubmitEditing={handleCreate}
+            maxLength={60}
+            testID="input-collection-name"
+          />
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleCreate}
+            disabled={!newName.trim()}
+            accessibilityLabel={t("collections.create")}
+            testID="button-add-collection"
+          >
+            <Feather
+              name="plus"
+              size={22}
+              color={newName.trim() ? AppColors.primary : theme.textSecondary}
+            />
+          </Pressable>
+        </View>
+
+        {collections.map(renderCollection)}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  image: {
+    width: 60,
+    height: 60,
+    borderRadius: BorderRadius.sm,
+  },
+  imagePlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  cardContent: {
+    flex: 1,
+    gap: 2,
+  },
+  name: {
+    fontWeight: "600",
+  },
+  nameInput: {
+    height: 36,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    fontSize: 16,
+  },
+  cardActions: {
+    flexDirection: "row",
+  },
+  iconButton: {
+    padding: Spacing.sm,
+  },
+});
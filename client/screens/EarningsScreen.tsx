@@ -0,0 +1,480 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  RefreshControl,
+  ActivityIndicator,
+  Platform,
+  Share,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { File, Paths } from "expo-file-system";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Toast } from "@/components/Toast";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { TranslationKey } from "@/i18n";
+import {
+  exportOrdersCsv,
+  fetchEarningsReport,
+  syncOrders,
+} from "@/lib/orders-api";
+import {
+  formatCommission,
+  getRecentRange,
+  type EarningsGrouping,
+  type EarningsReport,
+  type EarningsRow,
+} from "@shared/orders";
+
+const RANGE_OPTIONS: { days: number; label: TranslationKey }[] = [
+  { days: 7, label: "earnings.range7" },
+  { days: 30, label: "earnings.range30" },
+  { days: 90, label: "earnings.range90" },
+];
+
+const GROUPINGS: { key: EarningsGrouping; label: TranslationKey }[] = [
+  { key: "day", label: "earnings.byDay" },
+  { key: "product", label: "earnings.byProduct" },
+  { key: "trackingId", label: "earnings.byTrackingId" },
+  { key: "offerType", label: "earnings.byOfferType" },
+];
+
+export default function EarningsScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  const [days, setDays] = useState(30);
+  const [grouping, setGrouping] = useState<EarningsGrouping>("day");
+  const [report, setReport] = useState<EarningsReport | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as const,
+  });
+
+  // Kept stable between renders so the report only reloads on a new preset
+  const range = useMemo(() => getRecentRange(days), [days]);
+
+  const showToast = (
+    message: string,
+    type: "success" | "error" | "info" = "success",
+  ) => {
+    setToast({ visible: true, message, type: "success" });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  const showError = (error: unknown) => {
+    showToast(
+      error instanceof Error ? error.message : t("common.requestFailed"),
+      "error",
+    );
+  };
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await fetchEarningsReport(range));
+    } catch (error) {
+      console.error("Failed to load earnings report:", error);
+    }
+  }, [range]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [loadReport]),
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadReport();
+    setIsRefreshing(false);
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncOrders(range);
+      await loadReport();
+      showToast(
+        t(result.complete ? "earnings.synced" : "earnings.syncedPartial", {
+          count: result.fetched,
+        }),
+        "success",
+      );
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // iOS shares the file itself; elsewhere the CSV is shared as text
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const csv = await exportOrdersCsv(range);
+      if (Platform.OS === "ios") {
+        const file = new File(
+          Paths.cache,
+          `orders_${range.from}_${range.to}.csv`,
+        );
+        file.write(csv);
+        await Share.share({ url: file.uri });
+      } else {
+        await Share.share({ message: csv });
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Amounts in different currencies are shown apart, never added up
+  const earnings =
+    report?.currencies.find((entry) => entry.currency === currency) ??
+    report?.currencies[0];
+  const currencyCode = earnings?.currency ?? "USD";
+  const rows = earnings?.groups[grouping] ?? [];
+  const orderCount = earnings?.totals.orders ?? 0;
+
+  const getRowLabel = (row: EarningsRow) => {
+    if (grouping === "offerType" && !row.label) {
+      return t("earnings.unattributed");
+    }
+    if (grouping === "day") {
+      return new Date(`${row.key}T00:00:00Z`).toLocaleDateString(undefined, {
+        timeZone: "UTC",
+      });
+    }
+    return row.label;
+  };
+
+  const renderRow = (row: EarningsRow) => (
+    <View
+      key={row.key}
+      style={[
+        styles.card,
+        { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
+      ]}
+      testID={`earnings-${grouping}-${row.key}`}
+    >
+      <View style={styles.cardContent}>
+        <ThemedText type="small" numberOfLines={2}>
+          {getRowLabel(row)}
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {t("earnings.rowDetails", {
+            orders: row.orders,
+            settled: formatCommission(row.settledCommission, currencyCode),
+          })}
+        </ThemedText>
+      </View>
+      <ThemedText type="body" style={styles.amount}>
+        {formatCommission(row.estimatedCommission, currencyCode)}
+      </ThemedText>
+    </View>
+  );
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected
+            ? AppColors.primary
+            : theme.backgroundSecondary,
+        },
+      ]}
+      onPress={onPress}
+      testID={`earnings-chip-${key}`}
+    >
+      <ThemedText
+        type="small"
+        style={{ color: isSelected ? "#FFFFFF" : theme.text }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+      >
+        <View style={styles.chipRow}>
+          {RANGE_OPTIONS.map((option) =>
+            renderChip(
+              `range-${option.days}`,
+              t(option.label),
+              option.days === days,
+              () => setDays(option.days),
+            ),
+          )}
+        </View>
+
+        {report && report.currencies.length > 1 ? (
+          <View style={styles.chipRow}>
+            {report.currencies.map((entry) =>
+              renderChip(
+                `currency-${entry.currency}`,
+                entry.currency,
+                entry.currency === currencyCode,
+                () => setCurrency(entry.currency),
+              ),
+            )}
+          </View>
+        ) : null}
+
+        <View style={styles.summaryRow}>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={{ color: AppColors.primary }}>
+              {formatCommission(
+                earnings?.totals.estimatedCommission ?? 0,
+                currencyCode,
+              )}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("earnings.estimated")}
+            </ThemedText>
+          </View>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4" style={{ color: AppColors.success }}>
+              {formatCommission(
+                earnings?.totals.settledCommission ?? 0,
+                currencyCode,
+              )}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("earnings.settled")}
+            </ThemedText>
+          </View>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h4">{orderCount}</ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("earnings.orders")}
+            </ThemedText>
+          </View>
+        </View>
+
+        <ThemedText
+          type="caption"
+          style={[styles.syncStatus, { color: theme.textSecondary }]}
+        >
+          {report?.lastSyncedAt
+            ? t("earnings.lastSynced", {
+                date: new Date(report.lastSyncedAt).toLocaleString(),
+              })
+            : t("earnings.neverSynced")}
+        </ThemedText>
+
+        <View style={styles.actions}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.actionButton,
+              { backgroundColor: AppColors.primary },
+              isSyncing && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={handleSync}
+            disabled={isSyncing}
+            testID="button-sync-orders"
+          >
+            {isSyncing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Feather name="refresh-cw" size={16} color="#FFFFFF" />
+            )}
+            <ThemedText type="small" style={styles.actionButtonText}>
+              {t("earnings.sync")}
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.actionButton,
+              { borderColor: theme.border, borderWidth: 1 },
+              (isExporting || !orderCount) && styles.disabled,
+              pressed && styles.pressed,
+            ]}
+            onPress={handleExport}
+            disabled={isExporting || !orderCount}
+            testID="button-export-orders"
+          >
+            <Feather name="download" size={16} color={theme.text} />
+            <ThemedText type="small">{t("earnings.exportCsv")}</ThemedText>
+          </Pressable>
+        </View>
+
+        <View style={styles.chipRow}>
+          {GROUPINGS.map((option) =>
+            renderChip(
+              option.key,
+              t(option.label),
+              option.key === grouping,
+              () => setGrouping(option.key),
+            ),
+          )}
+        </View>
+
+        {rows.length > 0 ? (
+          rows.map(renderRow)
+        ) : (
+          <View style={styles.emptyState}>
+            <ThemedText type="body" style={styles.emptyTitle}>
+              {t("earnings.empty")}
+            </ThemedText>
+            <ThemedText
+              type="small"
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              {t("earnings.emptyHint")}
+            </ThemedText>
+          </View>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    gap: Spacing.xs,
+  },
+  syncStatus: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  actionButtonText: {
+    color: "#FFFFFF",
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  cardContent: {
+    flex: 1,
+    gap: 2,
+  },
+  amount: {
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+  },
+  emptyTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
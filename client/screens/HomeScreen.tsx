@@ -8,57 +8,172 @@ import {
   Pressable,
   Image,
   Platform,
+  Share,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { DrawerNavigationProp } from "@react-navigation/drawer";
 import { Feather } from "@expo/vector-icons";
 import * as Clipboard from "expo-clipboard";
 import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { ProductCard } from "@/components/ProductCard";
+import { SwipeableProductCard } from "@/components/SwipeableProductCard";
+import {
+  DEFAULT_HISTORY_FILTERS,
+  HistoryFilterBar,
+  hasActiveFilters,
+  toHistoryQuery,
+} from "@/components/HistoryFilterBar";
 import { SocialLinks } from "@/components/SocialLinks";
 import { LoadingOverlay } from "@/components/LoadingOverlay";
 import { Toast } from "@/components/Toast";
+import {
+  BatchProgressList,
+  type BatchItem,
+} from "@/components/BatchProgressList";
+import { ProfilePicker } from "@/components/ProfilePicker";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import {
-  getRecentProducts,
-  saveProduct,
-  clearRecentProducts,
+  formatDigestMessage,
+  formatProductMessage,
+  getDigestTemplate,
+  getShareTemplate,
   getSettings,
+  saveSettings,
+  hasApiCredentials,
+  getCollections,
   ProductItem,
+  ProductCollection,
+  TrackingProfile,
 } from "@/lib/storage";
-import { getApiUrl } from "@/lib/query-client";
+import {
+  getCollectionErrorMessage,
+  isFavorite,
+  toggleFavorite,
+} from "@/lib/collections";
+import { fetchProduct, fetchProductsBatch } from "@/lib/product-api";
+import { fetchPriceAlerts } from "@/lib/watchlist-api";
+import {
+  clearHistory,
+  deleteHistoryProduct,
+  fetchHistory,
+  fetchHistoryCategories,
+  recordProduct,
+} from "@/lib/history-api";
+import { extractProductLinks } from "@shared/links";
+import type { HistoryQuery } from "@shared/history";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import type { DrawerParamList } from "@/navigation/DrawerNavigator";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const BATCH_CHUNK_SIZE = 5;
+const HISTORY_PAGE_SIZE = 30;
+const FILTER_DEBOUNCE_MS = 300;
+
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
+  const drawerNavigation =
+    useNavigation<DrawerNavigationProp<DrawerParamList>>();
   const { theme } = useTheme();
+  const { t } = useTranslation();
 
   const [linkInput, setLinkInput] = useState("");
   const [recentProducts, setRecentProducts] = useState<ProductItem[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filters, setFilters] = useState(DEFAULT_HISTORY_FILTERS);
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>(() =>
+    toHistoryQuery(DEFAULT_HISTORY_FILTERS),
+  );
+  const [categories, setCategories] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState("Searching for offers...");
+  const [loadingMessage, setLoadingMessage] = useState(t("home.searching"));
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [profiles, setProfiles] = useState<TrackingProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+  const [collections, setCollections] = useState<ProductCollection[]>([]);
+  // Products picked for a digest, in the order they were selected
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedProducts, setSelectedProducts] = useState<ProductItem[]>([]);
   const [toast, setToast] = useState({ visible: false, message: "", type: "success" as const });
 
+  // Typing in the search box waits for a pause before querying
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setHistoryQuery(toHistoryQuery(filters)),
+      FILTER_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [filters]);
+
   const loadRecentProducts = useCallback(async () => {
-    const products = await getRecentProducts();
-    setRecentProducts(products);
+    const page = await fetchHistory({
+      ...historyQuery,
+      limit: HISTORY_PAGE_SIZE,
+      offset: 0,
+    });
+    setRecentProducts(page.items);
+    setHistoryTotal(page.total);
+    setCategories(await fetchHistoryCategories());
+  }, [historyQuery]);
+
+  const loadMoreProducts = async () => {
+    if (isLoadingMore || recentProducts.length >= historyTotal) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchHistory({
+        ...historyQuery,
+        limit: HISTORY_PAGE_SIZE,
+        offset: recentProducts.length,
+      });
+      setRecentProducts((prev) => [...prev, ...page.items]);
+      setHistoryTotal(page.total);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadProfiles = useCallback(async () => {
+    const settings = await getSettings();
+    setProfiles(settings.profiles);
+    setActiveProfileId(settings.activeProfileId);
+  }, []);
+
+  const loadUnreadAlerts = useCallback(async () => {
+    try {
+      const alerts = await fetchPriceAlerts();
+      setUnreadAlerts(alerts.filter((alert) => !alert.readAt).length);
+    } catch (error) {
+      console.error("Failed to load price alerts:", error);
+    }
   }, []);
 
   useFocusEffect(
     useCallback(() => {
       loadRecentProducts();
-    }, [loadRecentProducts])
+      loadProfiles();
+      loadUnreadAlerts();
+      getCollections().then(setCollections);
+    }, [loadRecentProducts, loadProfiles, loadUnreadAlerts]),
   );
 
+  const handleProfileSelect = async (profileId: string | null) => {
+    const settings = await getSettings();
+    await saveSettings({ ...settings, activeProfileId: profileId });
+    setActiveProfileId(profileId);
+  };
+
   const showToast = (message: string, type: "success" | "error" | "info" = "success") => {
     setToast({ visible: true, message, type: "success" }); // Temporary hack to match Toast component expectation
   };
@@ -69,41 +184,24 @@ export default function HomeScreen() {
 
   const getOffers = async () => {
     if (!linkInput.trim()) {
-      showToast("Please enter an AliExpress product link", "error");
+      showToast(t("common.enterProductLink"), "error");
       return;
     }
 
     const settings = await getSettings();
-    if (!settings.appKey || !settings.appSecret || !settings.trackingId) {
-      showToast("Please configure API keys in Settings first", "error");
+    if (!hasApiCredentials(settings)) {
+      showToast(t("common.configureApiKeys"), "error");
       return;
     }
 
     setIsLoading(true);
-    setLoadingMessage("Extracting product information...");
+    setLoadingMessage(t("home.extracting"));
 
     try {
-      const apiUrl = getApiUrl();
-      const response = await fetch(new URL("/api/product", apiUrl).href, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          url: linkInput.trim(),
-          appKey: settings.appKey,
-          appSecret: settings.appSecret,
-          trackingId: settings.trackingId,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to fetch product");
-      }
+      const product = await fetchProduct(linkInput.trim(), settings);
+      setLoadingMessage(t("home.generatingLinks"));
 
-      setLoadingMessage("Generating affiliate links...");
-      const product: ProductItem = await response.json();
-
-      await saveProduct(product);
+      await recordProduct(product);
       await loadRecentProducts();
 
       if (Platform.OS !== "web") {
@@ -115,7 +213,9 @@ export default function HomeScreen() {
     } catch (error) {
       console.error("Failed to get offers:", error);
       showToast(
-        error instanceof Error ? error.message : "Failed to fetch product",
+        error instanceof Error
+          ? error.message
+          : t("common.failedToFetchProduct"),
         "error"
       );
     } finally {
@@ -123,6 +223,90 @@ export default function HomeScreen() {
     }
   };
 
+  const updateBatchItems = (urls: string[], update: Partial<BatchItem>) => {
+    setBatchItems((prev) =>
+      prev.map((item) =>
+        urls.includes(item.url) ? { ...item, ...update } : item,
+      ),
+    );
+  };
+
+  const getBatchOffers = async () => {
+    const links = extractProductLinks(linkInput);
+    if (links.length === 0) {
+      showToast(t("home.noLinksFound"), "error");
+      return;
+    }
+
+    const settings = await getSettings();
+    if (!hasApiCredentials(settings)) {
+      showToast(t("common.configureApiKeys"), "error");
+      return;
+    }
+
+    setIsBatchRunning(true);
+    setBatchItems(links.map((url) => ({ url, status: "pending" })));
+
+    let succeeded = 0;
+
+    for (let i = 0; i < links.length; i += BATCH_CHUNK_SIZE) {
+      const chunk = links.slice(i, i + BATCH_CHUNK_SIZE);
+      updateBatchItems(chunk, { status: "loading" });
+
+      try {
+        const results = await fetchProductsBatch(chunk, settings);
+
+        for (const [index, url] of chunk.entries()) {
+          const result = results.find((r) => r.url === url) || results[index];
+          if (result?.success && result.product) {
+            await recordProduct(result.product);
+            succeeded++;
+            updateBatchItems([url], {
+              status: "done",
+              product: result.product,
+            });
+          } else {
+            updateBatchItems([url], {
+              status: "error",
+              error: result?.error || t("common.failedToFetchProduct"),
+            });
+          }
+        }
+      } catch (error) {
+        console.error("Failed to get batch offers:", error);
+        updateBatchItems(chunk, {
+          status: "error",
+          error:
+            error instanceof Error
+              ? error.message
+              : t("common.failedToFetchProduct"),
+        });
+      }
+    }
+
+    await loadRecentProducts();
+    setIsBatchRunning(false);
+    setLinkInput("");
+
+    if (Platform.OS !== "web") {
+      await Haptics.notificationAsync(
+        succeeded > 0
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error,
+      );
+    }
+    showToast(
+      t("home.batchSummary", { succeeded, total: links.length }),
+      succeeded > 0 ? "success" : "error",
+    );
+  };
+
+  const toggleBatchMode = () => {
+    if (isBatchRunning) return;
+    setIsBatchMode((prev) => !prev);
+    setBatchItems([]);
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     await loadRecentProducts();
@@ -130,12 +314,47 @@ export default function HomeScreen() {
   };
 
   const handleClearHistory = async () => {
-    await clearRecentProducts();
+    try {
+      await clearHistory();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("common.requestFailed"),
+        "error",
+      );
+      return;
+    }
     setRecentProducts([]);
+    setHistoryTotal(0);
+    exitSelection();
     if (Platform.OS !== "web") {
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
-    showToast("History cleared", "success");
+    showToast(t("home.historyCleared"), "success");
+  };
+
+  const handleDeleteProduct = async (product: ProductItem) => {
+    try {
+      await deleteHistoryProduct(product.productId);
+      setRecentProducts((prev) =>
+        prev.filter((item) => item.productId !== product.productId),
+      );
+      setHistoryTotal((prev) => Math.max(prev - 1, 0));
+      showToast(t("history.deleted"), "success");
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("common.requestFailed"),
+        "error",
+      );
+    }
+  };
+
+  const handleShareProduct = async (product: ProductItem) => {
+    try {
+      const template = await getShareTemplate();
+      await Share.share({ message: formatProductMessage(product, template) });
+    } catch (error) {
+      console.error("Failed to share:", error);
+    }
   };
 
   const handlePaste = async () => {
@@ -145,34 +364,99 @@ export default function HomeScreen() {
       if (Platform.OS !== "web") {
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
-      showToast("Link pasted from clipboard", "info");
+      showToast(t("home.linkPasted"), "info");
     } else {
-      showToast("Clipboard is empty", "error");
+      showToast(t("home.clipboardEmpty"), "error");
     }
   };
 
   const handleProductPress = (product: ProductItem) => {
+    if (isSelecting) {
+      toggleSelected(product);
+      return;
+    }
     navigation.navigate("ProductDetails", { product });
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Image
-        source={require("../../assets/images/empty-history.png")}
-        style={styles.emptyImage}
-        resizeMode="contain"
-      />
-      <ThemedText type="h4" style={styles.emptyTitle}>
-        No Recent Products
-      </ThemedText>
-      <ThemedText
-        type="small"
-        style={[styles.emptyText, { color: theme.textSecondary }]}
-      >
-        Paste an AliExpress product link above to find the best offers
-      </ThemedText>
-    </View>
-  );
+  const toggleSelected = (product: ProductItem) => {
+    setSelectedProducts((prev) =>
+      prev.some((item) => item.productId === product.productId)
+        ? prev.filter((item) => item.productId !== product.productId)
+        : [...prev, product],
+    );
+  };
+
+  const startSelection = async (product?: ProductItem) => {
+    setIsSelecting(true);
+    setSelectedProducts(product ? [product] : []);
+    if (Platform.OS !== "web") {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedProducts([]);
+  };
+
+  const buildDigest = async () =>
+    formatDigestMessage(selectedProducts, await getDigestTemplate());
+
+  const handleShareDigest = async () => {
+    if (selectedProducts.length === 0) return;
+    try {
+      await Share.share({ message: await buildDigest() });
+    } catch (error) {
+      console.error("Failed to share digest:", error);
+    }
+  };
+
+  const handleCopyDigest = async () => {
+    if (selectedProducts.length === 0) return;
+    try {
+      await Clipboard.setStringAsync(await buildDigest());
+      if (Platform.OS !== "web") {
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success,
+        );
+      }
+      showToast(
+        t("home.digestCopied", { count: selectedProducts.length }),
+        "success",
+      );
+    } catch {
+      showToast(t("common.copyFailed"), "error");
+    }
+  };
+
+  const renderEmptyState = () =>
+    hasActiveFilters(filters) ? (
+      <View style={styles.emptyState}>
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          {t("history.noMatches")}
+        </ThemedText>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Image
+          source={require("../../assets/images/empty-history.png")}
+          style={styles.emptyImage}
+          resizeMode="contain"
+        />
+        <ThemedText type="h4" style={styles.emptyTitle}>
+          {t("home.emptyTitle")}
+        </ThemedText>
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          {t("home.emptyDescription")}
+        </ThemedText>
+      </View>
+    );
 
   const renderFooter = () => {
     if (recentProducts.length === 0) return null;
@@ -190,7 +474,7 @@ export default function HomeScreen() {
           >
             <Feather name="trash-2" size={18} color={AppColors.error} />
             <ThemedText type="small" style={{ color: AppColors.error }}>
-              Clear History
+              {t("home.clearHistory")}
             </ThemedText>
           </Pressable>
         </View>
@@ -200,39 +484,22 @@ export default function HomeScreen() {
 
   const handleSaveToList = async () => {
     if (!linkInput.trim()) {
-      showToast("Please enter an AliExpress product link", "error");
+      showToast(t("common.enterProductLink"), "error");
       return;
     }
 
     const settings = await getSettings();
-    if (!settings.appKey || !settings.appSecret || !settings.trackingId) {
-      showToast("Please configure API keys in Settings first", "error");
+    if (!hasApiCredentials(settings)) {
+      showToast(t("common.configureApiKeys"), "error");
       return;
     }
 
     setIsLoading(true);
-    setLoadingMessage("Saving to list...");
+    setLoadingMessage(t("home.saving"));
 
     try {
-      const apiUrl = getApiUrl();
-      const response = await fetch(new URL("/api/product", apiUrl).href, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          url: linkInput.trim(),
-          appKey: settings.appKey,
-          appSecret: settings.appSecret,
-          trackingId: settings.trackingId,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to fetch product");
-      }
-
-      const product: ProductItem = await response.json();
-      await saveProduct(product);
+      const product = await fetchProduct(linkInput.trim(), settings);
+      await recordProduct(product);
       await loadRecentProducts();
 
       if (Platform.OS !== "web") {
@@ -240,11 +507,11 @@ export default function HomeScreen() {
       }
 
       setLinkInput("");
-      showToast("Product saved to list!", "success");
+      showToast(t("home.savedToList"), "success");
     } catch (error) {
       console.error("Failed to save product:", error);
       showToast(
-        error instanceof Error ? error.message : "Failed to save product",
+        error instanceof Error ? error.message : t("home.saveFailed"),
         "error"
       );
     } finally {
@@ -271,10 +538,56 @@ export default function HomeScreen() {
         data={recentProducts}
         keyExtractor={(item) => item.id}
         renderItem={({ item }) => (
-          <ProductCard product={item} onPress={() => handleProductPress(item)} />
+          <SwipeableProductCard
+            product={item}
+            onPress={() => handleProductPress(item)}
+            onShare={() => handleShareProduct(item)}
+            onDelete={() => handleDeleteProduct(item)}
+            onLongPress={isSelecting ? undefined : () => startSelection(item)}
+            isFavorite={isFavorite(collections, item.productId)}
+            onToggleFavorite={() =>
+              toggleFavorite(item)
+                .then(setCollections)
+                .catch((error) =>
+                  showToast(getCollectionErrorMessage(error, t), "error"),
+                )
+            }
+            selected={
+              isSelecting
+                ? selectedProducts.some(
+                    (selected) => selected.productId === item.productId,
+                  )
+                : undefined
+            }
+          />
         )}
+        onEndReached={loadMoreProducts}
+        onEndReachedThreshold={0.5}
         ListHeaderComponent={
           <View style={styles.header}>
+            {unreadAlerts > 0 && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.alertBanner,
+                  pressed && styles.buttonPressed,
+                ]}
+                onPress={() => drawerNavigation.navigate("Watchlist")}
+                testID="button-price-alerts"
+              >
+                <Feather name="bell" size={18} color="#FFFFFF" />
+                <ThemedText type="small" style={styles.alertBannerText}>
+                  {t("home.unreadAlerts", { count: unreadAlerts })}
+                </ThemedText>
+              </Pressable>
+            )}
+
+            <ProfilePicker
+              profiles={profiles}
+              selectedId={activeProfileId}
+              onSelect={handleProfileSelect}
+              disabled={isBatchRunning}
+            />
+
             <View
               style={[
                 styles.inputContainer,
@@ -284,12 +597,16 @@ export default function HomeScreen() {
               <Feather name="link" size={20} color={theme.textSecondary} />
               <TextInput
                 style={[styles.input, { color: theme.text }]}
-                placeholder="Paste AliExpress product link here..."
+                placeholder={
+                  isBatchMode
+                    ? t("home.batchPlaceholder")
+                    : t("home.linkPlaceholder")
+                }
                 placeholderTextColor={theme.textSecondary}
                 value={linkInput}
                 onChangeText={setLinkInput}
                 multiline
-                numberOfLines={3}
+                numberOfLines={isBatchMode ? 6 : 3}
                 textAlignVertical="top"
                 testID="input-link"
               />
@@ -303,47 +620,125 @@ export default function HomeScreen() {
               >
                 <Feather name="clipboard" size={20} color={AppColors.primary} />
                 <ThemedText type="small" style={{ color: AppColors.primary, fontWeight: '600' }}>
-                  Paste
+                  {t("home.paste")}
                 </ThemedText>
               </Pressable>
             </View>
 
             <Pressable
               style={({ pressed }) => [
-                styles.getOffersButton,
+                styles.batchToggle,
                 pressed && styles.buttonPressed,
               ]}
-              onPress={getOffers}
-              testID="button-get-offers"
+              onPress={toggleBatchMode}
+              disabled={isBatchRunning}
+              testID="button-toggle-batch"
             >
-              <Feather name="search" size={20} color="#FFFFFF" />
-              <ThemedText type="body" style={styles.buttonText}>
-                Get Offers
+              <Feather
+                name={isBatchMode ? "toggle-right" : "toggle-left"}
+                size={22}
+                color={isBatchMode ? AppColors.primary : theme.textSecondary}
+              />
+              <ThemedText
+                type="small"
+                style={{
+                  color: isBatchMode ? AppColors.primary : theme.textSecondary,
+                }}
+              >
+                {t("home.batchMode")}
               </ThemedText>
             </Pressable>
 
             <Pressable
               style={({ pressed }) => [
-                styles.saveToListButton,
-                { borderColor: AppColors.primary },
+                styles.getOffersButton,
                 pressed && styles.buttonPressed,
+                isBatchRunning && styles.buttonDisabled,
               ]}
-              onPress={handleSaveToList}
-              testID="button-save-to-list"
+              onPress={isBatchMode ? getBatchOffers : getOffers}
+              disabled={isBatchRunning}
+              testID="button-get-offers"
             >
-              <Feather name="plus-circle" size={20} color={AppColors.primary} />
-              <ThemedText type="body" style={styles.saveToListText}>
-                Save to List
+              <Feather
+                name={isBatchMode ? "layers" : "search"}
+                size={20}
+                color="#FFFFFF"
+              />
+              <ThemedText type="body" style={styles.buttonText}>
+                {isBatchMode ? t("home.getOffersForAll") : t("home.getOffers")}
               </ThemedText>
             </Pressable>
 
-            {recentProducts.length > 0 && (
-              <View style={styles.sectionHeader}>
-                <Feather name="clock" size={18} color={theme.textSecondary} />
-                <ThemedText type="h4" style={styles.sectionTitle}>
-                  Recent Products
+            {!isBatchMode && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.saveToListButton,
+                  { borderColor: AppColors.primary },
+                  pressed && styles.buttonPressed,
+                ]}
+                onPress={handleSaveToList}
+                testID="button-save-to-list"
+              >
+                <Feather
+                  name="plus-circle"
+                  size={20}
+                  color={AppColors.primary}
+                />
+                <ThemedText type="body" style={styles.saveToListText}>
+                  {t("home.saveToList")}
                 </ThemedText>
-              </View>
+              </Pressable>
+            )}
+
+            {batchItems.length > 0 && (
+              <BatchProgressList
+                items={batchItems}
+                onProductPress={handleProductPress}
+              />
+            )}
+
+            {(recentProducts.length > 0 || hasActiveFilters(filters)) && (
+              <>
+                <View style={styles.sectionHeader}>
+                  <Feather name="clock" size={18} color={theme.textSecondary} />
+                  <ThemedText type="h4" style={styles.sectionTitle}>
+                    {t("home.recentProducts")}
+                  </ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={[
+                      styles.historyCount,
+                      { color: theme.textSecondary },
+                    ]}
+                  >
+                    {t("history.count", { count: historyTotal })}
+                  </ThemedText>
+                  {recentProducts.length > 0 && (
+                    <Pressable
+                      style={styles.selectButton}
+                      onPress={() =>
+                        isSelecting ? exitSelection() : startSelection()
+                      }
+                      hitSlop={8}
+                      testID="button-select-products"
+                    >
+                      <ThemedText
+                        type="small"
+                        style={{ color: AppColors.primary }}
+                      >
+                        {isSelecting
+                          ? t("home.cancelSelect")
+                          : t("home.select")}
+                      </ThemedText>
+                    </Pressable>
+                  )}
+                </View>
+                <HistoryFilterBar
+                  filters={filters}
+                  categories={categories}
+                  onChange={setFilters}
+                />
+              </>
             )}
           </View>
         }
@@ -360,6 +755,56 @@ export default function HomeScreen() {
         showsVerticalScrollIndicator={false}
       />
 
+      {isSelecting && (
+        <View
+          style={[
+            styles.selectionBar,
+            {
+              backgroundColor: theme.backgroundDefault,
+              borderTopColor: theme.border,
+            },
+          ]}
+        >
+          <ThemedText type="small" style={styles.selectionCount}>
+            {t("home.selectedCount", { count: selectedProducts.length })}
+          </ThemedText>
+          <Pressable
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { backgroundColor: AppColors.secondary },
+              selectedProducts.length === 0 && styles.buttonDisabled,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={handleShareDigest}
+            disabled={selectedProducts.length === 0}
+            accessibilityLabel={t("home.shareDigest")}
+            testID="button-share-digest"
+          >
+            <Feather name="share-2" size={16} color="#FFFFFF" />
+            <ThemedText type="small" style={styles.buttonText}>
+              {t("home.shareDigest")}
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { backgroundColor: AppColors.primary },
+              selectedProducts.length === 0 && styles.buttonDisabled,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={handleCopyDigest}
+            disabled={selectedProducts.length === 0}
+            accessibilityLabel={t("home.copyDigest")}
+            testID="button-copy-digest"
+          >
+            <Feather name="copy" size={16} color="#FFFFFF" />
+            <ThemedText type="small" style={styles.buttonText}>
+              {t("home.copyDigest")}
+            </ThemedText>
+          </Pressable>
+        </View>
+      )}
+
       <View style={[styles.footer, { paddingBottom: insets.bottom }]}>
         <SocialLinks />
       </View>
@@ -391,7 +836,7 @@ const styles = StyleSheet.create({
   },
   input: {
     flex: 1,
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
     fontSize: 16,
     lineHeight: 22,
     minHeight: 70,
@@ -399,7 +844,7 @@ const styles = StyleSheet.create({
   pasteButton: {
     alignItems: "center",
     justifyContent: "center",
-    paddingLeft: Spacing.sm,
+    paddingStart: Spacing.sm,
     gap: 4,
   },
   getOffersButton: {
@@ -416,10 +861,34 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     transform: [{ scale: 0.98 }],
   },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  batchToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
   buttonText: {
     color: "#FFFFFF",
     fontWeight: "600",
   },
+  alertBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: AppColors.success,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  alertBannerText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
   sectionHeader: {
     flexDirection: "row",
     alignItems: "center",
@@ -427,7 +896,33 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
   },
   sectionTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
+  },
+  historyCount: {
+    marginStart: "auto",
+  },
+  selectButton: {
+    marginStart: Spacing.md,
+  },
+  selectionBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    gap: Spacing.sm,
+  },
+  selectionCount: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  selectionAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.xs,
   },
   emptyState: {
     alignItems: "center",
@@ -0,0 +1,404 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  RefreshControl,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Toast } from "@/components/Toast";
+import { LoadingOverlay } from "@/components/LoadingOverlay";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import type { TranslationKey } from "@/i18n";
+import {
+  getRecentProducts,
+  getSettings,
+  hasApiCredentials,
+} from "@/lib/storage";
+import { fetchProduct } from "@/lib/product-api";
+import { recordProduct } from "@/lib/history-api";
+import { fetchLinkStats } from "@/lib/short-links-api";
+import { buildProductUrl } from "@shared/links";
+import {
+  LINK_STATS_RANGES,
+  type LinkStats,
+  type LinkStatsRange,
+  type OfferClickStats,
+  type ProductClickStats,
+} from "@shared/short-links";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const RANGE_LABELS: Record<LinkStatsRange, TranslationKey> = {
+  "7": "linkStats.range7",
+  "30": "linkStats.range30",
+  all: "linkStats.rangeAll",
+};
+
+export default function LinkStatsScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  const [range, setRange] = useState<LinkStatsRange>("30");
+  const [stats, setStats] = useState<LinkStats | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as const,
+  });
+
+  const showToast = (
+    message: string,
+    type: "success" | "error" | "info" = "success",
+  ) => {
+    setToast({ visible: true, message, type: "success" });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await fetchLinkStats(range));
+    } catch (error) {
+      console.error("Failed to load link stats:", error);
+    }
+  }, [range]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStats();
+    }, [loadStats]),
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadStats();
+    setIsRefreshing(false);
+  };
+
+  // Same lookup order as the watchlist: the recent list first, then the API
+  const openProduct = async (productId: string) => {
+    const recent = await getRecentProducts();
+    const saved = recent.find((product) => product.productId === productId);
+    if (saved) {
+      navigation.navigate("ProductDetails", { product: saved });
+      return;
+    }
+
+    const settings = await getSettings();
+    if (!hasApiCredentials(settings)) {
+      showToast(t("common.configureApiKeys"), "error");
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      const product = await fetchProduct(buildProductUrl(productId), settings);
+      await recordProduct(product);
+      navigation.navigate("ProductDetails", { product });
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("common.requestFailed"),
+        "error",
+      );
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleCopy = async (offer: OfferClickStats) => {
+    try {
+      await Clipboard.setStringAsync(offer.shortUrl);
+      showToast(t("linkStats.linkCopied"), "success");
+    } catch {
+      showToast(t("common.copyFailed"), "error");
+    }
+  };
+
+  const renderOffer = (offer: OfferClickStats) => (
+    <Pressable
+      key={offer.code}
+      style={({ pressed }) => [
+        styles.offerRow,
+        { borderTopColor: theme.border },
+        pressed && styles.pressed,
+      ]}
+      onPress={() => handleCopy(offer)}
+      testID={`link-${offer.code}`}
+    >
+      <View style={styles.cardContent}>
+        <ThemedText type="small" numberOfLines={1}>
+          {offer.offerName}
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          numberOfLines={1}
+          style={{ color: theme.textSecondary }}
+        >
+          {offer.shortUrl}
+        </ThemedText>
+      </View>
+      <ThemedText type="small" style={styles.offerClicks}>
+        {offer.clicks}
+      </ThemedText>
+      <Feather name="copy" size={16} color={theme.textSecondary} />
+    </Pressable>
+  );
+
+  const renderProduct = (product: ProductClickStats) => (
+    <View
+      key={product.productId}
+      style={[
+        styles.card,
+        { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
+      ]}
+    >
+      <Pressable
+        style={({ pressed }) => [styles.productRow, pressed && styles.pressed]}
+        onPress={() => openProduct(product.productId)}
+        testID={`link-stats-${product.productId}`}
+      >
+        {product.imageUrl ? (
+          <Image
+            source={{ uri: product.imageUrl }}
+            style={styles.image}
+            contentFit="cover"
+          />
+        ) : (
+          <View style={[styles.image, { backgroundColor: theme.border }]} />
+        )}
+        <View style={styles.cardContent}>
+          <ThemedText type="small" numberOfLines={2}>
+            {product.title}
+          </ThemedText>
+          <ThemedText type="h4" style={{ color: AppColors.primary }}>
+            {t("linkStats.clicks", { count: product.clicks })}
+          </ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {product.lastClickAt
+              ? t("linkStats.lastClick", {
+                  date: new Date(product.lastClickAt).toLocaleString(),
+                })
+              : t("linkStats.noClicks")}
+          </ThemedText>
+        </View>
+      </Pressable>
+      {product.offers.map(renderOffer)}
+    </View>
+  );
+
+  const linkCount =
+    stats?.products.reduce((total, p) => total + p.offers.length, 0) ?? 0;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+      <LoadingOverlay visible={isOpening} />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+      >
+        <View style={styles.rangeRow}>
+          {LINK_STATS_RANGES.map((option) => {
+            const isSelected = option === range;
+            return (
+              <Pressable
+                key={option}
+                style={[
+                  styles.rangeChip,
+                  {
+                    backgroundColor: isSelected
+                      ? AppColors.primary
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+                onPress={() => setRange(option)}
+                testID={`link-stats-range-${option}`}
+              >
+                <ThemedText
+                  type="small"
+                  style={{ color: isSelected ? "#FFFFFF" : theme.text }}
+                >
+                  {t(RANGE_LABELS[option])}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <View style={styles.summaryRow}>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h2" style={{ color: AppColors.primary }}>
+              {stats?.totalClicks ?? 0}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("linkStats.totalClicks")}
+            </ThemedText>
+          </View>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ThemedText type="h2">{linkCount}</ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("linkStats.links")}
+            </ThemedText>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="bar-chart-2" size={20} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("linkStats.products")}
+            </ThemedText>
+          </View>
+          {stats && stats.products.length > 0 ? (
+            stats.products.map(renderProduct)
+          ) : (
+            <View style={styles.emptyState}>
+              <ThemedText type="body" style={styles.emptyTitle}>
+                {t("linkStats.empty")}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t("linkStats.emptyHint")}
+              </ThemedText>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  rangeRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  rangeChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    flex: 1,
+    marginStart: Spacing.sm,
+  },
+  card: {
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    overflow: "hidden",
+  },
+  productRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  image: {
+    width: 60,
+    height: 60,
+    borderRadius: BorderRadius.sm,
+  },
+  cardContent: {
+    flex: 1,
+    gap: 2,
+  },
+  offerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  offerClicks: {
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+  },
+  emptyTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+});
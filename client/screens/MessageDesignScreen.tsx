@@ -16,7 +16,9 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { SocialLinks } from "@/components/SocialLinks";
 import { Toast } from "@/components/Toast";
+import { TemplateLibraryPanel } from "@/components/TemplateLibraryPanel";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import {
   getShareTemplate,
@@ -25,44 +27,159 @@ import {
   saveDetailsTemplate,
   getCopyAllTemplate,
   saveCopyAllTemplate,
-  DEFAULT_SHARE_TEMPLATE,
-  DEFAULT_DETAILS_TEMPLATE,
-  DEFAULT_COPY_ALL_TEMPLATE,
+  getDefaultTemplates,
+  getDigestTemplate,
+  saveDigestTemplate,
+  getDefaultDigestTemplate,
+  getSettings,
+  getUserOfferTypes,
+  formatProductMessage,
+  formatDigestMessage,
+  getProductTemplateData,
+  getDigestTemplateData,
+  getTemplateLibrary,
 } from "@/lib/storage";
+import { updateTemplate } from "@/lib/templates";
+import { getOfferTypes, type OfferType } from "@shared/offers";
+import type { DigestTemplate, NamedTemplate, ProductItem } from "@/lib/storage";
+import {
+  validateTemplate,
+  type TemplateData,
+  type TemplateIssue,
+  type TemplateIssueCode,
+} from "@shared/template";
+import type { TranslationKey } from "@/i18n";
+
+const BASE_KEYWORDS: { key: string; descriptionKey: TranslationKey }[] = [
+  { key: "{title}", descriptionKey: "messageDesign.keywordTitle" },
+  { key: "{price}", descriptionKey: "messageDesign.keywordPrice" },
+  {
+    key: "{originalPrice}",
+    descriptionKey: "messageDesign.keywordOriginalPrice",
+  },
+  { key: "{discount}", descriptionKey: "messageDesign.keywordDiscount" },
+  { key: "{storeName}", descriptionKey: "messageDesign.keywordStore" },
+  { key: "{offers}", descriptionKey: "messageDesign.keywordOffers" },
+  { key: "{savings}", descriptionKey: "messageDesign.keywordSavings" },
+  { key: "{commission}", descriptionKey: "messageDesign.keywordCommission" },
+  {
+    key: "{commissionRate}",
+    descriptionKey: "messageDesign.keywordCommissionRate",
+  },
+  { key: "{stars}", descriptionKey: "messageDesign.keywordStars" },
+  { key: "{rating}", descriptionKey: "messageDesign.keywordRating" },
+  {
+    key: "{evaluateRate}",
+    descriptionKey: "messageDesign.keywordEvaluateRate",
+  },
+  { key: "{orders}", descriptionKey: "messageDesign.keywordOrders" },
+  { key: "{shipping_fees}", descriptionKey: "messageDesign.keywordShipping" },
+  { key: "{categoryName}", descriptionKey: "messageDesign.keywordCategory" },
+  { key: "{shopUrl}", descriptionKey: "messageDesign.keywordShopUrl" },
+  { key: "{imageUrl}", descriptionKey: "messageDesign.keywordImageUrl" },
+  { key: "{productId}", descriptionKey: "messageDesign.keywordProductId" },
+  { key: "{id}", descriptionKey: "messageDesign.keywordEntryId" },
+  { key: "{searchedAt}", descriptionKey: "messageDesign.keywordSearchedAt" },
+];
 
-const AVAILABLE_KEYWORDS = [
-  { key: "{title}", description: "Product title" },
-  { key: "{price}", description: "Current price" },
-  { key: "{originalPrice}", description: "Original price" },
-  { key: "{discount}", description: "Discount percentage" },
-  { key: "{storeName}", description: "Store name" },
-  { key: "{offers}", description: "All affiliate links" },
-  { key: "{coin_link}", description: "Coin Page Offer link" },
-  { key: "{direct_link}", description: "Direct Product link" },
-  { key: "{super_link}", description: "Super Deals link" },
-  { key: "{big_save_link}", description: "Big Save Discount link" },
-  { key: "{limited_link}", description: "Limited Discount link" },
-  { key: "{potential_link}", description: "Potential Discount link" },
-  { key: "{bundle_direct_link}", description: "Bundle Direct link" },
-  { key: "{bundle_page_link}", description: "Bundle Deals Page link" },
+// Keywords filled once per digest, outside the per-product block
+const DIGEST_KEYWORDS: { key: string; descriptionKey: TranslationKey }[] = [
+  { key: "{count}", descriptionKey: "messageDesign.keywordCount" },
+  { key: "{date}", descriptionKey: "messageDesign.keywordDate" },
+];
+
+const DIGEST_SECTIONS: {
+  key: keyof DigestTemplate;
+  labelKey: TranslationKey;
+}[] = [
+  { key: "header", labelKey: "messageDesign.digestHeader" },
+  { key: "item", labelKey: "messageDesign.digestItem" },
+  { key: "footer", labelKey: "messageDesign.digestFooter" },
+];
+
+// Tapping an example adds it to the template
+const SYNTAX_EXAMPLES: { example: string; descriptionKey: TranslationKey }[] = [
+  { example: "{#if discount}…{/if}", descriptionKey: "messageDesign.syntaxIf" },
+  {
+    example: "{#if discount}…{#else}…{/if}",
+    descriptionKey: "messageDesign.syntaxElse",
+  },
+  {
+    example: "{#each offers}{name}: {link}{/each}",
+    descriptionKey: "messageDesign.syntaxEach",
+  },
+  {
+    example: "{title|uppercase}",
+    descriptionKey: "messageDesign.syntaxUppercase",
+  },
+  {
+    example: "{title|truncate:40}",
+    descriptionKey: "messageDesign.syntaxTruncate",
+  },
+  {
+    example: "{price|currency:DZD:250}",
+    descriptionKey: "messageDesign.syntaxCurrency",
+  },
+  {
+    example: "{orders|default:New}",
+    descriptionKey: "messageDesign.syntaxDefault",
+  },
 ];
 
-type TemplateType = "share" | "details" | "copyAll";
+const ISSUE_MESSAGES: Record<TemplateIssueCode, TranslationKey> = {
+  unknownKey: "messageDesign.issueUnknownKey",
+  unknownFilter: "messageDesign.issueUnknownFilter",
+  invalidArgument: "messageDesign.issueInvalidArgument",
+  unclosedBlock: "messageDesign.issueUnclosedBlock",
+  unexpectedTag: "messageDesign.issueUnexpectedTag",
+};
 
-const TEMPLATE_TABS: { key: TemplateType; label: string; icon: string }[] = [
-  { key: "share", label: "Share", icon: "share-2" },
-  { key: "details", label: "Details", icon: "file-text" },
-  { key: "copyAll", label: "Copy All", icon: "copy" },
+function sampleOfferLink(key: string): string {
+  return `https://aliexpress.com/${key.replace(/_/g, "-")}`;
+}
+
+type TemplateType = "share" | "details" | "copyAll" | "digest" | "library";
+
+const TEMPLATE_TABS: {
+  key: TemplateType;
+  labelKey: TranslationKey;
+  icon: string;
+}[] = [
+  { key: "share", labelKey: "messageDesign.tabShare", icon: "share-2" },
+  { key: "details", labelKey: "messageDesign.tabDetails", icon: "file-text" },
+  { key: "copyAll", labelKey: "messageDesign.tabCopyAll", icon: "copy" },
+  { key: "digest", labelKey: "messageDesign.tabDigest", icon: "list" },
+  { key: "library", labelKey: "messageDesign.tabLibrary", icon: "book-open" },
 ];
 
 export default function MessageDesignScreen() {
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
+  const { t, offerLabel, language } = useTranslation();
+  const defaultTemplates = getDefaultTemplates(language);
 
   const [activeTab, setActiveTab] = useState<TemplateType>("share");
-  const [shareTemplate, setShareTemplate] = useState(DEFAULT_SHARE_TEMPLATE);
-  const [detailsTemplate, setDetailsTemplate] = useState(DEFAULT_DETAILS_TEMPLATE);
-  const [copyAllTemplate, setCopyAllTemplate] = useState(DEFAULT_COPY_ALL_TEMPLATE);
+  const [shareTemplate, setShareTemplate] = useState(defaultTemplates.share);
+  const [detailsTemplate, setDetailsTemplate] = useState(
+    defaultTemplates.details,
+  );
+  const [copyAllTemplate, setCopyAllTemplate] = useState(
+    defaultTemplates.copyAll,
+  );
+  const [digestTemplate, setDigestTemplate] = useState<DigestTemplate>(
+    getDefaultDigestTemplate(language),
+  );
+  // The digest section that keyword taps are added to
+  const [digestSection, setDigestSection] =
+    useState<keyof DigestTemplate>("item");
+  const [library, setLibrary] = useState<NamedTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] =
+    useState<NamedTemplate | null>(null);
+  // Unsaved edits to the selected library template
+  const [libraryBody, setLibraryBody] = useState("");
+  // Every offer type of the user; disabled ones are still valid keywords
+  const [userOfferTypes, setUserOfferTypes] =
+    useState<OfferType[]>(getOfferTypes());
   const [toast, setToast] = useState({
     visible: false,
     message: "",
@@ -74,14 +191,102 @@ export default function MessageDesignScreen() {
   }, []);
 
   const loadTemplates = async () => {
-    const [share, details, copyAll] = await Promise.all([
-      getShareTemplate(),
-      getDetailsTemplate(),
-      getCopyAllTemplate(),
-    ]);
+    const [share, details, copyAll, digest, templates, settings] =
+      await Promise.all([
+        getShareTemplate(),
+        getDetailsTemplate(),
+        getCopyAllTemplate(),
+        getDigestTemplate(),
+        getTemplateLibrary(),
+        getSettings(),
+      ]);
     setShareTemplate(share);
     setDetailsTemplate(details);
     setCopyAllTemplate(copyAll);
+    setDigestTemplate(digest);
+    setLibrary(templates);
+    setUserOfferTypes(getUserOfferTypes(settings));
+  };
+
+  const offerTypes = userOfferTypes.filter((type) => type.enabled);
+
+  const productKeywords = [
+    ...BASE_KEYWORDS.map(({ key, descriptionKey }) => ({
+      key,
+      description: t(descriptionKey),
+    })),
+    ...offerTypes.map((type) => ({
+      key: `{${type.key}}`,
+      description: t("messageDesign.keywordOfferLink", {
+        label: offerLabel(type.key, type.label),
+      }),
+    })),
+  ];
+
+  const digestKeywords = DIGEST_KEYWORDS.map(({ key, descriptionKey }) => ({
+    key,
+    description: t(descriptionKey),
+  }));
+
+  const availableKeywords =
+    activeTab !== "digest"
+      ? productKeywords
+      : digestSection === "item"
+        ? [
+            {
+              key: "{index}",
+              description: t("messageDesign.keywordIndex"),
+            },
+            ...productKeywords,
+          ]
+        : digestKeywords;
+
+  const sampleProduct = (index: number): ProductItem => ({
+    id: `sample-${index}`,
+    productId: `100500${index}`,
+    title: t("messageDesign.sampleTitle"),
+    imageUrl: `https://ae01.alicdn.com/kf/sample-${index}.jpg`,
+    price: "$19.99 USD",
+    originalPrice: "$39.99 USD",
+    discount: "50%",
+    storeName: t("messageDesign.sampleStore"),
+    evaluateRate: "96.5%",
+    shopUrl: "https://aliexpress.com/store/1234",
+    categoryName: t("messageDesign.sampleCategory"),
+    commissionRate: "7.0%",
+    orders: "1,250",
+    shipping_fees: "Free Shipping",
+    searchedAt: new Date().toISOString(),
+    offers: offerTypes.map((type) => ({
+      key: type.key,
+      name: offerLabel(type.key, type.label),
+      link: sampleOfferLink(type.key),
+      success: true,
+    })),
+  });
+
+  // Sample values used to check which keywords a template may use
+  const productData = (extraValues: Record<string, string> = {}) => {
+    const data: TemplateData = getProductTemplateData(sampleProduct(1));
+    const offerValues = Object.fromEntries(
+      userOfferTypes.map((type) => [type.key, ""]),
+    );
+    return {
+      ...data,
+      values: { ...offerValues, ...data.values, ...extraValues },
+    };
+  };
+
+  const getIssues = (): TemplateIssue[] => {
+    if (activeTab !== "digest") {
+      return validateTemplate(getCurrentTemplate(), productData());
+    }
+    const sectionData = getDigestTemplateData(2);
+    return [
+      ...validateTemplate(digestTemplate.header, sectionData),
+      ...validateTemplate(digestTemplate.item, productData({ index: "1" })),
+      ...validateTemplate(digestTemplate.footer, sectionData),
+    ];
   };
 
   const showToast = (
@@ -103,6 +308,10 @@ export default function MessageDesignScreen() {
         return detailsTemplate;
       case "copyAll":
         return copyAllTemplate;
+      case "digest":
+        return digestTemplate[digestSection];
+      case "library":
+        return libraryBody;
     }
   };
 
@@ -117,21 +326,22 @@ export default function MessageDesignScreen() {
       case "copyAll":
         setCopyAllTemplate(value);
         break;
+      case "digest":
+        setDigestTemplate((prev) => ({ ...prev, [digestSection]: value }));
+        break;
+      case "library":
+        setLibraryBody(value);
+        break;
     }
   };
 
-  const getDefaultTemplate = () => {
-    switch (activeTab) {
-      case "share":
-        return DEFAULT_SHARE_TEMPLATE;
-      case "details":
-        return DEFAULT_DETAILS_TEMPLATE;
-      case "copyAll":
-        return DEFAULT_COPY_ALL_TEMPLATE;
-    }
-  };
+  const issues = getIssues();
 
   const handleSave = async () => {
+    if (issues.length > 0) {
+      showToast(t("messageDesign.fixIssues"), "error");
+      return;
+    }
     try {
       switch (activeTab) {
         case "share":
@@ -143,21 +353,44 @@ export default function MessageDesignScreen() {
         case "copyAll":
           await saveCopyAllTemplate(copyAllTemplate);
           break;
+        case "digest":
+          await saveDigestTemplate(digestTemplate);
+          break;
+        case "library":
+          if (!selectedTemplate) return;
+          setLibrary(
+            await updateTemplate(selectedTemplate.id, { body: libraryBody }),
+          );
+          break;
       }
       if (Platform.OS !== "web") {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
-      showToast("Template saved successfully!", "success");
+      showToast(t("messageDesign.saved"), "success");
     } catch (error) {
-      showToast("Failed to save template", "error");
+      showToast(t("messageDesign.saveFailed"), "error");
     }
   };
 
   const handleReset = () => {
-    setCurrentTemplate(getDefaultTemplate());
-    showToast("Template reset to default", "info");
+    if (activeTab === "digest") {
+      setDigestTemplate(getDefaultDigestTemplate(language));
+    } else if (activeTab === "library") {
+      setLibraryBody(defaultTemplates.share);
+    } else {
+      setCurrentTemplate(defaultTemplates[activeTab]);
+    }
+    showToast(t("messageDesign.reset"), "info");
+  };
+
+  const selectLibraryTemplate = (template: NamedTemplate | null) => {
+    setSelectedTemplate(template);
+    setLibraryBody(template?.body ?? "");
   };
 
+  // The library tab only has an editor once a template is picked
+  const showEditor = activeTab !== "library" || !!selectedTemplate;
+
   const insertKeyword = async (keyword: string) => {
     setCurrentTemplate(getCurrentTemplate() + keyword);
     
@@ -167,32 +400,19 @@ export default function MessageDesignScreen() {
       if (Platform.OS !== "web") {
         await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
-      showToast(`${keyword} copied & added to editor`, "success");
+      showToast(t("messageDesign.keywordCopied", { keyword }), "success");
     } catch (error) {
       // Just fall back to inserting if copy fails
     }
   };
 
-  const getPreview = () => {
-    return getCurrentTemplate()
-      .replace("{title}", "Sample Product Title - High Quality Item")
-      .replace("{price}", "$19.99 USD")
-      .replace("{originalPrice}", "$39.99 USD")
-      .replace("{discount}", "50%")
-      .replace("{storeName}", "Best Store Official")
-      .replace("{coin_link}", "https://aliexpress.com/coin-link")
-      .replace("{direct_link}", "https://aliexpress.com/direct-link")
-      .replace("{super_link}", "https://aliexpress.com/super-link")
-      .replace("{big_save_link}", "https://aliexpress.com/big-save-link")
-      .replace("{limited_link}", "https://aliexpress.com/limited-link")
-      .replace("{potential_link}", "https://aliexpress.com/potential-link")
-      .replace("{bundle_direct_link}", "https://aliexpress.com/bundle-direct-link")
-      .replace("{bundle_page_link}", "https://aliexpress.com/bundle-page-link")
-      .replace(
-        "{offers}",
-        "Coin Page Offer:\nhttps://example.com/offer1\n\nDirect Link:\nhttps://example.com/offer2"
-      );
-  };
+  const getPreview = () =>
+    activeTab === "digest"
+      ? formatDigestMessage(
+          [sampleProduct(1), sampleProduct(2)],
+          digestTemplate,
+        )
+      : formatProductMessage(sampleProduct(1), getCurrentTemplate());
 
   return (
     <ThemedView style={styles.container}>
@@ -215,14 +435,14 @@ export default function MessageDesignScreen() {
           <View style={styles.sectionHeader}>
             <Feather name="layers" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              Select Template
+              {t("messageDesign.selectTemplate")}
             </ThemedText>
           </View>
           <ThemedText
             type="small"
             style={[styles.sectionDescription, { color: theme.textSecondary }]}
           >
-            Choose which button message to customize
+            {t("messageDesign.selectTemplateDescription")}
           </ThemedText>
 
           <View style={styles.tabsContainer}>
@@ -252,146 +472,335 @@ export default function MessageDesignScreen() {
                     fontWeight: activeTab === tab.key ? "600" : "400",
                   }}
                 >
-                  {tab.label}
+                  {t(tab.labelKey)}
                 </ThemedText>
               </Pressable>
             ))}
           </View>
         </View>
 
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Feather name="edit-3" size={18} color={AppColors.primary} />
-            <ThemedText type="h4" style={styles.sectionTitle}>
-              Template Editor
+        {activeTab === "library" && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Feather name="book-open" size={18} color={AppColors.primary} />
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                {t("templates.title")}
+              </ThemedText>
+            </View>
+            <ThemedText
+              type="small"
+              style={[
+                styles.sectionDescription,
+                { color: theme.textSecondary },
+              ]}
+            >
+              {t("templates.description")}
             </ThemedText>
-          </View>
-          <ThemedText
-            type="small"
-            style={[styles.sectionDescription, { color: theme.textSecondary }]}
-          >
-            Customize how your product messages are formatted
-          </ThemedText>
-
-          <View
-            style={[
-              styles.editorContainer,
-              { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
-            ]}
-          >
-            <TextInput
-              style={[styles.editor, { color: theme.text }]}
-              value={getCurrentTemplate()}
-              onChangeText={setCurrentTemplate}
-              multiline
-              numberOfLines={12}
-              textAlignVertical="top"
-              placeholder="Enter your message template..."
-              placeholderTextColor={theme.textSecondary}
-              testID="input-template"
+            <TemplateLibraryPanel
+              templates={library}
+              selectedId={selectedTemplate?.id ?? null}
+              newTemplateBody={defaultTemplates.share}
+              onSelect={selectLibraryTemplate}
+              onChange={setLibrary}
+              onMessage={(message) => showToast(message, "info")}
             />
           </View>
-        </View>
-
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Feather name="hash" size={18} color={AppColors.primary} />
-            <ThemedText type="h4" style={styles.sectionTitle}>
-              Available Keywords
-            </ThemedText>
-          </View>
-          <ThemedText
-            type="small"
-            style={[styles.sectionDescription, { color: theme.textSecondary }]}
-          >
-            Tap a keyword to add it to your template
-          </ThemedText>
+        )}
 
-          <View style={styles.keywordsContainer}>
-            {AVAILABLE_KEYWORDS.map((item) => (
-              <Pressable
-                key={item.key}
-                style={({ pressed }) => [
-                  styles.keywordChip,
-                  { backgroundColor: theme.backgroundSecondary },
-                  pressed && styles.pressed,
+        {showEditor && (
+          <>
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="edit-3" size={18} color={AppColors.primary} />
+                <ThemedText type="h4" style={styles.sectionTitle}>
+                  {t("messageDesign.editor")}
+                </ThemedText>
+              </View>
+              <ThemedText
+                type="small"
+                style={[
+                  styles.sectionDescription,
+                  { color: theme.textSecondary },
                 ]}
-                onPress={() => insertKeyword(item.key)}
               >
-                <ThemedText type="small" style={{ color: AppColors.primary }}>
-                  {item.key}
+                {t(
+                  activeTab === "digest"
+                    ? "messageDesign.digestDescription"
+                    : "messageDesign.editorDescription",
+                )}
+              </ThemedText>
+
+              {activeTab === "digest" ? (
+                DIGEST_SECTIONS.map((section) => (
+                  <View key={section.key} style={styles.digestSection}>
+                    <ThemedText
+                      type="small"
+                      style={[
+                        styles.digestLabel,
+                        {
+                          color:
+                            digestSection === section.key
+                              ? AppColors.primary
+                              : theme.textSecondary,
+                        },
+                      ]}
+                    >
+                      {t(section.labelKey)}
+                    </ThemedText>
+                    <View
+                      style={[
+                        styles.editorContainer,
+                        styles.digestEditorContainer,
+                        {
+                          backgroundColor: theme.backgroundDefault,
+                          borderColor:
+                            digestSection === section.key
+                              ? AppColors.primary
+                              : theme.border,
+                        },
+                      ]}
+                    >
+                      <TextInput
+                        style={[
+                          styles.editor,
+                          styles.digestEditor,
+                          { color: theme.text },
+                        ]}
+                        value={digestTemplate[section.key]}
+                        onChangeText={(value) =>
+                          setDigestTemplate((prev) => ({
+                            ...prev,
+                            [section.key]: value,
+                          }))
+                        }
+                        onFocus={() => setDigestSection(section.key)}
+                        multiline
+                        textAlignVertical="top"
+                        placeholder={t("messageDesign.placeholder")}
+                        placeholderTextColor={theme.textSecondary}
+                        testID={`input-digest-${section.key}`}
+                      />
+                    </View>
+                  </View>
+                ))
+              ) : (
+                <View
+                  style={[
+                    styles.editorContainer,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      borderColor: theme.border,
+                    },
+                  ]}
+                >
+                  <TextInput
+                    style={[styles.editor, { color: theme.text }]}
+                    value={getCurrentTemplate()}
+                    onChangeText={setCurrentTemplate}
+                    multiline
+                    numberOfLines={12}
+                    textAlignVertical="top"
+                    placeholder={t("messageDesign.placeholder")}
+                    placeholderTextColor={theme.textSecondary}
+                    testID="input-template"
+                  />
+                </View>
+              )}
+
+              {issues.length > 0 && (
+                <View style={styles.issuesContainer} testID="template-issues">
+                  {issues.map((issue, index) => (
+                    <View
+                      key={`${issue.code}-${index}`}
+                      style={styles.issueRow}
+                    >
+                      <Feather
+                        name="alert-triangle"
+                        size={14}
+                        color={AppColors.error}
+                      />
+                      <ThemedText type="small" style={styles.issueText}>
+                        {t(ISSUE_MESSAGES[issue.code], { tag: issue.tag })}
+                      </ThemedText>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="hash" size={18} color={AppColors.primary} />
+                <ThemedText type="h4" style={styles.sectionTitle}>
+                  {t("messageDesign.keywords")}
                 </ThemedText>
-              </Pressable>
-            ))}
-          </View>
+              </View>
+              <ThemedText
+                type="small"
+                style={[
+                  styles.sectionDescription,
+                  { color: theme.textSecondary },
+                ]}
+              >
+                {t("messageDesign.keywordsDescription")}
+              </ThemedText>
 
-          <View
-            style={[
-              styles.keywordsList,
-              { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
-            ]}
-          >
-            {AVAILABLE_KEYWORDS.map((item) => (
-              <View key={item.key} style={styles.keywordRow}>
-                <ThemedText type="small" style={{ color: AppColors.primary }}>
-                  {item.key}
+              <View style={styles.keywordsContainer}>
+                {availableKeywords.map((item) => (
+                  <Pressable
+                    key={item.key}
+                    style={({ pressed }) => [
+                      styles.keywordChip,
+                      { backgroundColor: theme.backgroundSecondary },
+                      pressed && styles.pressed,
+                    ]}
+                    onPress={() => insertKeyword(item.key)}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: AppColors.primary }}
+                    >
+                      {item.key}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+
+              <View
+                style={[
+                  styles.keywordsList,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    borderColor: theme.border,
+                  },
+                ]}
+              >
+                {availableKeywords.map((item) => (
+                  <View key={item.key} style={styles.keywordRow}>
+                    <ThemedText
+                      type="small"
+                      style={{ color: AppColors.primary }}
+                    >
+                      {item.key}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {item.description}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="code" size={18} color={AppColors.primary} />
+                <ThemedText type="h4" style={styles.sectionTitle}>
+                  {t("messageDesign.syntax")}
                 </ThemedText>
-                <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                  {item.description}
+              </View>
+              <ThemedText
+                type="small"
+                style={[
+                  styles.sectionDescription,
+                  { color: theme.textSecondary },
+                ]}
+              >
+                {t("messageDesign.syntaxDescription")}
+              </ThemedText>
+
+              <View
+                style={[
+                  styles.keywordsList,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    borderColor: theme.border,
+                  },
+                ]}
+              >
+                {SYNTAX_EXAMPLES.map((item) => (
+                  <Pressable
+                    key={item.example}
+                    style={({ pressed }) => [
+                      styles.syntaxRow,
+                      pressed && styles.pressed,
+                    ]}
+                    onPress={() => insertKeyword(item.example)}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: AppColors.primary }}
+                    >
+                      {item.example}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {t(item.descriptionKey)}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="eye" size={18} color={AppColors.primary} />
+                <ThemedText type="h4" style={styles.sectionTitle}>
+                  {t("messageDesign.preview")}
                 </ThemedText>
               </View>
-            ))}
-          </View>
-        </View>
 
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Feather name="eye" size={18} color={AppColors.primary} />
-            <ThemedText type="h4" style={styles.sectionTitle}>
-              Preview
-            </ThemedText>
-          </View>
+              <View
+                style={[
+                  styles.previewContainer,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    borderColor: theme.border,
+                  },
+                ]}
+              >
+                <ThemedText type="small" style={styles.previewText}>
+                  {getPreview()}
+                </ThemedText>
+              </View>
+            </View>
 
-          <View
-            style={[
-              styles.previewContainer,
-              { backgroundColor: theme.backgroundDefault, borderColor: theme.border },
-            ]}
-          >
-            <ThemedText type="small" style={styles.previewText}>
-              {getPreview()}
-            </ThemedText>
-          </View>
-        </View>
+            <View style={styles.buttonRow}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.resetButton,
+                  { borderColor: theme.border },
+                  pressed && styles.pressed,
+                ]}
+                onPress={handleReset}
+                testID="button-reset-template"
+              >
+                <Feather name="refresh-cw" size={18} color={theme.text} />
+                <ThemedText type="body">
+                  {t("messageDesign.resetButton")}
+                </ThemedText>
+              </Pressable>
 
-        <View style={styles.buttonRow}>
-          <Pressable
-            style={({ pressed }) => [
-              styles.resetButton,
-              { borderColor: theme.border },
-              pressed && styles.pressed,
-            ]}
-            onPress={handleReset}
-            testID="button-reset-template"
-          >
-            <Feather name="refresh-cw" size={18} color={theme.text} />
-            <ThemedText type="body">Reset</ThemedText>
-          </Pressable>
-
-          <Pressable
-            style={({ pressed }) => [
-              styles.saveButton,
-              pressed && styles.pressed,
-            ]}
-            onPress={handleSave}
-            testID="button-save-template"
-          >
-            <Feather name="save" size={18} color="#FFFFFF" />
-            <ThemedText type="body" style={styles.saveButtonText}>
-              Save Template
-            </ThemedText>
-          </Pressable>
-        </View>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.saveButton,
+                  pressed && styles.pressed,
+                ]}
+                onPress={handleSave}
+                testID="button-save-template"
+              >
+                <Feather name="save" size={18} color="#FFFFFF" />
+                <ThemedText type="body" style={styles.saveButtonText}>
+                  {t("messageDesign.save")}
+                </ThemedText>
+              </Pressable>
+            </View>
+          </>
+        )}
 
         <SocialLinks />
       </ScrollView>
@@ -419,17 +828,19 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.sm,
   },
   sectionTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   sectionDescription: {
     marginBottom: Spacing.md,
   },
   tabsContainer: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: Spacing.sm,
   },
   tab: {
     flex: 1,
+    minWidth: "30%",
     flexDirection: "row",
     alignItems: "center",
     justifyContent: "center",
@@ -453,6 +864,42 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     minHeight: 180,
   },
+  digestSection: {
+    marginBottom: Spacing.md,
+  },
+  digestLabel: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  digestEditorContainer: {
+    minHeight: 0,
+  },
+  digestEditor: {
+    minHeight: 60,
+  },
+  issuesContainer: {
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: AppColors.error,
+    gap: Spacing.xs,
+  },
+  issueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  issueText: {
+    flex: 1,
+    color: AppColors.error,
+  },
+  syntaxRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.05)",
+    gap: 2,
+  },
   keywordsContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   StyleSheet,
@@ -24,10 +24,50 @@ import { OfferButton } from "@/components/OfferButton";
 import { SocialLinks } from "@/components/SocialLinks";
 import { Toast } from "@/components/Toast";
 import { LoadingOverlay } from "@/components/LoadingOverlay";
+import { ProfilePicker } from "@/components/ProfilePicker";
+import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { WatchPriceModal } from "@/components/WatchPriceModal";
+import { CollectionPickerModal } from "@/components/CollectionPickerModal";
+import { TemplatePickerModal } from "@/components/TemplatePickerModal";
+import { PromoImageModal } from "@/components/PromoImageModal";
+import { QrCodeModal } from "@/components/QrCodeModal";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
-import { formatProductMessage, getShareTemplate, getDetailsTemplate, getCopyAllTemplate, getSettings, saveProduct, ProductItem } from "@/lib/storage";
-import { getApiUrl } from "@/lib/query-client";
+import {
+  formatProductMessage,
+  getShareTemplate,
+  getDetailsTemplate,
+  getCopyAllTemplate,
+  getSettings,
+  getCollections,
+  getTemplateLibrary,
+  hasApiCredentials,
+  ProductItem,
+  ProductCollection,
+  NamedTemplate,
+  TrackingProfile,
+} from "@/lib/storage";
+import {
+  getCollectionErrorMessage,
+  getProductCollectionIds,
+  isFavorite,
+  toggleFavorite,
+} from "@/lib/collections";
+import { fetchPriceHistory, fetchProduct } from "@/lib/product-api";
+import { recordProduct } from "@/lib/history-api";
+import { fetchWatchlist, removeWatch, watchProduct } from "@/lib/watchlist-api";
+import { buildProductUrl } from "@shared/links";
+import {
+  formatPriceValue,
+  parsePriceValue,
+  type PriceHistory,
+} from "@shared/price-history";
+import {
+  getWatchThreshold,
+  type WatchlistItem,
+  type WatchTarget,
+} from "@shared/watchlist";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 type ProductDetailsRouteProp = RouteProp<RootStackParamList, "ProductDetails">;
@@ -38,10 +78,25 @@ export default function ProductDetailsScreen() {
   const route = useRoute<ProductDetailsRouteProp>();
   const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
+  const { t, offerLabel } = useTranslation();
   const { product: initialProduct } = route.params;
 
   const [product, setProduct] = useState<ProductItem>(initialProduct);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [profiles, setProfiles] = useState<TrackingProfile[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PriceHistory | null>(null);
+  const [watch, setWatch] = useState<WatchlistItem | null>(null);
+  const [isWatchModalVisible, setIsWatchModalVisible] = useState(false);
+  const [isSavingWatch, setIsSavingWatch] = useState(false);
+  const [collections, setCollections] = useState<ProductCollection[]>([]);
+  const [isCollectionModalVisible, setIsCollectionModalVisible] =
+    useState(false);
+  const [templates, setTemplates] = useState<NamedTemplate[]>([]);
+  const [isTemplatePickerVisible, setIsTemplatePickerVisible] = useState(false);
+  const [isPromoVisible, setIsPromoVisible] = useState(false);
+  const [qrOffer, setQrOffer] = useState<{ name: string; link: string } | null>(
+    null,
+  );
   const [toast, setToast] = useState({
     visible: false,
     message: "",
@@ -59,6 +114,29 @@ export default function ProductDetailsScreen() {
     setToast((prev) => ({ ...prev, visible: false }));
   };
 
+  useEffect(() => {
+    getSettings().then((settings) => setProfiles(settings.profiles));
+    getCollections().then(setCollections);
+    getTemplateLibrary().then(setTemplates);
+  }, []);
+
+  // Reloaded after a refresh, which records a new price point
+  useEffect(() => {
+    fetchPriceHistory(product.productId)
+      .then(setPriceHistory)
+      .catch(() => setPriceHistory(null));
+  }, [product.productId, product.searchedAt]);
+
+  useEffect(() => {
+    fetchWatchlist()
+      .then((items) =>
+        setWatch(
+          items.find((item) => item.productId === product.productId) ?? null,
+        ),
+      )
+      .catch((error) => console.error("Failed to load watchlist:", error));
+  }, [product.productId]);
+
   const triggerHaptic = async () => {
     if (Platform.OS !== "web") {
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -71,9 +149,9 @@ export default function ProductDetailsScreen() {
       const text = formatProductMessage(product, template);
       await Clipboard.setStringAsync(text);
       await triggerHaptic();
-      showToast("All details copied!", "success");
+      showToast(t("product.allCopied"), "success");
     } catch (error) {
-      showToast("Failed to copy", "error");
+      showToast(t("common.copyFailed"), "error");
     }
   };
 
@@ -83,9 +161,9 @@ export default function ProductDetailsScreen() {
       const text = formatProductMessage(product, template);
       await Clipboard.setStringAsync(text);
       await triggerHaptic();
-      showToast("Details copied!", "success");
+      showToast(t("product.detailsCopied"), "success");
     } catch (error) {
-      showToast("Failed to copy", "error");
+      showToast(t("common.copyFailed"), "error");
     }
   };
 
@@ -93,9 +171,9 @@ export default function ProductDetailsScreen() {
     try {
       await Clipboard.setStringAsync(product.title);
       await triggerHaptic();
-      showToast("Title copied!", "success");
+      showToast(t("product.titleCopied"), "success");
     } catch (error) {
-      showToast("Failed to copy", "error");
+      showToast(t("common.copyFailed"), "error");
     }
   };
 
@@ -109,9 +187,20 @@ export default function ProductDetailsScreen() {
     }
   };
 
+  const shareWithTemplate = async (template: NamedTemplate) => {
+    setIsTemplatePickerVisible(false);
+    try {
+      await Share.share({
+        message: formatProductMessage(product, template.body),
+      });
+    } catch (error) {
+      console.error("Failed to share:", error);
+    }
+  };
+
   const downloadImage = async () => {
     if (!product.imageUrl) {
-      showToast("No image available", "error");
+      showToast(t("product.noImage"), "error");
       return;
     }
 
@@ -134,7 +223,7 @@ export default function ProductDetailsScreen() {
       }
 
       if (!hasPermission) {
-        showToast("Permission required to save images", "error");
+        showToast(t("product.permissionRequired"), "error");
         return;
       }
 
@@ -142,53 +231,41 @@ export default function ProductDetailsScreen() {
       const download = await FileSystem.downloadAsync(product.imageUrl, fileUri);
       await MediaLibrary.saveToLibraryAsync(download.uri);
       await triggerHaptic();
-      showToast("Image saved to gallery!", "success");
+      showToast(t("product.imageSaved"), "success");
     } catch (error) {
       console.error("Failed to download image:", error);
-      showToast("Failed to download image", "error");
+      showToast(t("product.imageSaveFailed"), "error");
     }
   };
 
-  const refreshOffer = async () => {
+  // Regenerates the offers with the product's tracking profile, or with
+  // another profile when the user switches it.
+  const refreshOffer = async (profileId = product.profileId ?? null) => {
     setIsRefreshing(true);
     try {
       const settings = await getSettings();
-      if (!settings.appKey || !settings.appSecret || !settings.trackingId) {
-        showToast("Please configure API keys in Settings first", "error");
+      if (!hasApiCredentials(settings)) {
+        showToast(t("common.configureApiKeys"), "error");
         setIsRefreshing(false);
         return;
       }
 
-      const productUrl = `https://www.aliexpress.com/item/${product.productId}.html`;
-      const apiUrl = getApiUrl();
-      const response = await fetch(new URL("/api/product", apiUrl).href, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          url: productUrl,
-          appKey: settings.appKey,
-          appSecret: settings.appSecret,
-          trackingId: settings.trackingId,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to refresh offer");
-      }
-
-      const updatedProduct: ProductItem = await response.json();
-      await saveProduct(updatedProduct);
+      const updatedProduct = await fetchProduct(
+        buildProductUrl(product.productId),
+        settings,
+        { force: true, profileId },
+      );
+      await recordProduct(updatedProduct);
       setProduct(updatedProduct);
 
       if (Platform.OS !== "web") {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
-      showToast("Offer refreshed successfully!", "success");
+      showToast(t("product.offerRefreshed"), "success");
     } catch (error) {
       console.error("Failed to refresh offer:", error);
       showToast(
-        error instanceof Error ? error.message : "Failed to refresh offer",
+        error instanceof Error ? error.message : t("product.refreshFailed"),
         "error"
       );
     } finally {
@@ -196,6 +273,60 @@ export default function ProductDetailsScreen() {
     }
   };
 
+  const saveWatch = async (target: WatchTarget) => {
+    setIsSavingWatch(true);
+    try {
+      setWatch(await watchProduct(product, target));
+      setIsWatchModalVisible(false);
+      showToast(t("watch.saved"), "success");
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("common.requestFailed"),
+        "error",
+      );
+    } finally {
+      setIsSavingWatch(false);
+    }
+  };
+
+  const stopWatching = async () => {
+    if (!watch) return;
+    setIsSavingWatch(true);
+    try {
+      await removeWatch(watch.id);
+      setWatch(null);
+      setIsWatchModalVisible(false);
+      showToast(t("watch.removed"), "success");
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("common.requestFailed"),
+        "error",
+      );
+    } finally {
+      setIsSavingWatch(false);
+    }
+  };
+
+  const currentPriceValue = parsePriceValue(product.price);
+  const isProductFavorite = isFavorite(collections, product.productId);
+  const collectionCount = getProductCollectionIds(
+    collections,
+    product.productId,
+  ).length;
+
+  const handleToggleFavorite = async () => {
+    try {
+      setCollections(await toggleFavorite(product));
+      await triggerHaptic();
+    } catch (error) {
+      showToast(getCollectionErrorMessage(error, t), "error");
+    }
+  };
+
+  const watchThreshold = watch
+    ? getWatchThreshold(watch, watch.basePrice)
+    : null;
+
   return (
     <ThemedView style={styles.container}>
       <Toast
@@ -204,7 +335,56 @@ export default function ProductDetailsScreen() {
         type={toast.type}
         onHide={hideToast}
       />
-      <LoadingOverlay visible={isRefreshing} message="Refreshing offer..." />
+      <LoadingOverlay
+        visible={isRefreshing}
+        message={t("product.refreshing")}
+      />
+      {currentPriceValue !== null && (
+        <WatchPriceModal
+          visible={isWatchModalVisible}
+          price={product.price}
+          priceValue={currentPriceValue}
+          watch={watch}
+          isSaving={isSavingWatch}
+          onClose={() => setIsWatchModalVisible(false)}
+          onSave={saveWatch}
+          onRemove={stopWatching}
+        />
+      )}
+      <CollectionPickerModal
+        visible={isCollectionModalVisible}
+        product={product}
+        collections={collections}
+        onClose={() => setIsCollectionModalVisible(false)}
+        onChange={setCollections}
+        onError={(message) => showToast(message, "error")}
+      />
+
+      <TemplatePickerModal
+        visible={isTemplatePickerVisible}
+        templates={templates}
+        onClose={() => setIsTemplatePickerVisible(false)}
+        onSelect={shareWithTemplate}
+      />
+
+      <PromoImageModal
+        visible={isPromoVisible}
+        product={product}
+        channelName={
+          profiles.find((profile) => profile.id === product.profileId)?.name
+        }
+        qrLink={product.offers.find((offer) => offer.success)?.link}
+        onClose={() => setIsPromoVisible(false)}
+        onMessage={(message) => showToast(message)}
+      />
+
+      <QrCodeModal
+        visible={qrOffer !== null}
+        name={qrOffer?.name ?? ""}
+        link={qrOffer?.link ?? ""}
+        onClose={() => setQrOffer(null)}
+        onMessage={(message) => showToast(message)}
+      />
 
       <ScrollView
         style={styles.scrollView}
@@ -243,6 +423,26 @@ export default function ProductDetailsScreen() {
           >
             <Feather name="download" size={20} color={AppColors.primary} />
           </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.favoriteButton,
+              { backgroundColor: theme.backgroundRoot },
+              pressed && styles.pressed,
+            ]}
+            onPress={handleToggleFavorite}
+            accessibilityLabel={
+              isProductFavorite
+                ? t("collections.removeFromFavorites")
+                : t("collections.addToFavorites")
+            }
+            testID="button-favorite"
+          >
+            <Feather
+              name="star"
+              size={20}
+              color={isProductFavorite ? AppColors.accent : theme.textSecondary}
+            />
+          </Pressable>
         </View>
 
         <View style={styles.content}>
@@ -262,7 +462,7 @@ export default function ProductDetailsScreen() {
             <View style={styles.priceRow}>
               <View>
                 <ThemedText type="caption" style={{ color: theme.textSecondary }}>
-                  Current Price
+                  {t("product.currentPrice")}
                 </ThemedText>
                 <ThemedText type="h2" style={{ color: AppColors.primary }}>
                   {product.price}
@@ -270,7 +470,7 @@ export default function ProductDetailsScreen() {
               </View>
               <View style={styles.priceRight}>
                 <ThemedText type="caption" style={{ color: theme.textSecondary }}>
-                  Original
+                  {t("product.original")}
                 </ThemedText>
                 <ThemedText
                   type="body"
@@ -301,7 +501,7 @@ export default function ProductDetailsScreen() {
                 <View style={styles.infoItem}>
                   <Feather name="star" size={16} color="#FFD700" />
                   <ThemedText type="small" style={styles.infoText}>
-                    {product.evaluateRate} Rating
+                    {t("product.rating", { rating: product.evaluateRate })}
                   </ThemedText>
                 </View>
               )}
@@ -309,7 +509,7 @@ export default function ProductDetailsScreen() {
                 <View style={styles.infoItem}>
                   <Feather name="trending-up" size={16} color={AppColors.primary} />
                   <ThemedText type="small" style={styles.infoText}>
-                    {product.orders} orders
+                    {t("product.orders", { orders: product.orders })}
                   </ThemedText>
                 </View>
               )}
@@ -318,8 +518,8 @@ export default function ProductDetailsScreen() {
                   <Feather name="truck" size={16} color={AppColors.accent} />
                   <ThemedText type="small" style={styles.infoText}>
                     {product.shipping_fees === "Free Shipping" || product.shipping_fees === "0" 
-                      ? "Free Shipping" 
-                      : `Shipping: ${product.shipping_fees}`}
+                      ? t("product.freeShipping")
+                      : t("product.shipping", { fees: product.shipping_fees })}
                   </ThemedText>
                 </View>
               )}
@@ -335,7 +535,7 @@ export default function ProductDetailsScreen() {
                 <View style={styles.infoItem}>
                   <Feather name="percent" size={16} color={AppColors.success || "#4CAF50"} />
                   <ThemedText type="small" style={styles.infoText}>
-                    Comm: {product.commissionRate}
+                    {t("product.commission", { rate: product.commissionRate })}
                   </ThemedText>
                 </View>
               )}
@@ -347,7 +547,7 @@ export default function ProductDetailsScreen() {
                 style={styles.shopButton}
               >
                 <ThemedText type="small" style={{ color: AppColors.primary, fontWeight: '600' }}>
-                  Visit Store
+                  {t("product.visitStore")}
                 </ThemedText>
                 <Feather name="external-link" size={14} color={AppColors.primary} />
               </Pressable>
@@ -366,7 +566,7 @@ export default function ProductDetailsScreen() {
             >
               <Feather name="copy" size={16} color="#FFFFFF" />
               <ThemedText type="small" style={styles.copyButtonText}>
-                Copy All
+                {t("product.copyAll")}
               </ThemedText>
             </Pressable>
             <Pressable
@@ -379,7 +579,7 @@ export default function ProductDetailsScreen() {
               testID="button-copy-details"
             >
               <Feather name="file-text" size={16} color={theme.text} />
-              <ThemedText type="small">Details</ThemedText>
+              <ThemedText type="small">{t("product.copyDetails")}</ThemedText>
             </Pressable>
             <Pressable
               style={({ pressed }) => [
@@ -391,7 +591,7 @@ export default function ProductDetailsScreen() {
               testID="button-copy-title"
             >
               <Feather name="type" size={16} color={theme.text} />
-              <ThemedText type="small">Title</ThemedText>
+              <ThemedText type="small">{t("product.copyTitle")}</ThemedText>
             </Pressable>
             <Pressable
               style={({ pressed }) => [
@@ -404,26 +604,183 @@ export default function ProductDetailsScreen() {
             >
               <Feather name="share-2" size={16} color="#FFFFFF" />
               <ThemedText type="small" style={styles.copyButtonText}>
-                Share
+                {t("product.share")}
+              </ThemedText>
+            </Pressable>
+            {templates.length > 0 && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.copyButton,
+                  { borderColor: AppColors.secondary, borderWidth: 1 },
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => setIsTemplatePickerVisible(true)}
+                testID="button-share-with-template"
+              >
+                <Feather name="layers" size={16} color={AppColors.secondary} />
+                <ThemedText type="small" style={{ color: AppColors.secondary }}>
+                  {t("templates.shareWith")}
+                </ThemedText>
+              </Pressable>
+            )}
+            {Platform.OS !== "web" && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.copyButton,
+                  { borderColor: AppColors.secondary, borderWidth: 1 },
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => setIsPromoVisible(true)}
+                testID="button-promo-image"
+              >
+                <Feather name="image" size={16} color={AppColors.secondary} />
+                <ThemedText type="small" style={{ color: AppColors.secondary }}>
+                  {t("promo.button")}
+                </ThemedText>
+              </Pressable>
+            )}
+            <Pressable
+              style={({ pressed }) => [
+                styles.copyButton,
+                { borderColor: theme.border, borderWidth: 1 },
+                pressed && styles.pressed,
+              ]}
+              onPress={() => setIsCollectionModalVisible(true)}
+              testID="button-add-to-collection"
+            >
+              <Feather name="folder-plus" size={16} color={theme.text} />
+              <ThemedText type="small">
+                {collectionCount > 0
+                  ? t("collections.inCollections", { count: collectionCount })
+                  : t("collections.addToCollection")}
               </ThemedText>
             </Pressable>
+            {currentPriceValue !== null && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.copyButton,
+                  { borderColor: AppColors.primary, borderWidth: 1 },
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => setIsWatchModalVisible(true)}
+                testID="button-watch-price"
+              >
+                <Feather name="bell" size={16} color={AppColors.primary} />
+                <ThemedText type="small" style={{ color: AppColors.primary }}>
+                  {watchThreshold !== null
+                    ? t("watch.watching", {
+                        price: formatPriceValue(watchThreshold),
+                      })
+                    : t("watch.watchPrice")}
+                </ThemedText>
+              </Pressable>
+            )}
           </View>
 
+          {priceHistory && (
+            <View
+              style={[
+                styles.detailsCard,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <View style={styles.sectionHeader}>
+                <Feather
+                  name="trending-down"
+                  size={18}
+                  color={AppColors.primary}
+                />
+                <ThemedText type="h4" style={styles.sectionTitle}>
+                  {t("product.priceHistory")}
+                </ThemedText>
+              </View>
+
+              {priceHistory.points.length > 1 ? (
+                <>
+                  <PriceHistoryChart points={priceHistory.points} />
+                  <View style={styles.historyStats}>
+                    <ThemedText
+                      type="small"
+                      style={{ color: AppColors.success }}
+                    >
+                      {t("product.lowestSeen", {
+                        price: priceHistory.summary.lowest?.price ?? "-",
+                      })}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {t("product.highestSeen", {
+                        price: priceHistory.summary.highest?.price ?? "-",
+                      })}
+                    </ThemedText>
+                  </View>
+                  {priceHistory.summary.isLowest && (
+                    <View style={styles.lowestBadge}>
+                      <Feather name="award" size={14} color="#FFFFFF" />
+                      <ThemedText type="small" style={styles.lowestBadgeText}>
+                        {t("product.atLowest")}
+                      </ThemedText>
+                    </View>
+                  )}
+                  <ThemedText
+                    type="small"
+                    style={[
+                      styles.historyCaption,
+                      { color: theme.textSecondary },
+                    ]}
+                  >
+                    {t("product.historyPoints", {
+                      count: priceHistory.points.length,
+                      date: new Date(
+                        priceHistory.points[0].recordedAt,
+                      ).toLocaleDateString(),
+                    })}
+                  </ThemedText>
+                </>
+              ) : (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {t("product.historyEmpty")}
+                </ThemedText>
+              )}
+            </View>
+          )}
+
           <View style={styles.offersSection}>
             <View style={styles.sectionHeader}>
               <Feather name="tag" size={18} color={AppColors.primary} />
               <ThemedText type="h4" style={styles.sectionTitle}>
-                Available Offers
+                {t("product.availableOffers")}
               </ThemedText>
             </View>
 
+            <ProfilePicker
+              profiles={profiles}
+              selectedId={product.profileId ?? null}
+              onSelect={refreshOffer}
+              disabled={isRefreshing}
+            />
+
             {product.offers.map((offer, index) => (
               <OfferButton
                 key={index}
-                name={offer.name}
+                name={offerLabel(offer.key, offer.name)}
                 link={offer.link}
                 success={offer.success}
-                onCopied={() => showToast("Link copied!", "success")}
+                onCopied={() => showToast(t("product.linkCopied"), "success")}
+                onShowQr={
+                  Platform.OS !== "web"
+                    ? () =>
+                        setQrOffer({
+                          name: offerLabel(offer.key, offer.name),
+                          link: offer.link,
+                        })
+                    : undefined
+                }
               />
             ))}
 
@@ -432,12 +789,12 @@ export default function ProductDetailsScreen() {
                 styles.refreshOfferButton,
                 pressed && styles.pressed,
               ]}
-              onPress={refreshOffer}
+              onPress={() => refreshOffer()}
               testID="button-refresh-offer"
             >
               <Feather name="refresh-cw" size={18} color="#FFFFFF" />
               <ThemedText type="body" style={styles.refreshOfferText}>
-                Refresh Offer
+                {t("product.refreshOffer")}
               </ThemedText>
             </Pressable>
           </View>
@@ -477,6 +834,21 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  favoriteButton: {
+    position: "absolute",
+    top: Spacing.md,
+    left: Spacing.md,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
   downloadButton: {
     position: "absolute",
     top: Spacing.md,
@@ -513,7 +885,7 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
   },
   priceRight: {
-    marginLeft: Spacing.xl,
+    marginStart: Spacing.xl,
   },
   originalPrice: {
     textDecorationLine: "line-through",
@@ -523,7 +895,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.xs,
     borderRadius: BorderRadius.sm,
-    marginLeft: "auto",
+    marginStart: "auto",
   },
   discountText: {
     color: "#FFFFFF",
@@ -548,7 +920,7 @@ const styles = StyleSheet.create({
     minWidth: "45%",
   },
   infoText: {
-    marginLeft: Spacing.xs,
+    marginStart: Spacing.xs,
   },
   shopButton: {
     flexDirection: "row",
@@ -573,6 +945,29 @@ const styles = StyleSheet.create({
   copyButtonText: {
     color: "#FFFFFF",
   },
+  historyStats: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: Spacing.sm,
+  },
+  lowestBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    backgroundColor: AppColors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  lowestBadgeText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  historyCaption: {
+    marginTop: Spacing.sm,
+  },
   offersSection: {
     marginBottom: Spacing.lg,
   },
@@ -582,7 +977,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
   },
   sectionTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   refreshOfferButton: {
     flexDirection: "row",
@@ -6,6 +6,7 @@ import {
   TextInput,
   Pressable,
   Platform,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
@@ -16,18 +17,54 @@ import { ThemedView } from "@/components/ThemedView";
 import { SocialLinks } from "@/components/SocialLinks";
 import { Toast } from "@/components/Toast";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
-import { getSettings, saveSettings, AppSettings, DEFAULT_SETTINGS } from "@/lib/storage";
+import {
+  getSettings,
+  saveSettings,
+  getUserOfferTypes,
+  AppSettings,
+  DEFAULT_SETTINGS,
+} from "@/lib/storage";
+import {
+  refreshCredentialsStatus,
+  rotateCredentials,
+  saveCredentials,
+  verifyCredentials,
+} from "@/lib/credentials-api";
+import type { CredentialVerification } from "@shared/credentials";
+import {
+  customOfferKey,
+  customOfferTypeSchema,
+  DEFAULT_OFFER_TYPES,
+  MAX_CUSTOM_OFFER_TYPES,
+} from "@shared/offers";
+
+// Settings that take effect right away instead of waiting for Save Settings
+const AUTO_SAVED_SETTINGS: (keyof AppSettings)[] = [
+  "customOfferTypes",
+  "profiles",
+  "activeProfileId",
+  "offerOrder",
+  "disabledOfferKeys",
+];
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
-  const { theme } = useTheme();
+  const { theme, setThemePreference } = useTheme();
+  const { t, offerLabel, setLanguage } = useTranslation();
 
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [showSecrets, setShowSecrets] = useState({
     appKey: false,
     appSecret: false,
   });
+  const [newOffer, setNewOffer] = useState({ label: "", sourceType: "" });
+  const [appSecretHint, setAppSecretHint] = useState("");
+  const [newProfile, setNewProfile] = useState({ name: "", trackingId: "" });
+  const [isTesting, setIsTesting] = useState(false);
+  const [connectionResult, setConnectionResult] =
+    useState<CredentialVerification | null>(null);
   const [toast, setToast] = useState({
     visible: false,
     message: "",
@@ -41,6 +78,39 @@ export default function SettingsScreen() {
   const loadSettings = async () => {
     const savedSettings = await getSettings();
     setSettings(savedSettings);
+
+    try {
+      const stored = await refreshCredentialsStatus();
+      setAppSecretHint(stored.appSecretHint || "");
+      setSettings((prev) => ({
+        ...prev,
+        appKey: stored.appKey || prev.appKey,
+        trackingId: stored.trackingId || prev.trackingId,
+        credentialsStored: stored.configured,
+      }));
+    } catch (error) {
+      console.error("Failed to load stored credentials:", error);
+    }
+  };
+
+  // Sends the API credentials to the server, the only place they are kept
+  const storeCredentialsOnServer = async (): Promise<AppSettings> => {
+    const { appKey, appSecret, trackingId, credentialsStored } = settings;
+    if (!appKey && !appSecret && !trackingId) {
+      return settings;
+    }
+
+    const input = { appKey, trackingId };
+    const stored =
+      credentialsStored && appSecret
+        ? await rotateCredentials({ ...input, appSecret })
+        : await saveCredentials({
+            ...input,
+            appSecret: appSecret || undefined,
+          });
+
+    setAppSecretHint(stored.appSecretHint || "");
+    return { ...settings, appSecret: "", credentialsStored: stored.configured };
   };
 
   const showToast = (
@@ -56,13 +126,48 @@ export default function SettingsScreen() {
 
   const handleSave = async () => {
     try {
-      await saveSettings(settings);
+      const nextSettings = await storeCredentialsOnServer();
+      await saveSettings(nextSettings);
+      setSettings(nextSettings);
       if (Platform.OS !== "web") {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
-      showToast("Settings saved successfully!", "success");
+      showToast(t("settings.saved"), "success");
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : t("settings.saveFailed"),
+        "error",
+      );
+    }
+  };
+
+  // The server message is English; known outcomes are shown translated
+  const describeVerification = (result: CredentialVerification) =>
+    result.outcome === "api_error"
+      ? result.message
+      : t(`settings.outcome.${result.outcome}`);
+
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setConnectionResult(null);
+    try {
+      const result = await verifyCredentials({
+        appKey: settings.appKey,
+        appSecret: settings.appSecret || undefined,
+        trackingId: settings.trackingId,
+      });
+      setConnectionResult(result);
+      showToast(
+        describeVerification(result),
+        result.success ? "success" : "error",
+      );
     } catch (error) {
-      showToast("Failed to save settings", "error");
+      showToast(
+        error instanceof Error ? error.message : t("settings.testFailed"),
+        "error",
+      );
+    } finally {
+      setIsTesting(false);
     }
   };
 
@@ -72,14 +177,137 @@ export default function SettingsScreen() {
   ) => {
     setSettings((prev) => {
       const newSettings = { ...prev, [key]: value };
-      // Save immediately for theme and language to reflect changes
-      if (key === "theme" || key === "language") {
+      // Save immediately for profile and offer changes to reflect them;
+      // credentials typed but not saved stay out of storage
+      if (AUTO_SAVED_SETTINGS.includes(key)) {
         saveSettings(newSettings).catch(console.error);
       }
       return newSettings;
     });
   };
 
+  // The theme provider persists the choice and restyles the app
+  const handleThemeChange = (value: AppSettings["theme"]) => {
+    setSettings((prev) => ({ ...prev, theme: value }));
+    setThemePreference(value).catch(console.error);
+  };
+
+  // The language provider persists the choice and re-renders the app
+  const handleLanguageChange = (language: AppSettings["language"]) => {
+    setSettings((prev) => ({ ...prev, language }));
+    setLanguage(language).catch(console.error);
+  };
+
+  const addCustomOffer = () => {
+    const validation = customOfferTypeSchema.safeParse(newOffer);
+    if (!validation.success) {
+      showToast(
+        validation.error.errors[0]?.message || t("settings.invalidOffer"),
+        "error",
+      );
+      return;
+    }
+
+    const key = customOfferKey(validation.data.sourceType);
+    const builtInSourceTypes = DEFAULT_OFFER_TYPES.map(
+      (type) => type.primaryUrl.match(/sourceType=(\d+)/)?.[1],
+    );
+    if (
+      builtInSourceTypes.includes(validation.data.sourceType) ||
+      settings.customOfferTypes.some(
+        (offer) => customOfferKey(offer.sourceType) === key,
+      )
+    ) {
+      showToast(t("settings.duplicateSourceType"), "error");
+      return;
+    }
+
+    if (settings.customOfferTypes.length >= MAX_CUSTOM_OFFER_TYPES) {
+      showToast(
+        t("settings.customOfferLimit", { max: MAX_CUSTOM_OFFER_TYPES }),
+        "error",
+      );
+      return;
+    }
+
+    updateSetting("customOfferTypes", [
+      ...settings.customOfferTypes,
+      validation.data,
+    ]);
+    setNewOffer({ label: "", sourceType: "" });
+    showToast(t("settings.customOfferAdded"), "success");
+  };
+
+  const offerTypes = getUserOfferTypes(settings);
+
+  const toggleOfferType = (key: string) => {
+    const isDisabled = settings.disabledOfferKeys.includes(key);
+    if (!isDisabled && offerTypes.filter((type) => type.enabled).length === 1) {
+      showToast(t("settings.keepOneOffer"), "error");
+      return;
+    }
+
+    updateSetting(
+      "disabledOfferKeys",
+      isDisabled
+        ? settings.disabledOfferKeys.filter((disabled) => disabled !== key)
+        : [...settings.disabledOfferKeys, key],
+    );
+  };
+
+  const moveOfferType = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= offerTypes.length) return;
+
+    const order = offerTypes.map((type) => type.key);
+    [order[index], order[target]] = [order[target], order[index]];
+    updateSetting("offerOrder", order);
+  };
+
+  const addProfile = () => {
+    const name = newProfile.name.trim();
+    const trackingId = newProfile.trackingId.trim();
+    if (!name || !trackingId) {
+      showToast(t("settings.profileRequired"), "error");
+      return;
+    }
+
+    if (
+      settings.profiles.some(
+        (profile) => profile.name.toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      showToast(t("settings.duplicateProfile"), "error");
+      return;
+    }
+
+    updateSetting("profiles", [
+      ...settings.profiles,
+      { id: `profile-${Date.now()}`, name, trackingId },
+    ]);
+    setNewProfile({ name: "", trackingId: "" });
+    showToast(t("settings.profileAdded"), "success");
+  };
+
+  const removeProfile = (profileId: string) => {
+    updateSetting(
+      "profiles",
+      settings.profiles.filter((profile) => profile.id !== profileId),
+    );
+    if (settings.activeProfileId === profileId) {
+      updateSetting("activeProfileId", null);
+    }
+  };
+
+  const removeCustomOffer = (sourceType: string) => {
+    updateSetting(
+      "customOfferTypes",
+      settings.customOfferTypes.filter(
+        (offer) => offer.sourceType !== sourceType,
+      ),
+    );
+  };
+
   const ThemeOption = ({
     value,
     label,
@@ -102,7 +330,7 @@ export default function SettingsScreen() {
         },
         pressed && styles.pressed,
       ]}
-      onPress={() => updateSetting("theme", value)}
+      onPress={() => handleThemeChange(value)}
     >
       <Feather
         name={icon}
@@ -141,7 +369,7 @@ export default function SettingsScreen() {
         },
         pressed && styles.pressed,
       ]}
-      onPress={() => updateSetting("language", value)}
+      onPress={() => handleLanguageChange(value)}
     >
       <ThemedText
         type="body"
@@ -173,14 +401,26 @@ export default function SettingsScreen() {
           <View style={styles.sectionHeader}>
             <Feather name="sun" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              Appearance
+              {t("settings.appearance")}
             </ThemedText>
           </View>
 
           <View style={styles.themeContainer}>
-            <ThemeOption value="light" label="Light" icon="sun" />
-            <ThemeOption value="dark" label="Dark" icon="moon" />
-            <ThemeOption value="system" label="System" icon="smartphone" />
+            <ThemeOption
+              value="light"
+              label={t("settings.themeLight")}
+              icon="sun"
+            />
+            <ThemeOption
+              value="dark"
+              label={t("settings.themeDark")}
+              icon="moon"
+            />
+            <ThemeOption
+              value="system"
+              label={t("settings.themeSystem")}
+              icon="smartphone"
+            />
           </View>
         </View>
 
@@ -188,7 +428,7 @@ export default function SettingsScreen() {
           <View style={styles.sectionHeader}>
             <Feather name="globe" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              Language
+              {t("settings.language")}
             </ThemedText>
           </View>
 
@@ -202,19 +442,19 @@ export default function SettingsScreen() {
           <View style={styles.sectionHeader}>
             <Feather name="key" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              API Configuration
+              {t("settings.apiConfiguration")}
             </ThemedText>
           </View>
           <ThemedText
             type="small"
             style={[styles.sectionDescription, { color: theme.textSecondary }]}
           >
-            Enter your AliExpress Affiliate API credentials
+            {t("settings.apiDescription")}
           </ThemedText>
 
           <View style={styles.inputGroup}>
             <ThemedText type="small" style={styles.inputLabel}>
-              APP KEY
+              {t("settings.appKey")}
             </ThemedText>
             <View
               style={[
@@ -224,7 +464,7 @@ export default function SettingsScreen() {
             >
               <TextInput
                 style={[styles.input, { color: theme.text }]}
-                placeholder="Enter your APP KEY"
+                placeholder={t("settings.appKeyPlaceholder")}
                 placeholderTextColor={theme.textSecondary}
                 value={settings.appKey}
                 onChangeText={(value) => updateSetting("appKey", value)}
@@ -252,7 +492,7 @@ export default function SettingsScreen() {
 
           <View style={styles.inputGroup}>
             <ThemedText type="small" style={styles.inputLabel}>
-              APP SECRET
+              {t("settings.appSecret")}
             </ThemedText>
             <View
               style={[
@@ -262,7 +502,11 @@ export default function SettingsScreen() {
             >
               <TextInput
                 style={[styles.input, { color: theme.text }]}
-                placeholder="Enter your APP SECRET"
+                placeholder={
+                  settings.credentialsStored
+                    ? t("settings.appSecretSaved", { hint: appSecretHint })
+                    : t("settings.appSecretPlaceholder")
+                }
                 placeholderTextColor={theme.textSecondary}
                 value={settings.appSecret}
                 onChangeText={(value) => updateSetting("appSecret", value)}
@@ -290,7 +534,7 @@ export default function SettingsScreen() {
 
           <View style={styles.inputGroup}>
             <ThemedText type="small" style={styles.inputLabel}>
-              TRACKING ID
+              {t("settings.trackingId")}
             </ThemedText>
             <View
               style={[
@@ -300,7 +544,7 @@ export default function SettingsScreen() {
             >
               <TextInput
                 style={[styles.input, { color: theme.text }]}
-                placeholder="Enter your Tracking ID"
+                placeholder={t("settings.trackingIdPlaceholder")}
                 placeholderTextColor={theme.textSecondary}
                 value={settings.trackingId}
                 onChangeText={(value) => updateSetting("trackingId", value)}
@@ -309,6 +553,53 @@ export default function SettingsScreen() {
               />
             </View>
           </View>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.testButton,
+              { borderColor: AppColors.primary },
+              pressed && styles.pressed,
+            ]}
+            onPress={handleTestConnection}
+            disabled={isTesting}
+            testID="button-test-connection"
+          >
+            {isTesting ? (
+              <ActivityIndicator size="small" color={AppColors.primary} />
+            ) : (
+              <Feather name="activity" size={18} color={AppColors.primary} />
+            )}
+            <ThemedText type="body" style={styles.testButtonText}>
+              {t("settings.testConnection")}
+            </ThemedText>
+          </Pressable>
+
+          {connectionResult ? (
+            <View style={styles.connectionResult}>
+              <Feather
+                name={
+                  connectionResult.success ? "check-circle" : "alert-circle"
+                }
+                size={16}
+                color={
+                  connectionResult.success ? AppColors.success : AppColors.error
+                }
+              />
+              <ThemedText
+                type="small"
+                style={[
+                  styles.connectionResultText,
+                  {
+                    color: connectionResult.success
+                      ? AppColors.success
+                      : AppColors.error,
+                  },
+                ]}
+              >
+                {describeVerification(connectionResult)}
+              </ThemedText>
+            </View>
+          ) : null}
         </View>
 
         <Pressable
@@ -321,15 +612,303 @@ export default function SettingsScreen() {
         >
           <Feather name="save" size={20} color="#FFFFFF" />
           <ThemedText type="body" style={styles.saveButtonText}>
-            Save Settings
+            {t("settings.save")}
           </ThemedText>
         </Pressable>
 
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="users" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("settings.profiles")}
+            </ThemedText>
+          </View>
+          <ThemedText
+            type="small"
+            style={[styles.sectionDescription, { color: theme.textSecondary }]}
+          >
+            {t("settings.profilesDescription")}
+          </ThemedText>
+
+          {settings.profiles.map((profile) => (
+            <View
+              key={profile.id}
+              style={[
+                styles.listRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor:
+                    settings.activeProfileId === profile.id
+                      ? AppColors.primary
+                      : theme.border,
+                },
+              ]}
+            >
+              <View style={styles.listRowInfo}>
+                <ThemedText type="body">{profile.name}</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {profile.trackingId}
+                </ThemedText>
+              </View>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.eyeButton,
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => removeProfile(profile.id)}
+                testID={`button-remove-profile-${profile.id}`}
+              >
+                <Feather name="trash-2" size={18} color={AppColors.error} />
+              </Pressable>
+            </View>
+          ))}
+
+          <View style={styles.addForm}>
+            <View
+              style={[
+                styles.inputContainer,
+                styles.addFormWideInput,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <TextInput
+                style={[styles.input, { color: theme.text }]}
+                placeholder={t("settings.profileName")}
+                placeholderTextColor={theme.textSecondary}
+                value={newProfile.name}
+                onChangeText={(name) =>
+                  setNewProfile((prev) => ({ ...prev, name }))
+                }
+                testID="input-profile-name"
+              />
+            </View>
+            <View
+              style={[
+                styles.inputContainer,
+                styles.addFormWideInput,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <TextInput
+                style={[styles.input, { color: theme.text }]}
+                placeholder={t("settings.profileTrackingId")}
+                placeholderTextColor={theme.textSecondary}
+                value={newProfile.trackingId}
+                onChangeText={(trackingId) =>
+                  setNewProfile((prev) => ({ ...prev, trackingId }))
+                }
+                autoCapitalize="none"
+                testID="input-profile-tracking-id"
+              />
+            </View>
+            <Pressable
+              style={({ pressed }) => [
+                styles.addButton,
+                pressed && styles.pressed,
+              ]}
+              onPress={addProfile}
+              testID="button-add-profile"
+            >
+              <Feather name="plus" size={20} color="#FFFFFF" />
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="list" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("settings.offerTypes")}
+            </ThemedText>
+          </View>
+          <ThemedText
+            type="small"
+            style={[styles.sectionDescription, { color: theme.textSecondary }]}
+          >
+            {t("settings.offerTypesDescription")}
+          </ThemedText>
+
+          {offerTypes.map((type, index) => (
+            <View
+              key={type.key}
+              style={[
+                styles.offerTypeRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: type.enabled ? AppColors.primary : theme.border,
+                },
+              ]}
+            >
+              <Pressable
+                style={({ pressed }) => [
+                  styles.offerTypeToggle,
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => toggleOfferType(type.key)}
+                testID={`toggle-offer-${type.key}`}
+              >
+                <Feather
+                  name={type.enabled ? "check-square" : "square"}
+                  size={20}
+                  color={type.enabled ? AppColors.primary : theme.textSecondary}
+                />
+                <ThemedText
+                  type="body"
+                  style={[
+                    styles.offerTypeLabel,
+                    !type.enabled && { color: theme.textSecondary },
+                  ]}
+                >
+                  {offerLabel(type.key, type.label)}
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.eyeButton,
+                  index === 0 && styles.disabledButton,
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => moveOfferType(index, -1)}
+                disabled={index === 0}
+                testID={`button-move-up-${type.key}`}
+              >
+                <Feather name="chevron-up" size={20} color={theme.text} />
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.eyeButton,
+                  index === offerTypes.length - 1 && styles.disabledButton,
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => moveOfferType(index, 1)}
+                disabled={index === offerTypes.length - 1}
+                testID={`button-move-down-${type.key}`}
+              >
+                <Feather name="chevron-down" size={20} color={theme.text} />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="tag" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("settings.customOffers")}
+            </ThemedText>
+          </View>
+          <ThemedText
+            type="small"
+            style={[styles.sectionDescription, { color: theme.textSecondary }]}
+          >
+            {t("settings.customOffersDescription")}
+          </ThemedText>
+
+          {settings.customOfferTypes.map((offer) => (
+            <View
+              key={offer.sourceType}
+              style={[
+                styles.listRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <View style={styles.listRowInfo}>
+                <ThemedText type="body">{offer.label}</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  sourceType={offer.sourceType} ·{" "}
+                  {`{${customOfferKey(offer.sourceType)}}`}
+                </ThemedText>
+              </View>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.eyeButton,
+                  pressed && styles.pressed,
+                ]}
+                onPress={() => removeCustomOffer(offer.sourceType)}
+                testID={`button-remove-offer-${offer.sourceType}`}
+              >
+                <Feather name="trash-2" size={18} color={AppColors.error} />
+              </Pressable>
+            </View>
+          ))}
+
+          <View style={styles.addForm}>
+            <View
+              style={[
+                styles.inputContainer,
+                styles.addFormWideInput,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <TextInput
+                style={[styles.input, { color: theme.text }]}
+                placeholder={t("settings.offerName")}
+                placeholderTextColor={theme.textSecondary}
+                value={newOffer.label}
+                onChangeText={(label) =>
+                  setNewOffer((prev) => ({ ...prev, label }))
+                }
+                testID="input-custom-offer-name"
+              />
+            </View>
+            <View
+              style={[
+                styles.inputContainer,
+                styles.addFormNarrowInput,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  borderColor: theme.border,
+                },
+              ]}
+            >
+              <TextInput
+                style={[styles.input, { color: theme.text }]}
+                placeholder="sourceType"
+                placeholderTextColor={theme.textSecondary}
+                value={newOffer.sourceType}
+                onChangeText={(sourceType) =>
+                  setNewOffer((prev) => ({ ...prev, sourceType }))
+                }
+                keyboardType="number-pad"
+                testID="input-custom-offer-source-type"
+              />
+            </View>
+            <Pressable
+              style={({ pressed }) => [
+                styles.addButton,
+                pressed && styles.pressed,
+              ]}
+              onPress={addCustomOffer}
+              testID="button-add-custom-offer"
+            >
+              <Feather name="plus" size={20} color="#FFFFFF" />
+            </Pressable>
+          </View>
+        </View>
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Feather name="info" size={18} color={AppColors.primary} />
             <ThemedText type="h4" style={styles.sectionTitle}>
-              About
+              {t("settings.about")}
             </ThemedText>
           </View>
 
@@ -341,13 +920,13 @@ export default function SettingsScreen() {
           >
             <View style={styles.aboutRow}>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                Version
+                {t("settings.version")}
               </ThemedText>
               <ThemedText type="body">1.0.0</ThemedText>
             </View>
             <View style={styles.aboutRow}>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                Developer
+                {t("settings.developer")}
               </ThemedText>
               <ThemedText type="body">Rabah Coupons</ThemedText>
             </View>
@@ -380,7 +959,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
   },
   sectionTitle: {
-    marginLeft: Spacing.sm,
+    marginStart: Spacing.sm,
   },
   sectionDescription: {
     marginBottom: Spacing.md,
@@ -434,6 +1013,79 @@ const styles = StyleSheet.create({
   eyeButton: {
     padding: Spacing.sm,
   },
+  offerTypeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingStart: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  offerTypeToggle: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  offerTypeLabel: {
+    marginStart: Spacing.sm,
+  },
+  disabledButton: {
+    opacity: 0.3,
+  },
+  listRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingStart: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  listRowInfo: {
+    flex: 1,
+  },
+  addForm: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  addFormWideInput: {
+    flex: 2,
+  },
+  addFormNarrowInput: {
+    flex: 1,
+  },
+  addButton: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    backgroundColor: AppColors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  testButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  testButtonText: {
+    color: AppColors.primary,
+    fontWeight: "600",
+  },
+  connectionResult: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  connectionResultText: {
+    flex: 1,
+  },
   saveButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,514 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Toast } from "@/components/Toast";
+import { LoadingOverlay } from "@/components/LoadingOverlay";
+import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  getRecentProducts,
+  getSettings,
+  hasApiCredentials,
+} from "@/lib/storage";
+import { fetchProduct } from "@/lib/product-api";
+import { recordProduct } from "@/lib/history-api";
+import {
+  checkWatchNow,
+  fetchAlertWebhook,
+  fetchPriceAlerts,
+  fetchWatchlist,
+  markPriceAlertsRead,
+  removeWatch,
+  saveAlertWebhook,
+} from "@/lib/watchlist-api";
+import { buildProductUrl } from "@shared/links";
+import { formatPriceValue } from "@shared/price-history";
+import {
+  getDropPercent,
+  getWatchThreshold,
+  type PriceAlert,
+  type WatchlistItem,
+} from "@shared/watchlist";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export default function WatchlistScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isOpening, setIsOpening] = useState(false);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [isSavingWebhook, setIsSavingWebhook] = useState(false);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as const,
+  });
+
+  const showToast = (
+    message: string,
+    type: "success" | "error" | "info" = "success",
+  ) => {
+    setToast({ visible: true, message, type: "success" });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  const showError = (error: unknown) => {
+    showToast(
+      error instanceof Error ? error.message : t("common.requestFailed"),
+      "error",
+    );
+  };
+
+  const loadWatchlist = useCallback(async () => {
+    try {
+      const [watchlist, priceAlerts, webhook] = await Promise.all([
+        fetchWatchlist(),
+        fetchPriceAlerts(),
+        fetchAlertWebhook(),
+      ]);
+      setItems(watchlist);
+      setAlerts(priceAlerts);
+      setWebhookUrl(webhook ?? "");
+    } catch (error) {
+      console.error("Failed to load watchlist:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadWatchlist();
+    }, [loadWatchlist]),
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadWatchlist();
+    setIsRefreshing(false);
+  };
+
+  // Watched products are opened from the recent list when possible so the
+  // details screen does not need a new lookup
+  const openProduct = async (productId: string) => {
+    const recent = await getRecentProducts();
+    const saved = recent.find((product) => product.productId === productId);
+    if (saved) {
+      navigation.navigate("ProductDetails", { product: saved });
+      return;
+    }
+
+    const settings = await getSettings();
+    if (!hasApiCredentials(settings)) {
+      showToast(t("common.configureApiKeys"), "error");
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      const product = await fetchProduct(buildProductUrl(productId), settings);
+      await recordProduct(product);
+      navigation.navigate("ProductDetails", { product });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleCheckNow = async (item: WatchlistItem) => {
+    setCheckingId(item.id);
+    try {
+      const updated = await checkWatchNow(item.id);
+      setItems((prev) =>
+        prev.map((entry) => (entry.id === updated.id ? updated : entry)),
+      );
+      if (updated.triggeredAt && !item.triggeredAt) {
+        setAlerts(await fetchPriceAlerts());
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleRemove = async (item: WatchlistItem) => {
+    try {
+      await removeWatch(item.id);
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+      setAlerts((prev) => prev.filter((alert) => alert.watchId !== item.id));
+      showToast(t("watch.removed"), "success");
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markPriceAlertsRead();
+      const readAt = new Date().toISOString();
+      setAlerts((prev) =>
+        prev.map((alert) => ({ ...alert, readAt: alert.readAt ?? readAt })),
+      );
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSaveWebhook = async () => {
+    setIsSavingWebhook(true);
+    try {
+      const saved = await saveAlertWebhook(webhookUrl.trim());
+      setWebhookUrl(saved ?? "");
+      showToast(t("watch.webhookSaved"), "success");
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSavingWebhook(false);
+    }
+  };
+
+  const hasUnreadAlerts = alerts.some((alert) => !alert.readAt);
+
+  const renderAlert = (alert: PriceAlert) => (
+    <Pressable
+      key={alert.id}
+      style={({ pressed }) => [
+        styles.card,
+        {
+          backgroundColor: theme.backgroundDefault,
+          borderColor: alert.readAt ? theme.border : AppColors.success,
+        },
+        pressed && styles.pressed,
+      ]}
+      onPress={() => openProduct(alert.productId)}
+      testID={`alert-${alert.id}`}
+    >
+      <Feather
+        name="trending-down"
+        size={20}
+        color={alert.readAt ? theme.textSecondary : AppColors.success}
+      />
+      <View style={styles.cardContent}>
+        <ThemedText type="small" numberOfLines={1}>
+          {alert.title}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: AppColors.success }}>
+          {t("watch.alertDrop", {
+            price: alert.price,
+            base: formatPriceValue(alert.basePrice),
+            percent: getDropPercent(alert.basePrice, alert.priceValue),
+          })}
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {new Date(alert.createdAt).toLocaleString()}
+        </ThemedText>
+      </View>
+    </Pressable>
+  );
+
+  const renderItem = (item: WatchlistItem) => {
+    const threshold = getWatchThreshold(item, item.basePrice);
+
+    return (
+      <Pressable
+        key={item.id}
+        style={({ pressed }) => [
+          styles.card,
+          {
+            backgroundColor: theme.backgroundDefault,
+            borderColor: theme.border,
+          },
+          pressed && styles.pressed,
+        ]}
+        onPress={() => openProduct(item.productId)}
+        testID={`watch-${item.productId}`}
+      >
+        {item.imageUrl ? (
+          <Image
+            source={{ uri: item.imageUrl }}
+            style={styles.image}
+            contentFit="cover"
+          />
+        ) : (
+          <View style={[styles.image, { backgroundColor: theme.border }]} />
+        )}
+        <View style={styles.cardContent}>
+          <ThemedText type="small" numberOfLines={2}>
+            {item.title}
+          </ThemedText>
+          <ThemedText type="h4" style={{ color: AppColors.primary }}>
+            {item.lastPrice ?? formatPriceValue(item.basePrice)}
+          </ThemedText>
+          {threshold !== null && (
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("watch.watching", { price: formatPriceValue(threshold) })}
+            </ThemedText>
+          )}
+          {item.triggeredAt ? (
+            <ThemedText type="caption" style={{ color: AppColors.success }}>
+              {t("watch.triggered")}
+            </ThemedText>
+          ) : (
+            <ThemedText
+              type="caption"
+              style={{
+                color: item.lastError ? AppColors.error : theme.textSecondary,
+              }}
+            >
+              {item.lastError ??
+                (item.lastCheckedAt
+                  ? t("watch.lastChecked", {
+                      date: new Date(item.lastCheckedAt).toLocaleString(),
+                    })
+                  : t("watch.notChecked"))}
+            </ThemedText>
+          )}
+        </View>
+        <View style={styles.cardActions}>
+          <Pressable
+            style={styles.iconButton}
+            onPress={() => handleCheckNow(item)}
+            disabled={checkingId !== null}
+            accessibilityLabel={t("watch.checkNow")}
+            testID={`button-check-${item.productId}`}
+          >
+            {checkingId === item.id ? (
+              <ActivityIndicator size="small" color={AppColors.primary} />
+            ) : (
+              <Feather name="refresh-cw" size={18} color={AppColors.primary} />
+            )}
+          </Pressable>
+          <Pressable
+            style={styles.iconButton}
+            onPress={() => handleRemove(item)}
+            accessibilityLabel={t("watch.remove")}
+            testID={`button-unwatch-${item.productId}`}
+          >
+            <Feather name="trash-2" size={18} color={AppColors.error} />
+          </Pressable>
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+      <LoadingOverlay visible={isOpening} />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={AppColors.primary}
+          />
+        }
+      >
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="bell" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("watch.alerts")}
+            </ThemedText>
+            {hasUnreadAlerts && (
+              <Pressable
+                onPress={handleMarkAllRead}
+                testID="button-mark-alerts-read"
+              >
+                <ThemedText type="small" style={{ color: AppColors.primary }}>
+                  {t("watch.markAllRead")}
+                </ThemedText>
+              </Pressable>
+            )}
+          </View>
+          {alerts.length > 0 ? (
+            alerts.map(renderAlert)
+          ) : (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {t("watch.noAlerts")}
+            </ThemedText>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="eye" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("watch.watchedProducts")}
+            </ThemedText>
+          </View>
+          {items.length > 0 ? (
+            items.map(renderItem)
+          ) : (
+            <View style={styles.emptyState}>
+              <ThemedText type="body" style={styles.emptyTitle}>
+                {t("watch.empty")}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.emptyText, { color: theme.textSecondary }]}
+              >
+                {t("watch.emptyHint")}
+              </ThemedText>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Feather name="send" size={18} color={AppColors.primary} />
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              {t("watch.webhook")}
+            </ThemedText>
+          </View>
+          <ThemedText
+            type="small"
+            style={[styles.webhookHint, { color: theme.textSecondary }]}
+          >
+            {t("watch.webhookHint")}
+          </ThemedText>
+          <View style={[styles.inputContainer, { borderColor: theme.border }]}>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder={t("watch.webhookPlaceholder")}
+              placeholderTextColor={theme.textSecondary}
+              value={webhookUrl}
+              onChangeText={setWebhookUrl}
+              autoCapitalize="none"
+              keyboardType="url"
+              testID="input-alert-webhook"
+            />
+            <Pressable
+              style={styles.iconButton}
+              onPress={handleSaveWebhook}
+              disabled={isSavingWebhook}
+              testID="button-save-webhook"
+            >
+              {isSavingWebhook ? (
+                <ActivityIndicator size="small" color={AppColors.primary} />
+              ) : (
+                <Feather name="check" size={20} color={AppColors.primary} />
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    flex: 1,
+    marginStart: Spacing.sm,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  image: {
+    width: 60,
+    height: 60,
+    borderRadius: BorderRadius.sm,
+  },
+  cardContent: {
+    flex: 1,
+    gap: 2,
+  },
+  cardActions: {
+    gap: Spacing.xs,
+  },
+  iconButton: {
+    padding: Spacing.sm,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+  },
+  emptyTitle: {
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  emptyText: {
+    textAlign: "center",
+  },
+  webhookHint: {
+    marginBottom: Spacing.md,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+});
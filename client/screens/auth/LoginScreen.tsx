@@ -8,6 +8,7 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest } from "@/lib/query-client";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
@@ -20,6 +21,7 @@ export default function LoginScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
   const { login } = useAuth();
+  const { t, isRTL } = useTranslation();
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -31,12 +33,12 @@ export default function LoginScreen() {
     setError("");
 
     if (!email.trim()) {
-      setError("يرجى إدخال البريد الإلكتروني");
+      setError(t("auth.emailRequired"));
       return;
     }
 
     if (!password.trim()) {
-      setError("يرجى إدخال كلمة المرور");
+      setError(t("auth.passwordRequired"));
       return;
     }
 
@@ -49,15 +51,15 @@ export default function LoginScreen() {
       });
 
       const data = await response.json();
-      await login(data.user);
+      await login(data);
     } catch (err: any) {
-      const errorMessage = err.message || "حدث خطأ أثناء تسجيل الدخول";
+      const errorMessage = err.message || t("auth.loginFailed");
       if (errorMessage.includes("404") || errorMessage.includes("not found")) {
-        setError("لم يتم العثور على حساب بهذا البريد الإلكتروني");
+        setError(t("auth.userNotFound"));
       } else if (errorMessage.includes("401") || errorMessage.includes("Invalid")) {
-        setError("كلمة المرور غير صحيحة");
+        setError(t("auth.wrongPassword"));
       } else {
-        setError("حدث خطأ أثناء تسجيل الدخول. يرجى المحاولة لاحقاً");
+        setError(t("auth.loginRetry"));
       }
     } finally {
       setIsLoading(false);
@@ -82,15 +84,19 @@ export default function LoginScreen() {
             onPress={() => navigation.goBack()}
             testID="button-back"
           >
-            <Feather name="arrow-left" size={24} color={theme.text} />
+            <Feather
+              name={isRTL ? "arrow-right" : "arrow-left"}
+              size={24}
+              color={theme.text}
+            />
           </Pressable>
 
           <View style={styles.headerSection}>
             <ThemedText type="h1" style={styles.title}>
-              مرحباً بك
+              {t("auth.loginTitle")}
             </ThemedText>
             <ThemedText type="body" style={{ color: theme.textSecondary }}>
-              قم بتسجيل الدخول للمتابعة
+              {t("auth.loginSubtitle")}
             </ThemedText>
           </View>
 
@@ -106,7 +112,7 @@ export default function LoginScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                البريد الإلكتروني
+                {t("auth.email")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
@@ -125,7 +131,7 @@ export default function LoginScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                كلمة المرور
+                {t("auth.password")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
@@ -161,18 +167,18 @@ export default function LoginScreen() {
                 <ActivityIndicator color="#FFFFFF" />
               ) : (
                 <ThemedText type="body" style={styles.loginButtonText}>
-                  تسجيل الدخول
+                  {t("auth.login")}
                 </ThemedText>
               )}
             </Pressable>
 
             <View style={styles.registerSection}>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                ليس لديك حساب؟{" "}
+                {t("auth.noAccount")}{" "}
               </ThemedText>
               <Pressable onPress={() => navigation.navigate("Register")}>
                 <ThemedText type="small" style={styles.registerLink}>
-                  إنشاء حساب
+                  {t("auth.createAccount")}
                 </ThemedText>
               </Pressable>
             </View>
@@ -202,7 +208,7 @@ const styles = StyleSheet.create({
   },
   headerSection: {
     marginBottom: Spacing["3xl"],
-    alignItems: "flex-end",
+    alignItems: "flex-start",
   },
   title: {
     marginBottom: Spacing.sm,
@@ -221,14 +227,12 @@ const styles = StyleSheet.create({
   errorText: {
     color: AppColors.error,
     flex: 1,
-    textAlign: "right",
   },
   inputGroup: {
     gap: Spacing.sm,
   },
   label: {
     fontWeight: "500",
-    textAlign: "right",
   },
   inputContainer: {
     flexDirection: "row",
@@ -241,7 +245,6 @@ const styles = StyleSheet.create({
     flex: 1,
     height: 48,
     fontSize: 16,
-    textAlign: "right",
   },
   eyeButton: {
     padding: Spacing.sm,
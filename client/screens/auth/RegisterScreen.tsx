@@ -8,6 +8,7 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest } from "@/lib/query-client";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
@@ -20,6 +21,7 @@ export default function RegisterScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
   const { login } = useAuth();
+  const { t, isRTL } = useTranslation();
 
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
@@ -53,55 +55,55 @@ export default function RegisterScreen() {
     setError("");
 
     if (!firstName.trim()) {
-      setError("يرجى إدخال الاسم");
+      setError(t("auth.firstNameRequired"));
       return;
     }
 
     if (!lastName.trim()) {
-      setError("يرجى إدخال اللقب");
+      setError(t("auth.lastNameRequired"));
       return;
     }
 
     if (!email.trim()) {
-      setError("يرجى إدخال البريد الإلكتروني");
+      setError(t("auth.emailRequired"));
       return;
     }
 
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(email.trim())) {
-      setError("يرجى إدخال بريد إلكتروني صحيح");
+      setError(t("auth.invalidEmail"));
       return;
     }
 
     if (!birthDate.trim()) {
-      setError("يرجى إدخال تاريخ الميلاد");
+      setError(t("auth.birthDateRequired"));
       return;
     }
 
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
     if (!dateRegex.test(birthDate.trim())) {
-      setError("صيغة التاريخ غير صحيحة (YYYY-MM-DD)");
+      setError(t("auth.invalidBirthDate"));
       return;
     }
 
     if (!password) {
-      setError("يرجى إدخال كلمة المرور");
+      setError(t("auth.passwordRequired"));
       return;
     }
 
     if (password.length < 8) {
-      setError("كلمة المرور يجب أن تكون 8 أحرف أو أكثر");
+      setError(t("auth.passwordTooShort"));
       return;
     }
 
     const hasLetterAndNumber = /^(?=.*[a-zA-Z])(?=.*[0-9])/.test(password);
     if (!hasLetterAndNumber) {
-      setError("كلمة المرور يجب أن تحتوي على أحرف وأرقام");
+      setError(t("auth.passwordWeak"));
       return;
     }
 
     if (password !== confirmPassword) {
-      setError("كلمتا المرور غير متطابقتين");
+      setError(t("auth.passwordMismatch"));
       return;
     }
 
@@ -117,13 +119,13 @@ export default function RegisterScreen() {
       });
 
       const data = await response.json();
-      await login(data.user);
+      await login(data);
     } catch (err: any) {
       const errorMessage = err.message || "";
       if (errorMessage.includes("409") || errorMessage.includes("exists") || errorMessage.includes("duplicate")) {
-        setError("البريد الإلكتروني مستخدم مسبقاً");
+        setError(t("auth.emailTaken"));
       } else {
-        setError("حدث خطأ أثناء إنشاء الحساب. يرجى المحاولة لاحقاً");
+        setError(t("auth.registerFailed"));
       }
     } finally {
       setIsLoading(false);
@@ -148,15 +150,19 @@ export default function RegisterScreen() {
             onPress={() => navigation.goBack()}
             testID="button-back"
           >
-            <Feather name="arrow-left" size={24} color={theme.text} />
+            <Feather
+              name={isRTL ? "arrow-right" : "arrow-left"}
+              size={24}
+              color={theme.text}
+            />
           </Pressable>
 
           <View style={styles.headerSection}>
             <ThemedText type="h1" style={styles.title}>
-              إنشاء حساب
+              {t("auth.registerTitle")}
             </ThemedText>
             <ThemedText type="body" style={{ color: theme.textSecondary }}>
-              أنشئ حسابك الجديد للبدء
+              {t("auth.registerSubtitle")}
             </ThemedText>
           </View>
 
@@ -172,14 +178,14 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                الاسم
+                {t("auth.firstName")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
                   style={[styles.input, { color: theme.text }]}
                   value={firstName}
                   onChangeText={setFirstName}
-                  placeholder="الاسم"
+                  placeholder={t("auth.firstName")}
                   placeholderTextColor={theme.textSecondary}
                   testID="input-first-name"
                 />
@@ -188,14 +194,14 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                اللقب
+                {t("auth.lastName")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
                   style={[styles.input, { color: theme.text }]}
                   value={lastName}
                   onChangeText={setLastName}
-                  placeholder="اللقب"
+                  placeholder={t("auth.lastName")}
                   placeholderTextColor={theme.textSecondary}
                   testID="input-last-name"
                 />
@@ -204,7 +210,7 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                البريد الإلكتروني
+                {t("auth.email")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
@@ -223,7 +229,7 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                تاريخ الميلاد
+                {t("auth.birthDate")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
@@ -241,14 +247,14 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                كلمة المرور
+                {t("auth.password")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
                   style={[styles.input, { color: theme.text }]}
                   value={password}
                   onChangeText={setPassword}
-                  placeholder="8 أحرف وأرقام على الأقل"
+                  placeholder={t("auth.passwordPlaceholder")}
                   placeholderTextColor={theme.textSecondary}
                   secureTextEntry={!showPassword}
                   testID="input-password"
@@ -265,14 +271,14 @@ export default function RegisterScreen() {
 
             <View style={styles.inputGroup}>
               <ThemedText type="small" style={styles.label}>
-                تأكيد كلمة المرور
+                {t("auth.confirmPassword")}
               </ThemedText>
               <View style={[styles.inputContainer, { backgroundColor: theme.backgroundDefault, borderColor: theme.border }]}>
                 <TextInput
                   style={[styles.input, { color: theme.text }]}
                   value={confirmPassword}
                   onChangeText={setConfirmPassword}
-                  placeholder="أعد كتابة كلمة المرور"
+                  placeholder={t("auth.confirmPasswordPlaceholder")}
                   placeholderTextColor={theme.textSecondary}
                   secureTextEntry={!showConfirmPassword}
                   testID="input-confirm-password"
@@ -301,18 +307,18 @@ export default function RegisterScreen() {
                 <ActivityIndicator color="#FFFFFF" />
               ) : (
                 <ThemedText type="body" style={styles.registerButtonText}>
-                  إنشاء حساب
+                  {t("auth.createAccount")}
                 </ThemedText>
               )}
             </Pressable>
 
             <View style={styles.loginSection}>
               <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                لديك حساب بالفعل؟{" "}
+                {t("auth.haveAccount")}{" "}
               </ThemedText>
               <Pressable onPress={() => navigation.navigate("Login")}>
                 <ThemedText type="small" style={styles.loginLink}>
-                  تسجيل الدخول
+                  {t("auth.login")}
                 </ThemedText>
               </Pressable>
             </View>
@@ -342,7 +348,7 @@ const styles = StyleSheet.create({
   },
   headerSection: {
     marginBottom: Spacing["2xl"],
-    alignItems: "flex-end",
+    alignItems: "flex-start",
   },
   title: {
     marginBottom: Spacing.sm,
@@ -361,14 +367,12 @@ const styles = StyleSheet.create({
   errorText: {
     color: AppColors.error,
     flex: 1,
-    textAlign: "right",
   },
   inputGroup: {
     gap: Spacing.xs,
   },
   label: {
     fontWeight: "500",
-    textAlign: "right",
   },
   inputContainer: {
     flexDirection: "row",
@@ -381,7 +385,6 @@ const styles = StyleSheet.create({
     flex: 1,
     height: 48,
     fontSize: 16,
-    textAlign: "right",
   },
   eyeButton: {
     padding: Spacing.sm,
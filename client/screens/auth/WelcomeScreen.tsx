@@ -7,6 +7,7 @@ import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
+import { useTranslation } from "@/hooks/useTranslation";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import type { AuthStackParamList } from "@/navigation/AuthNavigator";
 
@@ -16,6 +17,7 @@ export default function WelcomeScreen() {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
+  const { t } = useTranslation();
 
   return (
     <ThemedView style={[styles.container, { paddingTop: insets.top + Spacing["3xl"] }]}>
@@ -30,7 +32,7 @@ export default function WelcomeScreen() {
             Offers 365
           </ThemedText>
           <ThemedText type="body" style={[styles.tagline, { color: theme.textSecondary }]}>
-            AliExpress Deals Finder
+            {t("drawer.tagline")}
           </ThemedText>
         </View>
 
@@ -45,7 +47,7 @@ export default function WelcomeScreen() {
             testID="button-login"
           >
             <ThemedText type="body" style={styles.primaryButtonText}>
-              تسجيل الدخول
+              {t("auth.welcomeLogin")}
             </ThemedText>
           </Pressable>
 
@@ -60,7 +62,7 @@ export default function WelcomeScreen() {
             testID="button-register"
           >
             <ThemedText type="body" style={[styles.secondaryButtonText, { color: AppColors.primary }]}>
-              إنشاء حساب
+              {t("auth.welcomeRegister")}
             </ThemedText>
           </Pressable>
         </View>
@@ -0,0 +1,118 @@
+import * as crypto from "crypto";
+import type {
+  CredentialOutcome,
+  CredentialVerification,
+} from "@shared/credentials";
+
+export const ALIEXPRESS_API_URL = "https://api-sg.aliexpress.com/sync";
+
+export interface ApiCredentials {
+  appKey: string;
+  appSecret: string;
+  trackingId: string;
+}
+
+const OUTCOME_MESSAGES: Record<CredentialOutcome, string> = {
+  valid: "Connection successful, credentials are valid",
+  invalid_app_key: "The App Key is not recognised by AliExpress",
+  invalid_signature: "The App Secret does not match the App Key",
+  invalid_tracking_id: "The Tracking ID was not found for this account",
+  rate_limited: "Too many requests to AliExpress, try again in a moment",
+  unreachable: "Could not reach the AliExpress API",
+  api_error: "AliExpress rejected the request",
+};
+
+// Any public product works; the call only has to be accepted and signed
+const TEST_SOURCE_URL = "https://www.aliexpress.com/item/1005005959432370.html";
+
+export function generateApiSignature(
+  params: Record<string, string>,
+  secret: string,
+): string {
+  const sortedKeys = Object.keys(params).sort();
+  const paramString = sortedKeys.map((key) => `${key}${params[key]}`).join("");
+  return crypto
+    .createHmac("sha256", secret)
+    .update(paramString)
+    .digest("hex")
+    .toUpperCase();
+}
+
+/**
+ * Maps an AliExpress error code/message to an outcome. Errors arrive either
+ * from the gateway (error_response) or as a failed resp_result of the call.
+ */
+function classifyApiError(code: string, message: string): CredentialOutcome {
+  const text = `${code} ${message}`;
+  if (/limit|frequen|throttl|too many/i.test(text)) return "rate_limited";
+  if (/signature/i.test(text)) return "invalid_signature";
+  if (/app.?key/i.test(text)) return "invalid_app_key";
+  if (/tracking/i.test(text)) return "invalid_tracking_id";
+  return "api_error";
+}
+
+function verification(
+  outcome: CredentialOutcome,
+  detail?: string,
+): CredentialVerification {
+  const message = OUTCOME_MESSAGES[outcome];
+  return {
+    success: outcome === "valid",
+    outcome,
+    message:
+      detail && outcome === "api_error" ? `${message}: ${detail}` : message,
+  };
+}
+
+/**
+ * Performs a cheap signed call (one promotion link) to check that the
+ * credentials are accepted by the affiliate API.
+ */
+export async function verifyCredentials({
+  appKey,
+  appSecret,
+  trackingId,
+}: ApiCredentials): Promise<CredentialVerification> {
+  const timestamp = new Date().toISOString().replace("T", " ").slice(0, 19);
+  const params: Record<string, string> = {
+    method: "aliexpress.affiliate.link.generate",
+    app_key: appKey,
+    sign_method: "sha256",
+    timestamp,
+    v: "2.0",
+    format: "json",
+    tracking_id: trackingId,
+    promotion_link_type: "0",
+    source_values: TEST_SOURCE_URL,
+  };
+
+  params.sign = generateApiSignature(params, appSecret);
+
+  try {
+    const queryString = new URLSearchParams(params).toString();
+    const response = await fetch(`${ALIEXPRESS_API_URL}?${queryString}`);
+
+    if (response.status === 429) {
+      return verification("rate_limited");
+    }
+
+    const data = await response.json();
+
+    if (data.error_response) {
+      const { code = "", msg = "" } = data.error_response;
+      return verification(classifyApiError(String(code), msg), msg);
+    }
+
+    const result =
+      data.aliexpress_affiliate_link_generate_response?.resp_result;
+    if (result?.resp_code && result.resp_code !== 200) {
+      const msg = result.resp_msg || "";
+      return verification(classifyApiError(String(result.resp_code), msg), msg);
+    }
+
+    return verification("valid");
+  } catch (error) {
+    console.error("Credential verification error:", error);
+    return verification("unreachable");
+  }
+}
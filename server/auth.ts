@@ -1,12 +1,14 @@
 import type { Express, Request, Response } from "express";
 import { eq } from "drizzle-orm";
-import * as crypto from "crypto";
 import { db } from "./db";
-import { users, insertUserSchema, loginSchema } from "@shared/schema";
-
-function hashPassword(password: string): string {
-  return crypto.createHash("sha256").update(password).digest("hex");
-}
+import { hashPassword, needsRehash, verifyPassword } from "./password";
+import { createSession, refreshSession, revokeSession } from "./session";
+import {
+  users,
+  insertUserSchema,
+  loginSchema,
+  refreshSessionSchema,
+} from "@shared/schema";
 
 function generateUserId(): string {
   let id = "";
@@ -61,7 +63,7 @@ export function registerAuthRoutes(app: Express) {
       }
 
       const userId = await generateUniqueUserId();
-      const hashedPassword = hashPassword(password);
+      const hashedPassword = await hashPassword(password);
 
       const [newUser] = await db
         .insert(users)
@@ -75,6 +77,8 @@ export function registerAuthRoutes(app: Express) {
         })
         .returning();
 
+      const tokens = await createSession(newUser.id);
+
       return res.status(201).json({
         message: "User created successfully",
         user: {
@@ -83,6 +87,7 @@ export function registerAuthRoutes(app: Express) {
           lastName: newUser.lastName,
           email: newUser.email,
         },
+        ...tokens,
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -115,13 +120,27 @@ export function registerAuthRoutes(app: Express) {
         });
       }
 
-      const hashedPassword = hashPassword(password);
-      if (user[0].password !== hashedPassword) {
+      const isValidPassword = await verifyPassword(password, user[0].password);
+      if (!isValidPassword) {
         return res.status(401).json({
           message: "Invalid password",
         });
       }
 
+      // Upgrade legacy SHA-256 hashes now that we know the plain password
+      if (needsRehash(user[0].password)) {
+        try {
+          await db
+            .update(users)
+            .set({ password: await hashPassword(password) })
+            .where(eq(users.id, user[0].id));
+        } catch (error) {
+          console.error("Password rehash error:", error);
+        }
+      }
+
+      const tokens = await createSession(user[0].id);
+
       return res.json({
         message: "Login successful",
         user: {
@@ -130,6 +149,7 @@ export function registerAuthRoutes(app: Express) {
           lastName: user[0].lastName,
           email: user[0].email,
         },
+        ...tokens,
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -138,4 +158,45 @@ export function registerAuthRoutes(app: Express) {
       });
     }
   });
+
+  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
+    try {
+      const validation = refreshSessionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const tokens = await refreshSession(validation.data.refreshToken);
+      if (!tokens) {
+        return res.status(401).json({
+          message: "Session has expired",
+        });
+      }
+
+      return res.json(tokens);
+    } catch (error) {
+      console.error("Refresh error:", error);
+      return res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    try {
+      if (req.auth) {
+        await revokeSession(req.auth.sessionId);
+      }
+      return res.json({
+        message: "Logout successful",
+      });
+    } catch (error) {
+      console.error("Logout error:", error);
+      return res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
 }
@@ -0,0 +1,134 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { cacheEntries } from "@shared/schema";
+
+const MAX_MEMORY_ENTRIES = parseInt(
+  process.env.CACHE_MAX_ENTRIES || "5000",
+  10,
+);
+const PERSIST_TO_DATABASE = process.env.CACHE_PERSIST === "true";
+
+function ttlFromEnv(name: string, fallbackSeconds: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallbackSeconds;
+}
+
+export const CacheTtl = {
+  productDetails: ttlFromEnv("CACHE_TTL_PRODUCT_SECONDS", 15 * 60),
+  scrapedDetails: ttlFromEnv("CACHE_TTL_SCRAPE_SECONDS", 24 * 60 * 60),
+  affiliateLinks: ttlFromEnv("CACHE_TTL_LINKS_SECONDS", 6 * 60 * 60),
+};
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Namespaced TTL cache. Entries live in memory and, when CACHE_PERSIST=true,
+ * are also written to the cache_entries table so they survive restarts and
+ * are shared between server instances.
+ */
+export class TtlCache<T> {
+  private static memory = new Map<string, MemoryEntry>();
+
+  constructor(
+    private namespace: string,
+    private ttlSeconds: number,
+  ) {}
+
+  private storageKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    if (this.ttlSeconds === 0) return undefined;
+
+    const storageKey = this.storageKey(key);
+    const entry = TtlCache.memory.get(storageKey);
+
+    if (entry) {
+      if (entry.expiresAt > Date.now()) {
+        return entry.value as T;
+      }
+      TtlCache.memory.delete(storageKey);
+    }
+
+    if (!PERSIST_TO_DATABASE) return undefined;
+
+    try {
+      const [row] = await db
+        .select()
+        .from(cacheEntries)
+        .where(eq(cacheEntries.key, storageKey))
+        .limit(1);
+
+      if (!row || row.expiresAt.getTime() <= Date.now()) {
+        return undefined;
+      }
+
+      TtlCache.remember(storageKey, row.value, row.expiresAt.getTime());
+      return row.value as T;
+    } catch (error) {
+      console.error("Cache read error:", error);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (this.ttlSeconds === 0) return;
+
+    const storageKey = this.storageKey(key);
+    const expiresAt = Date.now() + this.ttlSeconds * 1000;
+    TtlCache.remember(storageKey, value, expiresAt);
+
+    if (!PERSIST_TO_DATABASE) return;
+
+    try {
+      await db
+        .insert(cacheEntries)
+        .values({ key: storageKey, value, expiresAt: new Date(expiresAt) })
+        .onConflictDoUpdate({
+          target: cacheEntries.key,
+          set: { value, expiresAt: new Date(expiresAt) },
+        });
+    } catch (error) {
+      console.error("Cache write error:", error);
+    }
+  }
+
+  /**
+   * Returns the cached value for key, or runs loader and caches its result.
+   * Passing force skips the lookup but still refreshes the cached value.
+   * Results rejected by shouldCache are returned without being stored.
+   */
+  async wrap(
+    key: string,
+    loader: () => Promise<T>,
+    {
+      force = false,
+      shouldCache = () => true,
+    }: { force?: boolean; shouldCache?: (value: T) => boolean } = {},
+  ): Promise<T> {
+    if (!force) {
+      const cached = await this.get(key);
+      if (cached !== undefined) return cached;
+    }
+
+    const value = await loader();
+    if (shouldCache(value)) {
+      await this.set(key, value);
+    }
+    return value;
+  }
+
+  private static remember(key: string, value: unknown, expiresAt: number) {
+    if (TtlCache.memory.size >= MAX_MEMORY_ENTRIES) {
+      // Map iteration order is insertion order, so this evicts the oldest entry
+      const oldestKey = TtlCache.memory.keys().next().value;
+      if (oldestKey !== undefined) TtlCache.memory.delete(oldestKey);
+    }
+    TtlCache.memory.delete(key);
+    TtlCache.memory.set(key, { value, expiresAt });
+  }
+}
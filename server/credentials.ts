@@ -0,0 +1,284 @@
+import type { Express, Request, Response } from "express";
+import { eq } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import { verifyCredentials, type ApiCredentials } from "./aliexpress";
+import {
+  apiCredentials,
+  rotateCredentialsSchema,
+  saveCredentialsSchema,
+  type StoredApiCredentials,
+} from "@shared/schema";
+
+const CIPHER = "aes-256-gcm";
+const ENCRYPTION_VERSION = "v1";
+const IV_BYTES = 12;
+
+export class CredentialsError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CredentialsError";
+    this.status = status;
+  }
+}
+
+function getMasterKey(): Buffer {
+  const masterKey = process.env.CREDENTIALS_MASTER_KEY;
+  if (!masterKey) {
+    throw new CredentialsError("Credential storage is not configured", 503);
+  }
+  // Accept any passphrase; the cipher needs exactly 32 bytes
+  return crypto.createHash("sha256").update(masterKey).digest();
+}
+
+/**
+ * Encrypted format: v1:iv:authTag:ciphertext, each part base64 encoded.
+ */
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, getMasterKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(secret, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    ENCRYPTION_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+}
+
+function decryptSecret(payload: string): string {
+  const [version, iv, authTag, encrypted] = payload.split(":");
+  if (version !== ENCRYPTION_VERSION || !iv || !authTag || !encrypted) {
+    throw new CredentialsError("Stored credentials are corrupted", 500);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      CIPHER,
+      getMasterKey(),
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new CredentialsError(
+      "Stored credentials cannot be decrypted with the current master key",
+      500,
+    );
+  }
+}
+
+async function findStoredRow(
+  userId: string,
+): Promise<StoredApiCredentials | null> {
+  const [row] = await db
+    .select()
+    .from(apiCredentials)
+    .where(eq(apiCredentials.userId, userId))
+    .limit(1);
+  return row || null;
+}
+
+export async function getStoredCredentials(
+  userId: string,
+): Promise<ApiCredentials | null> {
+  const row = await findStoredRow(userId);
+  if (!row) return null;
+
+  return {
+    appKey: row.appKey,
+    appSecret: decryptSecret(row.appSecretEncrypted),
+    trackingId: row.trackingId,
+  };
+}
+
+async function storeCredentials(
+  userId: string,
+  { appKey, appSecret, trackingId }: ApiCredentials,
+): Promise<void> {
+  const values = {
+    appKey,
+    appSecretEncrypted: encryptSecret(appSecret),
+    trackingId,
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(apiCredentials)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: apiCredentials.userId, set: values });
+}
+
+/**
+ * Credentials for an API call: values supplied in the request body take
+ * precedence over the authenticated user's stored credentials, so a
+ * request may override only the tracking ID.
+ */
+export async function resolveCredentials(
+  supplied: Partial<ApiCredentials>,
+  userId?: string,
+): Promise<ApiCredentials | null> {
+  const pick = (value: unknown) =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+  const overrides = {
+    appKey: pick(supplied.appKey),
+    appSecret: pick(supplied.appSecret),
+    trackingId: pick(supplied.trackingId),
+  };
+
+  if (overrides.appKey && overrides.appSecret && overrides.trackingId) {
+    return overrides as ApiCredentials;
+  }
+
+  const stored = userId ? await getStoredCredentials(userId) : null;
+  if (!stored) return null;
+
+  return {
+    appKey: overrides.appKey || stored.appKey,
+    appSecret: overrides.appSecret || stored.appSecret,
+    trackingId: overrides.trackingId || stored.trackingId,
+  };
+}
+
+function maskSecret(secret: string): string {
+  return secret.length > 4 ? `••••${secret.slice(-4)}` : "••••";
+}
+
+async function describeCredentials(userId: string) {
+  const row = await findStoredRow(userId);
+  if (!row) {
+    return { configured: false };
+  }
+
+  return {
+    configured: true,
+    appKey: row.appKey,
+    trackingId: row.trackingId,
+    appSecretHint: maskSecret(decryptSecret(row.appSecretEncrypted)),
+    updatedAt: row.updatedAt,
+  };
+}
+
+function handleCredentialsError(
+  res: Response,
+  error: unknown,
+  context: string,
+) {
+  if (error instanceof CredentialsError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ message: "Internal server error" });
+}
+
+export function registerCredentialsRoutes(app: Express) {
+  app.get("/api/credentials", async (req: Request, res: Response) => {
+    try {
+      return res.json(await describeCredentials(req.auth!.userId));
+    } catch (error) {
+      return handleCredentialsError(res, error, "Credentials read error");
+    }
+  });
+
+  app.put("/api/credentials", async (req: Request, res: Response) => {
+    try {
+      const validation = saveCredentialsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const userId = req.auth!.userId;
+      const { appKey, trackingId } = validation.data;
+      const appSecret =
+        validation.data.appSecret ||
+        (await getStoredCredentials(userId))?.appSecret;
+
+      if (!appSecret) {
+        return res.status(400).json({ message: "App Secret is required" });
+      }
+
+      await storeCredentials(userId, { appKey, appSecret, trackingId });
+      return res.json(await describeCredentials(userId));
+    } catch (error) {
+      return handleCredentialsError(res, error, "Credentials save error");
+    }
+  });
+
+  app.delete("/api/credentials", async (req: Request, res: Response) => {
+    try {
+      await db
+        .delete(apiCredentials)
+        .where(eq(apiCredentials.userId, req.auth!.userId));
+      return res.json({ configured: false });
+    } catch (error) {
+      return handleCredentialsError(res, error, "Credentials delete error");
+    }
+  });
+
+  // Checks the credentials typed in Settings, falling back to stored ones
+  app.post("/api/credentials/verify", async (req: Request, res: Response) => {
+    try {
+      const credentials = await resolveCredentials(
+        req.body || {},
+        req.auth!.userId,
+      );
+      if (!credentials) {
+        return res
+          .status(400)
+          .json({ message: "API credentials are not configured" });
+      }
+
+      return res.json(await verifyCredentials(credentials));
+    } catch (error) {
+      return handleCredentialsError(res, error, "Credentials verify error");
+    }
+  });
+
+  // Replaces the app secret only once the new credentials are accepted
+  app.post("/api/credentials/rotate", async (req: Request, res: Response) => {
+    try {
+      const validation = rotateCredentialsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const userId = req.auth!.userId;
+      const current = await getStoredCredentials(userId);
+      const appKey = validation.data.appKey || current?.appKey;
+      const trackingId = validation.data.trackingId || current?.trackingId;
+
+      if (!appKey || !trackingId) {
+        return res
+          .status(400)
+          .json({ message: "App Key and Tracking ID are required" });
+      }
+
+      const next = { appKey, appSecret: validation.data.appSecret, trackingId };
+      const verification = await verifyCredentials(next);
+      if (!verification.success) {
+        return res.status(400).json({
+          message: `New credentials were rejected: ${verification.message}`,
+        });
+      }
+
+      await storeCredentials(userId, next);
+      return res.json(await describeCredentials(userId));
+    } catch (error) {
+      return handleCredentialsError(res, error, "Credentials rotate error");
+    }
+  });
+}
@@ -0,0 +1,210 @@
+import type { Express, Request, Response } from "express";
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gte,
+  ilike,
+  isNotNull,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import { historyProductSchema, productHistory } from "@shared/schema";
+import {
+  getHistoryValues,
+  historyQuerySchema,
+  type HistoryPage,
+} from "@shared/history";
+
+type HistoryFilters = ReturnType<typeof historyQuerySchema.parse>;
+
+const SORT_COLUMNS = {
+  recent: productHistory.searchedAt,
+  price: productHistory.priceValue,
+  discount: productHistory.discountValue,
+  commission: productHistory.commissionValue,
+};
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+function buildHistoryFilter(userId: string, filters: HistoryFilters): SQL {
+  const conditions: (SQL | undefined)[] = [eq(productHistory.userId, userId)];
+  const discount = sql`coalesce(${productHistory.discountValue}, 0)`;
+
+  if (filters.search) {
+    const pattern = `%${escapeLike(filters.search)}%`;
+    conditions.push(
+      or(
+        ilike(productHistory.title, pattern),
+        ilike(productHistory.storeName, pattern),
+      ),
+    );
+  }
+  if (filters.category) {
+    conditions.push(eq(productHistory.categoryName, filters.category));
+  }
+  if (filters.minDiscount !== undefined) {
+    conditions.push(sql`${discount} >= ${filters.minDiscount}`);
+  }
+  if (filters.maxDiscount !== undefined) {
+    conditions.push(sql`${discount} <= ${filters.maxDiscount}`);
+  }
+  if (filters.from) {
+    conditions.push(gte(productHistory.searchedAt, new Date(filters.from)));
+  }
+  if (filters.to) {
+    conditions.push(lte(productHistory.searchedAt, new Date(filters.to)));
+  }
+
+  return and(...conditions)!;
+}
+
+async function queryProductHistory(
+  userId: string,
+  filters: HistoryFilters,
+): Promise<HistoryPage<unknown>> {
+  const where = buildHistoryFilter(userId, filters);
+  const column = SORT_COLUMNS[filters.sort];
+  // Products without a value go last in either direction
+  const direction = sql.raw(filters.order === "asc" ? "asc" : "desc");
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({ product: productHistory.product })
+      .from(productHistory)
+      .where(where)
+      .orderBy(
+        sql`${column} ${direction} nulls last`,
+        sql`${productHistory.searchedAt} desc`,
+      )
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: count() }).from(productHistory).where(where),
+  ]);
+
+  return { items: rows.map((row) => row.product), total };
+}
+
+export function registerHistoryRoutes(app: Express) {
+  app.get("/api/history", async (req: Request, res: Response) => {
+    const validation = historyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid filters",
+      });
+    }
+
+    try {
+      return res.json(
+        await queryProductHistory(req.auth!.userId, validation.data),
+      );
+    } catch (error) {
+      console.error("History read error:", error);
+      return res.status(500).json({ message: "Failed to load history" });
+    }
+  });
+
+  app.get("/api/history/categories", async (req: Request, res: Response) => {
+    try {
+      const rows = await db
+        .selectDistinct({ category: productHistory.categoryName })
+        .from(productHistory)
+        .where(
+          and(
+            eq(productHistory.userId, req.auth!.userId),
+            isNotNull(productHistory.categoryName),
+          ),
+        )
+        .orderBy(asc(productHistory.categoryName));
+      return res.json(
+        rows
+          .map((row) => row.category!)
+          .filter((category) => category && category !== "N/A"),
+      );
+    } catch (error) {
+      console.error("History categories error:", error);
+      return res.status(500).json({ message: "Failed to load categories" });
+    }
+  });
+
+  // Looking a product up again replaces its stored entry. Uploads queued
+  // offline can arrive late, so an older lookup never replaces a newer one
+  app.put("/api/history/:productId", async (req: Request, res: Response) => {
+    const validation = historyProductSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid product",
+      });
+    }
+
+    const product = validation.data;
+    if (product.productId !== req.params.productId) {
+      return res.status(400).json({ message: "Product ID mismatch" });
+    }
+
+    try {
+      const values = {
+        title: product.title,
+        storeName: product.storeName ?? null,
+        categoryName: product.categoryName ?? null,
+        ...getHistoryValues(product),
+        product,
+        searchedAt: new Date(product.searchedAt),
+      };
+
+      await db
+        .insert(productHistory)
+        .values({
+          id: crypto.randomUUID(),
+          userId: req.auth!.userId,
+          productId: product.productId,
+          ...values,
+        })
+        .onConflictDoUpdate({
+          target: [productHistory.userId, productHistory.productId],
+          set: values,
+          setWhere: sql`${productHistory.searchedAt} <= excluded.searched_at`,
+        });
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("History save error:", error);
+      return res.status(500).json({ message: "Failed to save product" });
+    }
+  });
+
+  app.delete("/api/history/:productId", async (req: Request, res: Response) => {
+    try {
+      await db
+        .delete(productHistory)
+        .where(
+          and(
+            eq(productHistory.userId, req.auth!.userId),
+            eq(productHistory.productId, String(req.params.productId)),
+          ),
+        );
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("History delete error:", error);
+      return res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  app.delete("/api/history", async (req: Request, res: Response) => {
+    try {
+      await db
+        .delete(productHistory)
+        .where(eq(productHistory.userId, req.auth!.userId));
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("History clear error:", error);
+      return res.status(500).json({ message: "Failed to clear history" });
+    }
+  });
+}
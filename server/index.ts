@@ -2,6 +2,18 @@ import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { registerAuthRoutes } from "./auth";
+import { registerCredentialsRoutes } from "./credentials";
+import { registerPriceHistoryRoutes } from "./price-history";
+import { registerHistoryRoutes } from "./history";
+import { registerOrdersRoutes } from "./orders";
+import { registerPromoRoutes } from "./promo";
+import { registerQrRoutes } from "./qr";
+import { registerShortLinkRoutes } from "./short-links";
+import { registerSyncRoutes } from "./sync";
+import { registerWatchlistRoutes, startWatchlistScheduler } from "./watchlist";
+import { requireAuth } from "./session";
+import { MAX_SYNC_BODY_BYTES } from "@shared/sync";
+import type { IncomingMessage, ServerResponse } from "http";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -41,7 +53,7 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
@@ -54,13 +66,13 @@ function setupCors(app: express.Application) {
 }
 
 function setupBodyParsing(app: express.Application) {
-  app.use(
-    express.json({
-      verify: (req, _res, buf) => {
-        req.rawBody = buf;
-      },
-    }),
-  );
+  const verify = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+    req.rawBody = buf;
+  };
+
+  // Synced collections can outgrow the default limit the other routes keep
+  app.use("/api/sync", express.json({ limit: MAX_SYNC_BODY_BYTES, verify }));
+  app.use(express.json({ verify }));
 
   app.use(express.urlencoded({ extended: false }));
 }
@@ -233,7 +245,17 @@ function setupErrorHandler(app: express.Application) {
 
   configureExpoAndLanding(app);
 
+  app.use("/api", requireAuth);
   registerAuthRoutes(app);
+  registerCredentialsRoutes(app);
+  registerPriceHistoryRoutes(app);
+  registerHistoryRoutes(app);
+  registerSyncRoutes(app);
+  registerWatchlistRoutes(app);
+  registerPromoRoutes(app);
+  registerQrRoutes(app);
+  registerShortLinkRoutes(app);
+  registerOrdersRoutes(app);
 
   const server = await registerRoutes(app);
 
@@ -248,6 +270,7 @@ function setupErrorHandler(app: express.Application) {
     },
     () => {
       log(`express server serving on port ${port}`);
+      startWatchlistScheduler();
     },
   );
 })();
\ No newline at end of file
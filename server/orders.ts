@@ -0,0 +1,649 @@
+import type { Express, Request, Response } from "express";
+import {
+  and,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  inArray,
+  lt,
+  lte,
+  max,
+  sql,
+} from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import {
+  ALIEXPRESS_API_URL,
+  generateApiSignature,
+  type ApiCredentials,
+} from "./aliexpress";
+import { CredentialsError, getStoredCredentials } from "./credentials";
+import {
+  affiliateOrders,
+  linkClicks,
+  shortLinks,
+  type AffiliateOrderRow,
+} from "@shared/schema";
+import {
+  orderRangeSchema,
+  type CurrencyEarnings,
+  type EarningsGrouping,
+  type EarningsReport,
+  type EarningsRow,
+  type OrderRange,
+  type OrderSyncResult,
+} from "@shared/orders";
+
+// Every status is queried so the range covers all orders paid in it
+const ORDER_STATUSES = [
+  "Payment Completed",
+  "Buyer Confirmed Receipt",
+  "Completed Settlement",
+  "Invalid",
+] as const;
+
+type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+const ORDER_FIELDS = [
+  "order_id",
+  "sub_order_id",
+  "product_id",
+  "product_title",
+  "product_main_image_url",
+  "paid_amount",
+  "paid_time",
+  "commission_rate",
+  "estimated_paid_commission",
+  "estimated_finished_commission",
+  "completed_settlement_time",
+  "tracking_id",
+  "settled_currency",
+].join(",");
+
+const PAGE_SIZE = 50;
+const MAX_PAGES_PER_STATUS = 40;
+const REQUEST_TIMEOUT_MS = 15000;
+// Order times are sent and returned in Pacific time (GMT-7 or GMT-8)
+const API_TIME_ZONE = "America/Los_Angeles";
+// A sync stops requesting pages after this; what was fetched is still saved
+const SYNC_TIME_LIMIT_MS = 60000;
+// Keeps each upsert well below Postgres' limit of 65535 parameters
+const UPSERT_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Clicks older than this before the payment are not credited to an offer
+const ATTRIBUTION_WINDOW_MS = 30 * DAY_MS;
+const UNATTRIBUTED_OFFER = "other";
+// Spreadsheets run CSV cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+interface ApiOrder {
+  order_id?: string | number;
+  sub_order_id?: string | number;
+  product_id?: string | number;
+  product_title?: string;
+  product_main_image_url?: string;
+  paid_amount?: string | number;
+  paid_time?: string;
+  commission_rate?: string;
+  estimated_paid_commission?: string | number;
+  estimated_finished_commission?: string | number;
+  completed_settlement_time?: string;
+  tracking_id?: string;
+  settled_currency?: string;
+}
+
+type OrderValues = Omit<AffiliateOrderRow, "id" | "userId" | "syncedAt">;
+
+// Every order column takes the synced value when the order is seen again
+const UPSERT_SET = Object.fromEntries(
+  Object.entries(getTableColumns(affiliateOrders))
+    .filter(([key]) => key !== "id" && key !== "userId")
+    .map(([key, column]) => [key, sql.raw(`excluded.${column.name}`)]),
+);
+
+// Users whose orders are being synced; a second sync at the same time
+// would only repeat the same requests
+const activeSyncs = new Set<string>();
+
+export class OrdersError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "OrdersError";
+    this.status = status;
+  }
+}
+
+const apiTimeFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: API_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+/** How far the API's clock is ahead of UTC at the instant, e.g. -7 hours */
+function getApiZoneOffsetMs(date: Date): number {
+  const parts = Object.fromEntries(
+    apiTimeFormat.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The order API reads and writes times as "yyyy-MM-dd HH:mm:ss" in its own
+// zone; stored times are UTC so day buckets match the requested range
+function formatApiTime(date: Date): string {
+  return new Date(date.getTime() + getApiZoneOffsetMs(date))
+    .toISOString()
+    .replace("T", " ")
+    .slice(0, 19);
+}
+
+function parseApiTime(value: string | undefined): Date | null {
+  if (!value) return null;
+  const wallClock = Date.parse(`${value.trim().replace(" ", "T")}Z`);
+  if (isNaN(wallClock)) return null;
+  // The offset is looked up twice so times next to a DST change land on
+  // the offset in effect at the resulting instant
+  const guess = wallClock - getApiZoneOffsetMs(new Date(wallClock));
+  return new Date(wallClock - getApiZoneOffsetMs(new Date(guess)));
+}
+
+/** Order amounts are returned in cents */
+function parseCents(value: string | number | undefined): number {
+  const cents = Number(value);
+  return Number.isFinite(cents) ? cents / 100 : 0;
+}
+
+function getRangeBounds({ from, to }: OrderRange) {
+  return {
+    start: new Date(`${from}T00:00:00Z`),
+    end: new Date(Date.parse(`${to}T00:00:00Z`) + DAY_MS),
+  };
+}
+
+async function requestOrderPage(
+  { appKey, appSecret }: ApiCredentials,
+  status: OrderStatus,
+  start: Date,
+  end: Date,
+  pageNo: number,
+): Promise<{ orders: ApiOrder[]; totalPages: number }> {
+  const params: Record<string, string> = {
+    method: "aliexpress.affiliate.order.list",
+    app_key: appKey,
+    sign_method: "sha256",
+    timestamp: new Date().toISOString().replace("T", " ").slice(0, 19),
+    v: "2.0",
+    format: "json",
+    status,
+    time_type: "Payment Completed Time",
+    start_time: formatApiTime(start),
+    end_time: formatApiTime(new Date(end.getTime() - 1000)),
+    page_no: String(pageNo),
+    page_size: String(PAGE_SIZE),
+    fields: ORDER_FIELDS,
+  };
+
+  params.sign = generateApiSignature(params, appSecret);
+
+  const queryString = new URLSearchParams(params).toString();
+  const apiResponse = await fetch(`${ALIEXPRESS_API_URL}?${queryString}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const data = await apiResponse.json();
+
+  if (data.error_response) {
+    throw new OrdersError(data.error_response.msg || "API Error", 502);
+  }
+
+  const result = data.aliexpress_affiliate_order_list_response?.resp_result;
+  // 405 is how the API reports a page without orders
+  if (result?.resp_code === 405) {
+    return { orders: [], totalPages: 0 };
+  }
+  if (result?.resp_code && result.resp_code !== 200) {
+    throw new OrdersError(result.resp_msg || "API Error", 502);
+  }
+
+  return {
+    orders: result?.result?.orders?.order || [],
+    totalPages: Number(result?.result?.total_page_no) || 0,
+  };
+}
+
+function toOrderValues(
+  status: OrderStatus,
+  order: ApiOrder,
+): OrderValues | null {
+  const paidAt = parseApiTime(order.paid_time);
+  const orderId = order.order_id != null ? String(order.order_id) : "";
+  if (!paidAt || !orderId) return null;
+
+  const paidCommission = parseCents(order.estimated_paid_commission);
+  const finishedCommission = parseCents(order.estimated_finished_commission);
+  const estimatedCommission =
+    status === "Invalid" ? 0 : finishedCommission || paidCommission;
+
+  return {
+    orderId,
+    subOrderId: String(order.sub_order_id ?? orderId),
+    status,
+    productId: String(order.product_id ?? ""),
+    productTitle: order.product_title || "",
+    imageUrl: order.product_main_image_url || null,
+    trackingId: order.tracking_id || "",
+    offerKey: null,
+    offerName: null,
+    currency: order.settled_currency || "USD",
+    paidAmount: parseCents(order.paid_amount),
+    commissionRate: order.commission_rate || null,
+    estimatedCommission,
+    settledCommission:
+      status === "Completed Settlement" ? estimatedCommission : null,
+    paidAt,
+    settledAt: parseApiTime(order.completed_settlement_time),
+  };
+}
+
+/**
+ * Credits each order to the offer whose short link was clicked last for
+ * the same product before the order was paid.
+ */
+async function attributeOffers(
+  userId: string,
+  orders: OrderValues[],
+): Promise<void> {
+  const productIds = [...new Set(orders.map((order) => order.productId))];
+  if (productIds.length === 0) return;
+
+  const paidTimes = orders.map((order) => order.paidAt.getTime());
+  const clicks = await db
+    .select({
+      productId: shortLinks.productId,
+      offerKey: shortLinks.offerKey,
+      offerName: shortLinks.offerName,
+      clickedAt: linkClicks.clickedAt,
+    })
+    .from(linkClicks)
+    .innerJoin(shortLinks, eq(linkClicks.code, shortLinks.code))
+    .where(
+      and(
+        eq(shortLinks.userId, userId),
+        inArray(shortLinks.productId, productIds),
+        gte(
+          linkClicks.clickedAt,
+          new Date(Math.min(...paidTimes) - ATTRIBUTION_WINDOW_MS),
+        ),
+        lte(linkClicks.clickedAt, new Date(Math.max(...paidTimes))),
+      ),
+    )
+    .orderBy(desc(linkClicks.clickedAt));
+
+  for (const order of orders) {
+    const paidAt = order.paidAt.getTime();
+    const click = clicks.find(
+      (entry) =>
+        entry.productId === order.productId &&
+        entry.clickedAt.getTime() <= paidAt &&
+        entry.clickedAt.getTime() >= paidAt - ATTRIBUTION_WINDOW_MS,
+    );
+    if (click) {
+      order.offerKey = click.offerKey;
+      order.offerName = click.offerName;
+    }
+  }
+}
+
+/**
+ * Requests every page of orders paid in the range, one status after the
+ * other. `complete` is false when the page or time limit cut it short.
+ */
+async function fetchOrders(
+  credentials: ApiCredentials,
+  { start, end }: { start: Date; end: Date },
+): Promise<{ orders: OrderValues[]; complete: boolean }> {
+  const deadline = Date.now() + SYNC_TIME_LIMIT_MS;
+  // An order that changed status between two pages is kept once, with
+  // the later status
+  const orders = new Map<string, OrderValues>();
+  let complete = true;
+
+  for (const status of ORDER_STATUSES) {
+    for (let pageNo = 1; pageNo <= MAX_PAGES_PER_STATUS; pageNo++) {
+      if (Date.now() >= deadline) {
+        return { orders: [...orders.values()], complete: false };
+      }
+      const page = await requestOrderPage(
+        credentials,
+        status,
+        start,
+        end,
+        pageNo,
+      );
+      for (const order of page.orders) {
+        const values = toOrderValues(status, order);
+        if (values) orders.set(values.subOrderId, values);
+      }
+      if (pageNo >= page.totalPages) break;
+      if (pageNo === MAX_PAGES_PER_STATUS) complete = false;
+    }
+  }
+
+  return { orders: [...orders.values()], complete };
+}
+
+async function saveOrders(
+  userId: string,
+  orders: OrderValues[],
+  syncedAt: Date,
+): Promise<void> {
+  for (let index = 0; index < orders.length; index += UPSERT_BATCH_SIZE) {
+    await db
+      .insert(affiliateOrders)
+      .values(
+        orders.slice(index, index + UPSERT_BATCH_SIZE).map((values) => ({
+          id: crypto.randomUUID(),
+          userId,
+          ...values,
+          syncedAt,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [affiliateOrders.userId, affiliateOrders.subOrderId],
+        set: UPSERT_SET,
+      });
+  }
+}
+
+/**
+ * Pulls the user's orders paid in the range from AliExpress and stores
+ * them. Orders seen before are updated, so re-syncing picks up status and
+ * settlement changes.
+ */
+async function syncOrders(
+  userId: string,
+  range: OrderRange,
+): Promise<OrderSyncResult> {
+  if (activeSyncs.has(userId)) {
+    throw new OrdersError("Your orders are already being synced", 409);
+  }
+  activeSyncs.add(userId);
+
+  try {
+    const credentials = await getStoredCredentials(userId);
+    if (!credentials) {
+      throw new OrdersError("API credentials are required");
+    }
+
+    const { orders, complete } = await fetchOrders(
+      credentials,
+      getRangeBounds(range),
+    );
+    await attributeOffers(userId, orders);
+
+    const syncedAt = new Date();
+    await saveOrders(userId, orders, syncedAt);
+
+    return {
+      fetched: orders.length,
+      complete,
+      syncedAt: syncedAt.toISOString(),
+    };
+  } finally {
+    activeSyncs.delete(userId);
+  }
+}
+
+async function queryOrders(
+  userId: string,
+  range: OrderRange,
+): Promise<AffiliateOrderRow[]> {
+  const { start, end } = getRangeBounds(range);
+  return db
+    .select()
+    .from(affiliateOrders)
+    .where(
+      and(
+        eq(affiliateOrders.userId, userId),
+        gte(affiliateOrders.paidAt, start),
+        lt(affiliateOrders.paidAt, end),
+      ),
+    )
+    .orderBy(desc(affiliateOrders.paidAt));
+}
+
+const GROUP_KEYS: Record<
+  EarningsGrouping,
+  (order: AffiliateOrderRow) => { key: string; label: string }
+> = {
+  day: (order) => {
+    const day = order.paidAt.toISOString().slice(0, 10);
+    return { key: day, label: day };
+  },
+  product: (order) => ({
+    key: order.productId,
+    label: order.productTitle || order.productId,
+  }),
+  trackingId: (order) => ({ key: order.trackingId, label: order.trackingId }),
+  offerType: (order) => ({
+    key: order.offerKey ?? UNATTRIBUTED_OFFER,
+    label: order.offerName ?? "",
+  }),
+};
+
+function groupOrders(
+  orders: AffiliateOrderRow[],
+  grouping: EarningsGrouping,
+): EarningsRow[] {
+  const rows = new Map<string, EarningsRow>();
+  for (const order of orders) {
+    const { key, label } = GROUP_KEYS[grouping](order);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        label,
+        orders: 0,
+        paidAmount: 0,
+        estimatedCommission: 0,
+        settledCommission: 0,
+      };
+      rows.set(key, row);
+    }
+    row.orders += 1;
+    row.paidAmount += order.paidAmount;
+    row.estimatedCommission += order.estimatedCommission;
+    row.settledCommission += order.settledCommission ?? 0;
+  }
+
+  const sorted = [...rows.values()];
+  // Days read best in calendar order; everything else by earnings
+  return grouping === "day"
+    ? sorted.sort((a, b) => b.key.localeCompare(a.key))
+    : sorted.sort((a, b) => b.estimatedCommission - a.estimatedCommission);
+}
+
+function buildCurrencyEarnings(
+  currency: string,
+  orders: AffiliateOrderRow[],
+): CurrencyEarnings {
+  const totals = {
+    orders: orders.length,
+    paidAmount: 0,
+    estimatedCommission: 0,
+    settledCommission: 0,
+  };
+  for (const order of orders) {
+    totals.paidAmount += order.paidAmount;
+    totals.estimatedCommission += order.estimatedCommission;
+    totals.settledCommission += order.settledCommission ?? 0;
+  }
+
+  return {
+    currency,
+    totals,
+    groups: {
+      day: groupOrders(orders, "day"),
+      product: groupOrders(orders, "product"),
+      trackingId: groupOrders(orders, "trackingId"),
+      offerType: groupOrders(orders, "offerType"),
+    },
+  };
+}
+
+async function buildEarningsReport(
+  userId: string,
+  range: OrderRange,
+): Promise<EarningsReport> {
+  const [orders, [{ lastSyncedAt }]] = await Promise.all([
+    queryOrders(userId, range),
+    db
+      .select({ lastSyncedAt: max(affiliateOrders.syncedAt) })
+      .from(affiliateOrders)
+      .where(eq(affiliateOrders.userId, userId)),
+  ]);
+
+  const byCurrency = new Map<string, AffiliateOrderRow[]>();
+  for (const order of orders) {
+    const currencyOrders = byCurrency.get(order.currency) ?? [];
+    currencyOrders.push(order);
+    byCurrency.set(order.currency, currencyOrders);
+  }
+
+  return {
+    ...range,
+    lastSyncedAt: lastSyncedAt?.toISOString() ?? null,
+    currencies: [...byCurrency]
+      .sort(([, a], [, b]) => b.length - a.length)
+      .map(([currency, currencyOrders]) =>
+        buildCurrencyEarnings(currency, currencyOrders),
+      ),
+  };
+}
+
+function escapeCsv(value: string | number | null): string {
+  let text = value == null ? "" : String(value);
+  // Product titles and tracking IDs come from outside, so a leading quote
+  // keeps them as text; plain numbers such as refunds stay numeric
+  if (FORMULA_PREFIX.test(text) && !NUMBER_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildOrdersCsv(orders: AffiliateOrderRow[]): string {
+  const header = [
+    "paid_at",
+    "order_id",
+    "sub_order_id",
+    "status",
+    "product_id",
+    "product_title",
+    "tracking_id",
+    "offer",
+    "currency",
+    "paid_amount",
+    "commission_rate",
+    "estimated_commission",
+    "settled_commission",
+    "settled_at",
+  ];
+  const lines = orders.map((order) =>
+    [
+      order.paidAt.toISOString(),
+      order.orderId,
+      order.subOrderId,
+      order.status,
+      order.productId,
+      order.productTitle,
+      order.trackingId,
+      order.offerName ?? "",
+      order.currency,
+      order.paidAmount.toFixed(2),
+      order.commissionRate,
+      order.estimatedCommission.toFixed(2),
+      order.settledCommission?.toFixed(2) ?? "",
+      order.settledAt?.toISOString() ?? "",
+    ]
+      .map(escapeCsv)
+      .join(","),
+  );
+  return [header.join(","), ...lines].join("\r\n");
+}
+
+function sendOrdersError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof OrdersError || error instanceof CredentialsError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  return res.status(500).json({ message: fallback });
+}
+
+export function registerOrdersRoutes(app: Express) {
+  app.post("/api/orders/sync", async (req: Request, res: Response) => {
+    const validation = orderRangeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid date range",
+      });
+    }
+
+    try {
+      return res.json(await syncOrders(req.auth!.userId, validation.data));
+    } catch (error) {
+      console.error("Order sync error:", error);
+      return sendOrdersError(res, error, "Failed to sync orders");
+    }
+  });
+
+  app.get("/api/orders/report", async (req: Request, res: Response) => {
+    const validation = orderRangeSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid date range",
+      });
+    }
+
+    try {
+      return res.json(
+        await buildEarningsReport(req.auth!.userId, validation.data),
+      );
+    } catch (error) {
+      console.error("Earnings report error:", error);
+      return sendOrdersError(res, error, "Failed to load the report");
+    }
+  });
+
+  app.get("/api/orders/export", async (req: Request, res: Response) => {
+    const validation = orderRangeSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid date range",
+      });
+    }
+
+    try {
+      const { from, to } = validation.data;
+      const orders = await queryOrders(req.auth!.userId, validation.data);
+      res.attachment(`orders_${from}_${to}.csv`);
+      return res.type("text/csv").send(buildOrdersCsv(orders));
+    } catch (error) {
+      console.error("Order export error:", error);
+      return sendOrdersError(res, error, "Failed to export orders");
+    }
+  });
+}
@@ -0,0 +1,111 @@
+import * as crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+const SCRYPT_PREFIX = "scrypt";
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Hashes written before scrypt: unsalted hex SHA-256 of the password
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+interface ScryptHash {
+  N: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/**
+ * Stored format: scrypt$N$r$p$salt$hash, with salt and hash base64 encoded,
+ * so the cost parameters can be raised later without breaking old hashes.
+ */
+function parseScryptHash(stored: string): ScryptHash | null {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== SCRYPT_PREFIX) return null;
+
+  const [N, r, p] = parts.slice(1, 4).map(Number);
+  if (![N, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+    return null;
+  }
+
+  return {
+    N,
+    r,
+    p,
+    salt: Buffer.from(parts[4], "base64"),
+    hash: Buffer.from(parts[5], "base64"),
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_LENGTH, {
+    N,
+    r,
+    p,
+    maxmem: 256 * N * r,
+  });
+
+  return [
+    SCRYPT_PREFIX,
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const parsed = parseScryptHash(stored);
+  if (parsed) {
+    const { N, r, p, salt, hash } = parsed;
+    const candidate = await scrypt(password, salt, hash.length, {
+      N,
+      r,
+      p,
+      maxmem: 256 * N * r,
+    });
+    return safeEqual(candidate, hash);
+  }
+
+  if (LEGACY_SHA256_PATTERN.test(stored)) {
+    const candidate = crypto.createHash("sha256").update(password).digest();
+    return safeEqual(candidate, Buffer.from(stored, "hex"));
+  }
+
+  return false;
+}
+
+/**
+ * True for legacy SHA-256 hashes and scrypt hashes created with weaker
+ * parameters than the current ones.
+ */
+export function needsRehash(stored: string): boolean {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) return true;
+
+  return (
+    parsed.N < SCRYPT_PARAMS.N ||
+    parsed.r < SCRYPT_PARAMS.r ||
+    parsed.p < SCRYPT_PARAMS.p ||
+    parsed.hash.length < KEY_LENGTH
+  );
+}
@@ -0,0 +1,115 @@
+import type { Express, Request, Response } from "express";
+import { desc, eq } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import { priceHistory, type PriceHistoryEntry } from "@shared/schema";
+import {
+  createPricePoint,
+  summarizePriceHistory,
+  type PriceHistory,
+  type PricePoint,
+} from "@shared/price-history";
+
+const MAX_HISTORY_POINTS = 200;
+
+// Cached lookups return the same snapshot; identical values recorded
+// within this window are not stored again
+const DUPLICATE_WINDOW_MS =
+  parseInt(process.env.PRICE_HISTORY_DEDUPE_MINUTES || "60", 10) * 60 * 1000;
+
+type PriceSnapshot = Pick<
+  PricePoint,
+  "price" | "originalPrice" | "discount" | "orders"
+> & { productId: string };
+
+function toPricePoint(row: PriceHistoryEntry): PricePoint {
+  return {
+    price: row.price,
+    originalPrice: row.originalPrice,
+    discount: row.discount,
+    orders: row.orders,
+    priceValue: row.priceValue,
+    originalPriceValue: row.originalPriceValue,
+    recordedAt: row.recordedAt.toISOString(),
+  };
+}
+
+function isSameSnapshot(row: PriceHistoryEntry, snapshot: PriceSnapshot) {
+  return (
+    row.price === snapshot.price &&
+    row.originalPrice === snapshot.originalPrice &&
+    row.discount === snapshot.discount &&
+    row.orders === snapshot.orders &&
+    Date.now() - row.recordedAt.getTime() < DUPLICATE_WINDOW_MS
+  );
+}
+
+/**
+ * Appends a lookup's price data to the product's history. Failures are
+ * logged and never fail the lookup itself.
+ */
+export async function recordPriceSnapshot(
+  snapshot: PriceSnapshot,
+): Promise<void> {
+  const point = createPricePoint(snapshot);
+  if (point.priceValue === null) return;
+
+  try {
+    const [latest] = await db
+      .select()
+      .from(priceHistory)
+      .where(eq(priceHistory.productId, snapshot.productId))
+      .orderBy(desc(priceHistory.recordedAt))
+      .limit(1);
+
+    if (latest && isSameSnapshot(latest, snapshot)) return;
+
+    await db.insert(priceHistory).values({
+      id: crypto.randomUUID(),
+      productId: snapshot.productId,
+      price: point.price,
+      originalPrice: point.originalPrice,
+      discount: point.discount,
+      orders: point.orders,
+      priceValue: point.priceValue,
+      originalPriceValue: point.originalPriceValue,
+    });
+  } catch (error) {
+    console.error("Price history write error:", error);
+  }
+}
+
+export async function getPriceHistory(
+  productId: string,
+): Promise<PriceHistory> {
+  const rows = await db
+    .select()
+    .from(priceHistory)
+    .where(eq(priceHistory.productId, productId))
+    .orderBy(desc(priceHistory.recordedAt))
+    .limit(MAX_HISTORY_POINTS);
+
+  const points = rows.reverse().map(toPricePoint);
+  return { productId, points, summary: summarizePriceHistory(points) };
+}
+
+export function registerPriceHistoryRoutes(app: Express) {
+  app.get(
+    "/api/products/:productId/history",
+    async (req: Request, res: Response) => {
+      const productId = String(req.params.productId);
+      if (!/^\d+$/.test(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      try {
+        return res.json(await getPriceHistory(productId));
+      } catch (error) {
+        console.error("Price history read error:", error);
+        return res
+          .status(500)
+          .json({ message: "Failed to load price history" });
+      }
+    },
+  );
+}
@@ -0,0 +1,431 @@
+import type { Express, Request, Response } from "express";
+import * as fs from "fs";
+import * as path from "path";
+import { Resvg } from "@resvg/resvg-js";
+import {
+  PROMO_LAYOUTS,
+  promoRequestSchema,
+  type PromoLayout,
+} from "@shared/promo";
+import { parsePriceValue } from "@shared/price-history";
+import { encodeQr, qrPath } from "@shared/qr";
+
+const IMAGE_TIMEOUT_MS = 10000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Product photos are only fetched from AliExpress image hosts
+const IMAGE_HOSTS = ["alicdn.com", "aliexpress-media.com", "aliexpress.com"];
+// Formats the PNG renderer can draw; others get the placeholder
+const EMBEDDABLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif"];
+
+const DEFAULT_CHANNEL_NAME = "Offers 365";
+const BRAND_COLOR = "#FF6A00";
+const BADGE_COLOR = "#F5222D";
+const STAR_COLOR = "#FFB400";
+const MUTED_COLOR = "#8C8C8C";
+const TEXT_COLOR = "#1A1A1A";
+
+// The app's own typeface; system fonts still cover scripts it lacks, such
+// as Arabic titles
+const FONT_FAMILY = "Nunito";
+const FONT_FILES = [
+  "400Regular/Nunito_400Regular.ttf",
+  "700Bold/Nunito_700Bold.ttf",
+];
+
+// Average glyph width as a share of the font size, used to wrap and
+// measure text since the card is laid out before any font is loaded
+const CHAR_WIDTH = 0.52;
+
+interface CardLayout {
+  headerHeight: number;
+  logoSize: number;
+  channelSize: number;
+  image: { x: number; y: number; size: number };
+  badgeRadius: number;
+  titleY: number;
+  titleSize: number;
+  titleLines: number;
+  originalPriceY: number;
+  originalPriceSize: number;
+  priceY: number;
+  priceSize: number;
+  detailsY: number;
+  detailsSize: number;
+  qr: { x: number; y: number; size: number };
+}
+
+const CARD_LAYOUTS: Record<PromoLayout, CardLayout> = {
+  square: {
+    headerHeight: 130,
+    logoSize: 80,
+    channelSize: 40,
+    image: { x: 280, y: 160, size: 520 },
+    badgeRadius: 80,
+    titleY: 740,
+    titleSize: 40,
+    titleLines: 2,
+    originalPriceY: 860,
+    originalPriceSize: 36,
+    priceY: 945,
+    priceSize: 80,
+    detailsY: 1030,
+    detailsSize: 28,
+    qr: { x: 900, y: 900, size: 150 },
+  },
+  story: {
+    headerHeight: 180,
+    logoSize: 110,
+    channelSize: 52,
+    image: { x: 100, y: 230, size: 880 },
+    badgeRadius: 110,
+    titleY: 1200,
+    titleSize: 52,
+    titleLines: 3,
+    originalPriceY: 1440,
+    originalPriceSize: 48,
+    priceY: 1570,
+    priceSize: 110,
+    detailsY: 1700,
+    detailsSize: 40,
+    qr: { x: 460, y: 1745, size: 160 },
+  },
+};
+
+let logoDataUri: Promise<string | null> | null = null;
+
+/** The app icon as a data URI, used as the channel logo */
+export function getLogoDataUri(): Promise<string | null> {
+  logoDataUri ??= fs.promises
+    .readFile(path.resolve(process.cwd(), "assets", "images", "icon.png"))
+    .then((data) => `data:image/png;base64,${data.toString("base64")}`)
+    .catch((error) => {
+      console.error("Promo logo read error:", error);
+      return null;
+    });
+  return logoDataUri;
+}
+
+function isAllowedImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === "https:" &&
+      IMAGE_HOSTS.some(
+        (host) => hostname === host || hostname.endsWith(`.${host}`),
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** The response body, or null as soon as it grows past `maxBytes` */
+async function readLimitedBody(
+  response: globalThis.Response,
+  maxBytes: number,
+): Promise<Buffer | null> {
+  if (Number(response.headers.get("content-length")) > maxBytes) return null;
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Downloads the product photo to embed it; null draws a placeholder */
+async function fetchImageDataUri(url: string | null): Promise<string | null> {
+  if (!url || !isAllowedImageUrl(url)) return null;
+
+  try {
+    // The allowed hosts include link redirectors such as s.click, which
+    // could send the request anywhere
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+      redirect: "error",
+    });
+    const contentType = (response.headers.get("content-type") || "")
+      .split(";")[0]
+      .trim();
+    if (!response.ok || !EMBEDDABLE_IMAGE_TYPES.includes(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const data = await readLimitedBody(response, MAX_IMAGE_BYTES);
+    if (!data) return null;
+    return `data:${contentType};base64,${data.toString("base64")}`;
+  } catch (error) {
+    console.error("Promo image fetch error:", error);
+    return null;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function estimateWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * CHAR_WIDTH;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/** Word-wraps the title, ending the last line with "…" when it runs over */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (line.length > maxChars) {
+      lines.push(line.slice(0, maxChars));
+      line = line.slice(maxChars);
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] =
+    `${kept[maxLines - 1].slice(0, maxChars - 1).trimEnd()}…`;
+  return kept;
+}
+
+function starPath(cx: number, cy: number, radius: number): string {
+  const points = Array.from({ length: 10 }, (_, index) => {
+    const r = index % 2 === 0 ? radius : radius * 0.45;
+    const angle = (Math.PI / 5) * index - Math.PI / 2;
+    return `${(cx + r * Math.cos(angle)).toFixed(1)},${(cy + r * Math.sin(angle)).toFixed(1)}`;
+  });
+  return `M${points.join("L")}Z`;
+}
+
+interface PromoCard {
+  layout: PromoLayout;
+  title: string;
+  price: string;
+  originalPrice: string;
+  discount: string;
+  storeName: string;
+  rating: number | null;
+  channelName: string;
+  qrLink: string | null;
+  image: string | null;
+  logo: string | null;
+}
+
+function renderHeader(card: PromoCard, layout: CardLayout, width: number) {
+  const { headerHeight, logoSize, channelSize } = layout;
+  const logoY = (headerHeight - logoSize) / 2;
+  const nameX = card.logo ? logoY * 2 + logoSize : width / 2;
+
+  return [
+    `<rect width="${width}" height="${headerHeight}" fill="${BRAND_COLOR}"/>`,
+    card.logo
+      ? `<image href="${card.logo}" x="${logoY}" y="${logoY}" width="${logoSize}" height="${logoSize}"/>`
+      : "",
+    `<text x="${nameX}" y="${headerHeight / 2 + channelSize * 0.35}" font-size="${channelSize}" font-weight="bold" fill="#FFFFFF" text-anchor="${card.logo ? "start" : "middle"}">${escapeXml(truncate(card.channelName, 30))}</text>`,
+  ].join("");
+}
+
+function renderImage(card: PromoCard, layout: CardLayout) {
+  const { x, y, size } = layout.image;
+  const radius = size * 0.05;
+  const parts = [
+    `<defs><clipPath id="photo"><rect x="${x}" y="${y}" width="${size}" height="${size}" rx="${radius}"/></clipPath></defs>`,
+    card.image
+      ? `<image href="${card.image}" x="${x}" y="${y}" width="${size}" height="${size}" preserveAspectRatio="xMidYMid slice" clip-path="url(#photo)"/>`
+      : `<rect x="${x}" y="${y}" width="${size}" height="${size}" rx="${radius}" fill="#F0F0F0"/>`,
+  ];
+
+  // Listings without a sale report "0%", which gets no badge
+  if ((parsePriceValue(card.discount) ?? 0) > 0) {
+    const r = layout.badgeRadius;
+    const cx = x + size - r * 0.6;
+    const cy = y + r * 0.6;
+    const label = card.discount.startsWith("-")
+      ? card.discount
+      : `-${card.discount}`;
+    parts.push(
+      `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${BADGE_COLOR}"/>`,
+      `<text x="${cx}" y="${cy + r * 0.18}" font-size="${r * 0.5}" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${escapeXml(truncate(label, 6))}</text>`,
+    );
+  }
+  return parts.join("");
+}
+
+function renderText(card: PromoCard, layout: CardLayout, width: number) {
+  const center = width / 2;
+  const maxWidth = width - 120;
+  const parts: string[] = [];
+
+  const titleLines = wrapText(
+    card.title,
+    Math.floor(maxWidth / (layout.titleSize * CHAR_WIDTH)),
+    layout.titleLines,
+  );
+  titleLines.forEach((line, index) => {
+    const y = layout.titleY + index * layout.titleSize * 1.25;
+    parts.push(
+      `<text x="${center}" y="${y}" font-size="${layout.titleSize}" fill="${TEXT_COLOR}" text-anchor="middle">${escapeXml(line)}</text>`,
+    );
+  });
+
+  // Drawn as a line since SVG text-decoration is not widely supported
+  if (card.originalPrice && card.originalPrice !== card.price) {
+    const size = layout.originalPriceSize;
+    const half = estimateWidth(card.originalPrice, size) / 2;
+    const y = layout.originalPriceY;
+    parts.push(
+      `<text x="${center}" y="${y}" font-size="${size}" fill="${MUTED_COLOR}" text-anchor="middle">${escapeXml(card.originalPrice)}</text>`,
+      `<line x1="${center - half}" y1="${y - size * 0.3}" x2="${center + half}" y2="${y - size * 0.3}" stroke="${MUTED_COLOR}" stroke-width="${Math.max(2, size / 12)}"/>`,
+    );
+  }
+
+  parts.push(
+    `<text x="${center}" y="${layout.priceY}" font-size="${layout.priceSize}" font-weight="bold" fill="${BRAND_COLOR}" text-anchor="middle">${escapeXml(card.price)}</text>`,
+  );
+
+  const size = layout.detailsSize;
+  const details = [
+    card.rating !== null ? card.rating.toFixed(1) : "",
+    truncate(card.storeName, 30),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  const starsWidth = card.rating !== null ? size * 5.5 + size * 0.5 : 0;
+  const rowWidth = starsWidth + estimateWidth(details, size);
+  let x = center - rowWidth / 2;
+
+  if (card.rating !== null) {
+    const filled = Math.round(card.rating);
+    for (let index = 0; index < 5; index++) {
+      parts.push(
+        `<path d="${starPath(x + size / 2, layout.detailsY - size * 0.35, size / 2)}" fill="${index < filled ? STAR_COLOR : "#D9D9D9"}"/>`,
+      );
+      x += size * 1.1;
+    }
+    x += size * 0.5;
+  }
+  if (details) {
+    parts.push(
+      `<text x="${x}" y="${layout.detailsY}" font-size="${size}" fill="${MUTED_COLOR}">${escapeXml(details)}</text>`,
+    );
+  }
+  return parts.join("");
+}
+
+function renderQr(card: PromoCard, layout: CardLayout) {
+  if (!card.qrLink) return "";
+  const { x, y, size } = layout.qr;
+  const modules = encodeQr(card.qrLink);
+  // The card around the code is white, so a one-module border is enough
+  const scale = size / (modules.length + 2);
+
+  return [
+    `<rect x="${x}" y="${y}" width="${size}" height="${size}" fill="#FFFFFF"/>`,
+    `<g transform="translate(${x} ${y}) scale(${scale.toFixed(4)})">`,
+    `<path d="${qrPath(modules, 1, 1)}" fill="#000000"/>`,
+    "</g>",
+  ].join("");
+}
+
+/** Composes the promo card as SVG, ready to be rendered to PNG */
+export function renderPromoCard(card: PromoCard): string {
+  const { width, height } = PROMO_LAYOUTS[card.layout];
+  const layout = CARD_LAYOUTS[card.layout];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    renderHeader(card, layout, width),
+    renderImage(card, layout),
+    renderText(card, layout, width),
+    renderQr(card, layout),
+    "</svg>",
+  ].join("");
+}
+
+let fontFiles: string[] | null = null;
+
+// Read from the installed font package, like the logo from the app assets
+function getFontFiles(): string[] {
+  fontFiles ??= FONT_FILES.map((file) =>
+    path.resolve(
+      process.cwd(),
+      "node_modules",
+      "@expo-google-fonts",
+      "nunito",
+      file,
+    ),
+  ).filter((file) => {
+    const exists = fs.existsSync(file);
+    if (!exists) console.error(`Promo font not found: ${file}`);
+    return exists;
+  });
+  return fontFiles;
+}
+
+export function renderPromoPng(svg: string): Buffer {
+  const resvg = new Resvg(svg, {
+    font: {
+      fontFiles: getFontFiles(),
+      loadSystemFonts: true,
+      defaultFontFamily: FONT_FAMILY,
+    },
+  });
+  return resvg.render().asPng();
+}
+
+export function registerPromoRoutes(app: Express) {
+  app.post("/api/promo", async (req: Request, res: Response) => {
+    const validation = promoRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid promo",
+      });
+    }
+
+    const { imageUrl, channelName, ...details } = validation.data;
+    try {
+      const [image, logo] = await Promise.all([
+        fetchImageDataUri(imageUrl),
+        getLogoDataUri(),
+      ]);
+      const svg = renderPromoCard({
+        ...details,
+        channelName: channelName || DEFAULT_CHANNEL_NAME,
+        image,
+        logo,
+      });
+      return res.type("image/png").send(renderPromoPng(svg));
+    } catch (error) {
+      console.error("Promo render error:", error);
+      return res.status(500).json({ message: "Failed to create the promo" });
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import * as dns from "dns";
+import * as net from "net";
+
+export class UnsafeUrlError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "UnsafeUrlError";
+    this.status = status;
+  }
+}
+
+// Loopback, private, link-local (incl. cloud metadata), shared, reserved
+// and multicast ranges a user-supplied URL must not reach
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // IPv4-mapped addresses would bypass the IPv4 ranges above
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_RANGES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Checks that a user-supplied URL is https and that its host resolves only
+ * to public addresses. Run it right before each request as well as when
+ * the URL is saved, since DNS records can change in between.
+ */
+export async function assertPublicHttpsUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UnsafeUrlError("Invalid URL");
+  }
+  if (url.protocol !== "https:") {
+    throw new UnsafeUrlError("The URL must use https");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [host]
+    : await dns.promises
+        .lookup(host, { all: true, verbatim: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => {
+          throw new UnsafeUrlError("The URL's host could not be resolved");
+        });
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new UnsafeUrlError("The URL must point to a public address");
+  }
+  return url;
+}
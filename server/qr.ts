@@ -0,0 +1,31 @@
+import type { Express, Request, Response } from "express";
+import { getLogoDataUri } from "./promo";
+import { QrCapacityError, qrRequestSchema, renderQrSvg } from "@shared/qr";
+
+export function registerQrRoutes(app: Express) {
+  // Returns SVG; the app exports it to PNG on the device
+  app.post("/api/qr", async (req: Request, res: Response) => {
+    const validation = qrRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid QR code",
+      });
+    }
+
+    const { data, foreground, background, logo } = validation.data;
+    try {
+      const svg = renderQrSvg(data, {
+        foreground,
+        background,
+        logo: logo ? await getLogoDataUri() : null,
+      });
+      return res.type("image/svg+xml").send(svg);
+    } catch (error) {
+      if (error instanceof QrCapacityError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("QR render error:", error);
+      return res.status(500).json({ message: "Failed to create the QR code" });
+    }
+  });
+}
@@ -2,13 +2,50 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "node:http";
 import * as cheerio from "cheerio";
 import axios from "axios";
-import * as crypto from "crypto";
-
-interface ProductRequest {
+import {
+  extractProductId,
+  extractProductLinks,
+  extractUrls,
+  isAliExpressHost,
+} from "@shared/links";
+import {
+  buildOfferUrl,
+  customOfferTypeSchema,
+  getOfferTypes,
+  MAX_CUSTOM_OFFER_TYPES,
+  selectOfferTypes,
+  type CustomOfferType,
+  type OfferType,
+} from "@shared/offers";
+import { z } from "zod";
+import {
+  ALIEXPRESS_API_URL,
+  generateApiSignature,
+  type ApiCredentials,
+} from "./aliexpress";
+import { CacheTtl, TtlCache } from "./cache";
+import { CredentialsError, resolveCredentials } from "./credentials";
+import { recordPriceSnapshot } from "./price-history";
+import { getShortLinkBaseUrl, shortenProductLinks } from "./short-links";
+
+interface ProductRequest extends Partial<ApiCredentials> {
   url: string;
-  appKey: string;
-  appSecret: string;
-  trackingId: string;
+  force?: boolean;
+  customOffers?: CustomOfferType[];
+  offerKeys?: string[];
+}
+
+interface BatchProductRequest extends Partial<ApiCredentials> {
+  urls?: string[];
+  text?: string;
+  force?: boolean;
+  customOffers?: CustomOfferType[];
+  offerKeys?: string[];
+}
+
+interface LookupOptions {
+  force?: boolean;
+  offerTypes?: OfferType[];
 }
 
 interface OfferItem {
@@ -37,76 +74,117 @@ interface ProductResponse {
   offers: OfferItem[];
 }
 
-const ALIEXPRESS_API_URL = "https://api-sg.aliexpress.com/sync";
-
-function extractProductId(text: string): string | null {
-  const urlPattern = /https?:\/\/(?:[a-zA-Z]|[0-9]|[$-_@.&+]|[!*\(\),]|(?:%[0-9a-fA-F][0-9a-fA-F]))+/g;
-  const urls = text.match(urlPattern);
-  
-  const targetUrl = urls?.find(url => 
-    url.includes("aliexpress.com") || 
-    url.includes("alix.live") || 
-    url.includes("s.click.aliexpress.com")
-  ) || text;
-
-  // Patterns for specific product ID extraction from URLs
-  const urlPatterns = [
-    /[?&]productIds?=(\d+)/,
-    /\/item\/(\d+)\.(?:html|htm)/,
-    /\/item\/(\d+)(?:\?|$)/,
-    /\/product\/(\d+)/,
-    /\/i\/(\d+)/,
-    /\/p\/[^/]+\/index\.html[?&]productIds?=(\d+)/,
-    /\/ssr\/.*?[?&]productIds?=(\d+)/,
-    /\/[a-z0-9]+\.html\?.*?productId(?:s)?=(\d+)/,
-  ];
+interface BatchProductResult {
+  url: string;
+  success: boolean;
+  product?: ProductResponse;
+  error?: string;
+}
 
-  for (const pattern of urlPatterns) {
-    const match = targetUrl.match(pattern);
-    if (match) {
-      return match[1];
-    }
+const MAX_BATCH_SIZE = 50;
+const BATCH_CONCURRENCY = 4;
+const MAX_SOURCE_VALUES_PER_CALL = 10;
+
+const scrapedDetailsCache = new TtlCache<ScrapedDetails>(
+  "scrape",
+  CacheTtl.scrapedDetails,
+);
+const productDetailsCache = new TtlCache<ApiProductDetails>(
+  "product",
+  CacheTtl.productDetails,
+);
+const affiliateLinkCache = new TtlCache<string>(
+  "link",
+  CacheTtl.affiliateLinks,
+);
+
+class ProductLookupError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ProductLookupError";
+    this.status = status;
   }
+}
 
-  // If no URL pattern matches, search for a long numeric string in the entire text
-  const numericMatch = text.match(/\b\d{10,20}\b/);
-  if (numericMatch) {
-    return numericMatch[0];
-  }
+const MAX_REDIRECTS = 10;
 
+/**
+ * Returns the first http(s) URL in the text whose host is an AliExpress
+ * host. Only this URL is ever fetched, so a substring match is not enough.
+ */
+function findAliExpressUrl(text: string): URL | null {
+  for (const candidate of extractUrls(text)) {
+    try {
+      const url = new URL(candidate);
+      if (
+        (url.protocol === "https:" || url.protocol === "http:") &&
+        isAliExpressHost(url.hostname)
+      ) {
+        return url;
+      }
+    } catch {
+      // Not a parseable URL; try the next one
+    }
+  }
   return null;
 }
 
-async function resolveRedirects(url: string): Promise<string> {
-  const urlPattern = /https?:\/\/(?:[a-zA-Z]|[0-9]|[$-_@.&+]|[!*\(\),]|(?:%[0-9a-fA-F][0-9a-fA-F]))+/;
-  const match = url.match(urlPattern);
-  const cleanUrl = match ? match[0] : url;
+/**
+ * Follows short-link redirects one hop at a time, stopping at the first
+ * hop that leaves an AliExpress host.
+ */
+async function resolveRedirects(url: URL): Promise<string> {
+  let current = url;
 
   try {
-    const response = await fetch(cleanUrl, {
-      method: "HEAD",
-      redirect: "follow",
-    });
-    return response.url;
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const response = await fetch(current, {
+        method: "HEAD",
+        redirect: "manual",
+      });
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+
+      const next = new URL(location, current);
+      if (
+        (next.protocol !== "https:" && next.protocol !== "http:") ||
+        !isAliExpressHost(next.hostname)
+      ) {
+        break;
+      }
+      current = next;
+    }
   } catch {
-    return cleanUrl;
+    // Keep the last URL that was reached
   }
+  return current.href;
 }
 
-function generateApiSignature(params: Record<string, string>, secret: string): string {
-  const sortedKeys = Object.keys(params).sort();
-  const paramString = sortedKeys.map((key) => `${key}${params[key]}`).join("");
-  return crypto
-    .createHmac("sha256", secret)
-    .update(paramString)
-    .digest("hex")
-    .toUpperCase();
+interface ScrapedDetails {
+  title: string;
+  imageUrl: string | null;
 }
 
-async function getProductDetails(productId: string): Promise<{
+interface ApiProductDetails {
   title: string;
+  price: string;
+  originalPrice: string;
+  discount: string;
+  storeName: string;
+  evaluateRate: string;
+  shopUrl: string;
+  categoryName: string;
+  commissionRate: string;
+  orders: string;
   imageUrl: string | null;
-}> {
+  shipping_fees: string;
+}
+
+async function getProductDetails(productId: string): Promise<ScrapedDetails> {
   try {
     const url = `https://www.aliexpress.com/item/${productId}.html`;
     const { data } = await axios.get(url, {
@@ -196,25 +274,12 @@ async function getProductDetails(productId: string): Promise<{
   }
 }
 
-async function getProductDetailsFromApi(
+export async function getProductDetailsFromApi(
   productId: string,
   appKey: string,
   appSecret: string,
   trackingId: string
-): Promise<{
-  title: string;
-  price: string;
-  originalPrice: string;
-  discount: string;
-  storeName: string;
-  evaluateRate: string;
-  shopUrl: string;
-  categoryName: string;
-  commissionRate: string;
-  orders: string;
-  imageUrl: string | null;
-  shipping_fees: string;
-}> {
+): Promise<ApiProductDetails> {
   try {
     const timestamp = new Date().toISOString().replace("T", " ").slice(0, 19);
     const params: Record<string, string> = {
@@ -324,259 +389,504 @@ async function getProductDetailsFromApi(
   }
 }
 
-async function generateAffiliateLink(
-  url: string,
+async function requestAffiliateLinks(
+  sourceValues: string[],
   appKey: string,
   appSecret: string,
-  trackingId: string
-): Promise<string | null> {
-  try {
-    const timestamp = new Date().toISOString().replace("T", " ").slice(0, 19);
-    const params: Record<string, string> = {
-      method: "aliexpress.affiliate.link.generate",
-      app_key: appKey,
-      sign_method: "sha256",
-      timestamp,
-      v: "2.0",
-      format: "json",
-      tracking_id: trackingId,
-      promotion_link_type: "0",
-      source_values: url,
-    };
-
-    params.sign = generateApiSignature(params, appSecret);
+  trackingId: string,
+): Promise<Map<string, string>> {
+  const timestamp = new Date().toISOString().replace("T", " ").slice(0, 19);
+  const params: Record<string, string> = {
+    method: "aliexpress.affiliate.link.generate",
+    app_key: appKey,
+    sign_method: "sha256",
+    timestamp,
+    v: "2.0",
+    format: "json",
+    tracking_id: trackingId,
+    promotion_link_type: "0",
+    source_values: sourceValues.join(","),
+  };
+
+  params.sign = generateApiSignature(params, appSecret);
+
+  const queryString = new URLSearchParams(params).toString();
+  const apiResponse = await fetch(`${ALIEXPRESS_API_URL}?${queryString}`);
+  const data = await apiResponse.json();
+
+  if (data.error_response) {
+    throw new Error(data.error_response.msg || "API Error");
+  }
 
-    const queryString = new URLSearchParams(params).toString();
-    const apiResponse = await fetch(`${ALIEXPRESS_API_URL}?${queryString}`);
-    const data = await apiResponse.json();
+  const result =
+    data.aliexpress_affiliate_link_generate_response?.resp_result?.result;
+  const promotionLinks: { source_value?: string; promotion_link?: string }[] =
+    result?.promotion_links?.promotion_link || [];
+
+  const links = new Map<string, string>();
+
+  promotionLinks.forEach((item, index) => {
+    if (!item.promotion_link) return;
+    // The API echoes each source value back; fall back to response order
+    // when it does not.
+    const source =
+      item.source_value && sourceValues.includes(item.source_value)
+        ? item.source_value
+        : promotionLinks.length === sourceValues.length
+          ? sourceValues[index]
+          : null;
+    if (source) {
+      links.set(source, item.promotion_link);
+    }
+  });
 
-    const result =
-      data.aliexpress_affiliate_link_generate_response?.resp_result?.result;
-    const promotionLinks = result?.promotion_links?.promotion_link;
+  return links;
+}
 
-    if (promotionLinks && promotionLinks.length > 0) {
-      return promotionLinks[0].promotion_link;
+/**
+ * Converts many URLs into affiliate links using as few signed calls as
+ * possible. URLs are deduplicated, previously generated links are served
+ * from the cache unless force is set, and the rest are sent as
+ * comma-separated source_values in chunks that run concurrently. A chunk
+ * rejected as a whole is retried one URL at a time so a single bad URL
+ * cannot fail its neighbours.
+ */
+async function generateAffiliateLinks(
+  urls: string[],
+  appKey: string,
+  appSecret: string,
+  trackingId: string,
+  force = false,
+): Promise<Map<string, string>> {
+  const uniqueUrls = Array.from(new Set(urls));
+  const cachedLinks = new Map<string, string>();
+
+  if (!force) {
+    for (const url of uniqueUrls) {
+      const cached = await affiliateLinkCache.get(`${trackingId}:${url}`);
+      if (cached) cachedLinks.set(url, cached);
     }
+  }
 
-    return null;
-  } catch (error) {
-    console.error("Error generating affiliate link:", error);
-    return null;
+  const pendingUrls = uniqueUrls.filter((url) => !cachedLinks.has(url));
+  const chunks: string[][] = [];
+  for (let i = 0; i < pendingUrls.length; i += MAX_SOURCE_VALUES_PER_CALL) {
+    chunks.push(pendingUrls.slice(i, i + MAX_SOURCE_VALUES_PER_CALL));
   }
+
+  const requestSafely = async (sourceValues: string[]) => {
+    try {
+      return await requestAffiliateLinks(
+        sourceValues,
+        appKey,
+        appSecret,
+        trackingId,
+      );
+    } catch (error) {
+      console.error("Error generating affiliate links:", error);
+      return null;
+    }
+  };
+
+  const chunkResults = await Promise.all(
+    chunks.map(async (chunk) => {
+      const links = await requestSafely(chunk);
+      if (links || chunk.length === 1) {
+        return links || new Map<string, string>();
+      }
+
+      const single = await Promise.all(
+        chunk.map((url) => requestSafely([url])),
+      );
+      return new Map(single.flatMap((m) => (m ? Array.from(m) : [])));
+    }),
+  );
+
+  const generatedLinks = chunkResults.flatMap((m) => Array.from(m));
+  await Promise.all(
+    generatedLinks.map(([url, link]) =>
+      affiliateLinkCache.set(`${trackingId}:${url}`, link),
+    ),
+  );
+
+  return new Map([...cachedLinks, ...generatedLinks]);
 }
 
 async function generateAllOffers(
   productId: string,
+  offerTypes: OfferType[],
   appKey: string,
   appSecret: string,
-  trackingId: string
+  trackingId: string,
+  force = false,
 ): Promise<OfferItem[]> {
-  const offersPrimary = [
-    {
-      key: "coin_link",
-      name: "Coin Page Offer",
-      url: `https://m.aliexpress.com/p/coin-index/index.html?_immersiveMode=true&productIds=${productId}`,
-    },
-    {
-      key: "direct_link",
-      name: "Direct Product Link",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=620`,
-    },
-    {
-      key: "super_link",
-      name: "Super Deals",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=562`,
-    },
-    {
-      key: "big_save_link",
-      name: "Big Save Discount",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=680`,
-    },
-    {
-      key: "limited_link",
-      name: "Limited Discount",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=561`,
-    },
-    {
-      key: "potential_link",
-      name: "Potential Discount",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=504`,
-    },
-    {
-      key: "bundle_direct_link",
-      name: "Bundle Direct",
-      url: `https://www.aliexpress.com/item/${productId}.html?sourceType=570`,
-    },
-    {
-      key: "bundle_page_link",
-      name: "Bundle Deals Page",
-      url: `https://www.aliexpress.com/ssr/300000512/BundleDeals2?&pha_manifest=ssr&productIds=${productId}`,
-    },
-  ];
+  const offers = offerTypes.map((type) => ({
+    key: type.key,
+    name: type.label,
+    url: buildOfferUrl(type.primaryUrl, productId),
+    fallbackUrl: buildOfferUrl(type.fallbackUrl, productId),
+  }));
+
+  const primaryLinks = await generateAffiliateLinks(
+    offers.map((offer) => offer.url),
+    appKey,
+    appSecret,
+    trackingId,
+    force,
+  );
+
+  const failedOffers = offers.filter((offer) => !primaryLinks.has(offer.url));
+  if (failedOffers.length > 0) {
+    console.log(
+      `Primary links failed for ${failedOffers.map((o) => o.name).join(", ")}, trying secondary...`,
+    );
+  }
 
-  const offersSecondary = [
-    {
-        name: "Coin Page Offer",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://m.aliexpress.com/p/coin-index/index.html?_immersiveMode=true&productIds=${productId}`
-    },
-    {
-        name: "Direct Product Link",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=620`
-    },
-    {
-        name: "Super Deals",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=562`
-    },
-    {
-        name: "Big Save Discount",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=680`
-    },
-    {
-        name: "Limited Discount",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=561`
-    },
-    {
-        name: "Potential Discount",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=504`
-    },
-    {
-        name: "Bundle Direct",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/item/${productId}.html?sourceType=570`
-    },
-    {
-        name: "Bundle Deals Page",
-        url: `https://star.aliexpress.com/share/share.htm?redirectUrl=https://www.aliexpress.com/ssr/300000512/BundleDeals2?&pha_manifest=ssr&productIds=${productId}`
+  const fallbackLinks =
+    failedOffers.length > 0
+      ? await generateAffiliateLinks(
+          failedOffers.map((offer) => offer.fallbackUrl),
+          appKey,
+          appSecret,
+          trackingId,
+          force,
+        )
+      : new Map<string, string>();
+
+  return offers.map((offer) => {
+    const affiliateLink =
+      primaryLinks.get(offer.url) || fallbackLinks.get(offer.fallbackUrl);
+    return {
+      key: offer.key,
+      name: offer.name,
+      link: affiliateLink || offer.url,
+      success: !!affiliateLink,
+    };
+  });
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await worker(items[index], index);
+      }
     },
-  ];
+  );
 
-  const results: OfferItem[] = [];
+  await Promise.all(runners);
+  return results;
+}
 
-  for (let i = 0; i < offersPrimary.length; i++) {
-    const primaryOffer = offersPrimary[i];
-    const secondaryOffer = offersSecondary[i];
+/**
+ * Resolves a product link into full product details and affiliate offers.
+ * API details, scraped details and generated links are cached per
+ * productId and trackingId; force bypasses every cache.
+ */
+async function lookupProduct(
+  url: string,
+  { appKey, appSecret, trackingId }: ApiCredentials,
+  { force = false, offerTypes = getOfferTypes() }: LookupOptions = {},
+): Promise<ProductResponse> {
+  const aliExpressUrl = findAliExpressUrl(url);
+  if (!aliExpressUrl) {
+    throw new ProductLookupError("Please provide a valid AliExpress URL");
+  }
 
-    let affiliateLink = await generateAffiliateLink(
-      primaryOffer.url,
-      appKey,
-      appSecret,
-      trackingId
+  const finalUrl = await resolveRedirects(aliExpressUrl);
+  const productId =
+    extractProductId(finalUrl) || extractProductId(aliExpressUrl.href);
+
+  if (!productId) {
+    throw new ProductLookupError("Could not extract product ID from URL");
+  }
+
+  let productData = {
+    title: "",
+    price: "N/A",
+    originalPrice: "N/A",
+    discount: "0%",
+    storeName: "Unknown Store",
+    evaluateRate: "N/A",
+    shopUrl: "N/A",
+    categoryName: "N/A",
+    commissionRate: "N/A",
+    orders: "N/A",
+    imageUrl: null as string | null,
+    shipping_fees: "Free Shipping",
+  };
+
+  try {
+    const apiData = await productDetailsCache.wrap(
+      `${productId}:${trackingId}`,
+      () => getProductDetailsFromApi(productId, appKey, appSecret, trackingId),
+      { force },
     );
+    productData = { ...productData, ...apiData };
+  } catch {
+    console.log("API failed, falling back to scraping");
+  }
 
-    if (!affiliateLink) {
-      console.log(`Primary link failed for ${primaryOffer.name}, trying secondary...`);
-      affiliateLink = await generateAffiliateLink(
-        secondaryOffer.url,
-        appKey,
-        appSecret,
-        trackingId
-      );
+  const hasApiTitle =
+    !!productData.title &&
+    productData.title !== "Unknown Product" &&
+    productData.title !== "AliExpress Product";
+
+  if (!hasApiTitle || !productData.imageUrl) {
+    const scrapedData = await scrapedDetailsCache.wrap(
+      productId,
+      () => getProductDetails(productId),
+      {
+        force,
+        // Scraping failures return placeholder data that must not be cached
+        shouldCache: (data) =>
+          data.title !== "AliExpress Product" || !!data.imageUrl,
+      },
+    );
+    if (!hasApiTitle) {
+      productData.title = scrapedData.title;
+    }
+    if (!productData.imageUrl) {
+      productData.imageUrl = scrapedData.imageUrl;
     }
+  }
 
-    results.push({
-      key: primaryOffer.key || "",
-      name: primaryOffer.name,
-      link: affiliateLink || primaryOffer.url,
-      success: !!affiliateLink,
-    });
+  const offers = await generateAllOffers(
+    productId,
+    offerTypes.filter((type) => type.enabled),
+    appKey,
+    appSecret,
+    trackingId,
+    force,
+  );
+
+  const response: ProductResponse = {
+    id: `${productId}-${Date.now()}`,
+    productId,
+    title: productData.title,
+    imageUrl: productData.imageUrl,
+    price: productData.price,
+    originalPrice: productData.originalPrice,
+    discount: productData.discount,
+    storeName: productData.storeName,
+    evaluateRate: productData.evaluateRate,
+    shopUrl: productData.shopUrl,
+    categoryName: productData.categoryName,
+    commissionRate: productData.commissionRate,
+    orders: productData.orders,
+    shipping_fees: productData.shipping_fees,
+    searchedAt: new Date().toISOString(),
+    offers,
+  };
+
+  // Recorded in the background so history writes never slow down lookups
+  void recordPriceSnapshot(response);
+
+  return response;
+}
+
+function collectBatchUrls({ urls, text }: BatchProductRequest): string[] {
+  const blocks = [
+    ...(Array.isArray(urls) ? urls.filter((u) => typeof u === "string") : []),
+    typeof text === "string" ? text : "",
+  ];
+  return extractProductLinks(blocks.join("\n"));
+}
+
+function isForceRequested(req: Request): boolean {
+  return req.body?.force === true || req.query.force === "true";
+}
+
+const customOffersSchema = z
+  .array(customOfferTypeSchema)
+  .max(
+    MAX_CUSTOM_OFFER_TYPES,
+    `At most ${MAX_CUSTOM_OFFER_TYPES} custom offers are allowed`,
+  )
+  .default([]);
+
+const offerKeysSchema = z
+  .array(z.string())
+  .min(1, "Select at least one offer type")
+  .optional();
+
+/**
+ * Builds the lookup options shared by the single and batch product
+ * endpoints. Returns an error message when the request is invalid.
+ */
+function parseLookupOptions(
+  req: Request,
+): { options: LookupOptions } | { error: string } {
+  const customOffers = customOffersSchema.safeParse(
+    req.body?.customOffers ?? undefined,
+  );
+  if (!customOffers.success) {
+    return {
+      error: customOffers.error.errors[0]?.message || "Invalid custom offers",
+    };
   }
 
-  return results;
+  const offerKeys = offerKeysSchema.safeParse(req.body?.offerKeys ?? undefined);
+  if (!offerKeys.success) {
+    return {
+      error: offerKeys.error.errors[0]?.message || "Invalid offer keys",
+    };
+  }
+
+  const offerTypes = getOfferTypes(customOffers.data);
+  const unknownKey = offerKeys.data?.find(
+    (key) => !offerTypes.some((type) => type.key === key),
+  );
+  if (unknownKey) {
+    return { error: `Unknown offer type: ${unknownKey}` };
+  }
+
+  return {
+    options: {
+      force: isForceRequested(req),
+      offerTypes: selectOfferTypes(offerTypes, offerKeys.data),
+    },
+  };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/product", async (req: Request, res: Response) => {
     try {
-      const { url, appKey, appSecret, trackingId }: ProductRequest = req.body;
+      const { url, ...supplied }: ProductRequest = req.body;
 
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
 
-      if (!appKey || !appSecret || !trackingId) {
-        return res.status(400).json({ message: "API credentials are required" });
+      const credentials = await resolveCredentials(supplied, req.auth?.userId);
+      if (!credentials) {
+        return res
+          .status(400)
+          .json({ message: "API credentials are required" });
+      }
+
+      const lookup = parseLookupOptions(req);
+      if ("error" in lookup) {
+        return res.status(400).json({ message: lookup.error });
       }
 
+      const response = await lookupProduct(url, credentials, lookup.options);
+
+      return res.json(
+        req.auth
+          ? await shortenProductLinks(
+              response,
+              req.auth.userId,
+              getShortLinkBaseUrl(req),
+            )
+          : response,
+      );
+    } catch (error) {
       if (
-        !url.includes("aliexpress.com") &&
-        !url.includes("alix.live") &&
-        !url.includes("s.click.aliexpress.com")
+        error instanceof ProductLookupError ||
+        error instanceof CredentialsError
       ) {
-        return res.status(400).json({ message: "Please provide a valid AliExpress URL" });
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error("Error processing product:", error);
+      return res.status(500).json({
+        message:
+          error instanceof Error ? error.message : "Failed to process product",
+      });
+    }
+  });
 
-      const finalUrl = await resolveRedirects(url);
-      const productId = extractProductId(finalUrl) || extractProductId(url);
+  app.post("/api/products/batch", async (req: Request, res: Response) => {
+    try {
+      const body: BatchProductRequest = req.body;
 
-      if (!productId) {
-        return res.status(400).json({ message: "Could not extract product ID from URL" });
+      const credentials = await resolveCredentials(body, req.auth?.userId);
+      if (!credentials) {
+        return res
+          .status(400)
+          .json({ message: "API credentials are required" });
       }
 
-      let productData = {
-        title: "",
-        price: "N/A",
-        originalPrice: "N/A",
-        discount: "0%",
-        storeName: "Unknown Store",
-        evaluateRate: "N/A",
-        shopUrl: "N/A",
-        categoryName: "N/A",
-        commissionRate: "N/A",
-        orders: "N/A",
-        imageUrl: null as string | null,
-        shipping_fees: "Free Shipping",
-      };
+      const lookup = parseLookupOptions(req);
+      if ("error" in lookup) {
+        return res.status(400).json({ message: lookup.error });
+      }
 
-      try {
-        const apiData = await getProductDetailsFromApi(
-          productId,
-          appKey,
-          appSecret,
-          trackingId
-        );
-        productData = { ...productData, ...apiData };
-      } catch (apiError) {
-        console.log("API failed, falling back to scraping");
+      const urls = collectBatchUrls(body);
+
+      if (urls.length === 0) {
+        return res
+          .status(400)
+          .json({ message: "No AliExpress product links found" });
       }
 
-    const scrapedData = await getProductDetails(productId);
-    if (!productData.title || productData.title === "Unknown Product" || productData.title === "AliExpress Product") {
-      productData.title = scrapedData.title;
-    }
-      if (!productData.imageUrl) {
-        productData.imageUrl = scrapedData.imageUrl;
+      if (urls.length > MAX_BATCH_SIZE) {
+        return res.status(400).json({
+          message: `A batch can contain at most ${MAX_BATCH_SIZE} products`,
+        });
       }
 
-      const offers = await generateAllOffers(
-        productId,
-        appKey,
-        appSecret,
-        trackingId
+      const results = await mapWithConcurrency(
+        urls,
+        BATCH_CONCURRENCY,
+        async (url): Promise<BatchProductResult> => {
+          try {
+            const product = await lookupProduct(
+              url,
+              credentials,
+              lookup.options,
+            );
+            if (!req.auth) {
+              return { url, success: true, product };
+            }
+            return {
+              url,
+              success: true,
+              product: await shortenProductLinks(
+                product,
+                req.auth.userId,
+                getShortLinkBaseUrl(req),
+              ),
+            };
+          } catch (error) {
+            console.error(`Batch lookup failed for ${url}:`, error);
+            return {
+              url,
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to process product",
+            };
+          }
+        },
       );
 
-      const response: ProductResponse = {
-        id: `${productId}-${Date.now()}`,
-        productId,
-        title: productData.title,
-        imageUrl: productData.imageUrl,
-        price: productData.price,
-        originalPrice: productData.originalPrice,
-        discount: productData.discount,
-        storeName: productData.storeName,
-        evaluateRate: productData.evaluateRate,
-        shopUrl: productData.shopUrl,
-        categoryName: productData.categoryName,
-        commissionRate: productData.commissionRate,
-        orders: productData.orders,
-          shipping_fees: productData.shipping_fees,
-        searchedAt: new Date().toISOString(),
-        offers,
-      };
-
-      return res.json(response);
+      const succeeded = results.filter((r) => r.success).length;
+
+      return res.json({
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
     } catch (error) {
-      console.error("Error processing product:", error);
+      if (error instanceof CredentialsError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error processing batch:", error);
       return res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to process product",
+        message:
+          error instanceof Error ? error.message : "Failed to process batch",
       });
     }
   });
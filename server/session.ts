@@ -0,0 +1,222 @@
+import type { NextFunction, Request, Response } from "express";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import { sessions } from "@shared/schema";
+
+export interface AuthenticatedUser {
+  userId: string;
+  sessionId: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthenticatedUser;
+    }
+  }
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  exp: number;
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(
+  process.env.ACCESS_TOKEN_TTL_SECONDS || "900",
+  10,
+);
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || "30",
+  10,
+);
+
+// Routes reachable without an access token
+const PUBLIC_API_PATHS = new Set([
+  "/api/auth/login",
+  "/api/auth/register",
+  "/api/auth/refresh",
+]);
+
+const sessionSecret = resolveSessionSecret();
+
+function resolveSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Tokens signed with a random secret stop working when the server restarts
+  console.warn("SESSION_SECRET is not set, using a temporary secret");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+function sign(value: string): string {
+  return crypto
+    .createHmac("sha256", sessionSecret)
+    .update(value)
+    .digest("base64url");
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function issueAccessToken(userId: string, sessionId: string): string {
+  const payload: AccessTokenPayload = {
+    sub: userId,
+    sid: sessionId,
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function verifyAccessToken(token: string): AuthenticatedUser | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload: AccessTokenPayload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf-8"),
+    );
+    if (payload.exp * 1000 <= Date.now()) return null;
+    return { userId: payload.sub, sessionId: payload.sid };
+  } catch {
+    return null;
+  }
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(48).toString("base64url");
+}
+
+export async function createSession(userId: string): Promise<SessionTokens> {
+  const sessionId = crypto.randomUUID();
+  const refreshToken = newRefreshToken();
+
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    expiresAt: refreshExpiry(),
+  });
+
+  return {
+    accessToken: issueAccessToken(userId, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Exchanges a refresh token for new tokens. The refresh token is rotated,
+ * so each one can only be used once. Returns null when it is unknown,
+ * expired or revoked.
+ */
+export async function refreshSession(
+  refreshToken: string,
+): Promise<SessionTokens | null> {
+  // One conditional update, so of two requests racing with the same token
+  // only the first finds it still current
+  const nextRefreshToken = newRefreshToken();
+  const [session] = await db
+    .update(sessions)
+    .set({
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      expiresAt: refreshExpiry(),
+    })
+    .where(
+      and(
+        eq(sessions.refreshTokenHash, hashRefreshToken(refreshToken)),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ),
+    )
+    .returning({ id: sessions.id, userId: sessions.userId });
+
+  if (!session) return null;
+
+  return {
+    accessToken: issueAccessToken(session.userId, session.id),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(eq(sessions.id, sessionId));
+}
+
+async function isSessionActive(sessionId: string): Promise<boolean> {
+  const [session] = await db
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+  return !!session;
+}
+
+/**
+ * Authenticates /api requests with a bearer access token and exposes the
+ * caller as req.auth. Login, registration and refresh stay public.
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (PUBLIC_API_PATHS.has(req.baseUrl + req.path)) {
+    return next();
+  }
+
+  const header = req.header("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const auth = token ? verifyAccessToken(token) : null;
+
+  if (!auth) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  try {
+    if (!(await isSessionActive(auth.sessionId))) {
+      return res.status(401).json({ message: "Session has ended" });
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  req.auth = auth;
+  next();
+}
@@ -0,0 +1,311 @@
+import type { Express, Request, Response } from "express";
+import { and, count, eq, gte, inArray, max } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import { linkClicks, shortLinks } from "@shared/schema";
+import {
+  linkStatsQuerySchema,
+  type LinkStats,
+  type ProductClickStats,
+} from "@shared/short-links";
+
+const CODE_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const CODE_LENGTH = 7;
+const CODE_PATTERN = /^[0-9A-Za-z]{4,12}$/;
+const MAX_CODE_ATTEMPTS = 3;
+const MAX_HEADER_LENGTH = 500;
+const MAX_STATS_PRODUCTS = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Set by whichever proxy or CDN sits in front of the server
+const COUNTRY_HEADERS = [
+  "cf-ipcountry",
+  "x-vercel-ip-country",
+  "x-appengine-country",
+  "x-country-code",
+];
+
+interface ShortenableProduct {
+  productId: string;
+  title: string;
+  imageUrl: string | null;
+  offers: { key: string; name: string; link: string; success: boolean }[];
+}
+
+function generateCode(): string {
+  return Array.from(
+    crypto.randomBytes(CODE_LENGTH),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length],
+  ).join("");
+}
+
+const configuredBaseUrl = resolveConfiguredBaseUrl();
+
+// Forwarded host headers can be set by any client, so production links
+// never take their origin from the request
+function resolveConfiguredBaseUrl(): string | null {
+  const configured = process.env.SHORT_LINK_BASE_URL?.trim();
+  if (configured) return configured.replace(/\/+$/, "");
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SHORT_LINK_BASE_URL must be set in production");
+  }
+
+  console.warn("SHORT_LINK_BASE_URL is not set, using the request's host");
+  return null;
+}
+
+/**
+ * Origin the short links point at: SHORT_LINK_BASE_URL, or in development
+ * the host the request came in on.
+ */
+export function getShortLinkBaseUrl(req: Request): string {
+  return configuredBaseUrl ?? `${req.protocol}://${req.get("host")}`;
+}
+
+function buildShortUrl(baseUrl: string, code: string): string {
+  return `${baseUrl}/r/${code}`;
+}
+
+/** Codes for each target link, creating the ones the user does not have. */
+async function getOrCreateCodes(
+  userId: string,
+  product: ShortenableProduct,
+  offers: ShortenableProduct["offers"],
+): Promise<Map<string, string>> {
+  const targets = offers.map((offer) => offer.link);
+  const codes = new Map<string, string>();
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const missing = offers.filter((offer) => !codes.has(offer.link));
+    if (missing.length === 0) break;
+
+    // A taken code is skipped like an existing link and retried below
+    await db
+      .insert(shortLinks)
+      .values(
+        missing.map((offer) => ({
+          code: generateCode(),
+          userId,
+          productId: product.productId,
+          title: product.title,
+          imageUrl: product.imageUrl,
+          offerKey: offer.key,
+          offerName: offer.name,
+          targetUrl: offer.link,
+        })),
+      )
+      .onConflictDoNothing();
+
+    const rows = await db
+      .select({ code: shortLinks.code, targetUrl: shortLinks.targetUrl })
+      .from(shortLinks)
+      .where(
+        and(
+          eq(shortLinks.userId, userId),
+          inArray(shortLinks.targetUrl, targets),
+        ),
+      );
+    for (const row of rows) {
+      codes.set(row.targetUrl, row.code);
+    }
+  }
+
+  return codes;
+}
+
+/**
+ * Replaces the product's generated offer links with short links. Links
+ * that could not be shortened are returned unchanged.
+ */
+export async function shortenProductLinks<T extends ShortenableProduct>(
+  product: T,
+  userId: string,
+  baseUrl: string,
+): Promise<T> {
+  const offers = product.offers.filter((offer) => offer.success && offer.link);
+  const unique = [...new Map(offers.map((o) => [o.link, o])).values()];
+  if (unique.length === 0) {
+    return product;
+  }
+
+  try {
+    const codes = await getOrCreateCodes(userId, product, unique);
+    return {
+      ...product,
+      offers: product.offers.map((offer) => {
+        const code = offer.success ? codes.get(offer.link) : undefined;
+        return code ? { ...offer, link: buildShortUrl(baseUrl, code) } : offer;
+      }),
+    };
+  } catch (error) {
+    console.error("Failed to shorten offer links:", error);
+    return product;
+  }
+}
+
+function readHeader(req: Request, name: string): string | null {
+  const value = req.header(name)?.trim();
+  return value ? value.slice(0, MAX_HEADER_LENGTH) : null;
+}
+
+function readCountry(req: Request): string | null {
+  for (const name of COUNTRY_HEADERS) {
+    const value = req.header(name)?.trim().toUpperCase();
+    // "XX" is Cloudflare's unknown country
+    if (value && /^[A-Z]{2}$/.test(value) && value !== "XX") {
+      return value;
+    }
+  }
+  return null;
+}
+
+async function recordClick(code: string, req: Request): Promise<void> {
+  await db.insert(linkClicks).values({
+    id: crypto.randomUUID(),
+    code,
+    referrer: readHeader(req, "referer"),
+    userAgent: readHeader(req, "user-agent"),
+    country: readCountry(req),
+  });
+}
+
+async function queryLinkStats(
+  userId: string,
+  range: LinkStats["range"],
+  baseUrl: string,
+): Promise<LinkStats> {
+  const clickFilter =
+    range === "all"
+      ? eq(linkClicks.code, shortLinks.code)
+      : and(
+          eq(linkClicks.code, shortLinks.code),
+          gte(
+            linkClicks.clickedAt,
+            new Date(Date.now() - Number(range) * DAY_MS),
+          ),
+        );
+
+  const rows = await db
+    .select({
+      code: shortLinks.code,
+      productId: shortLinks.productId,
+      title: shortLinks.title,
+      imageUrl: shortLinks.imageUrl,
+      offerKey: shortLinks.offerKey,
+      offerName: shortLinks.offerName,
+      targetUrl: shortLinks.targetUrl,
+      clicks: count(linkClicks.id),
+      lastClickAt: max(linkClicks.clickedAt),
+    })
+    .from(shortLinks)
+    .leftJoin(linkClicks, clickFilter)
+    .where(eq(shortLinks.userId, userId))
+    .groupBy(shortLinks.code);
+
+  const products = new Map<string, ProductClickStats>();
+  for (const row of rows) {
+    const lastClickAt = row.lastClickAt?.toISOString() ?? null;
+    let product = products.get(row.productId);
+    if (!product) {
+      product = {
+        productId: row.productId,
+        title: row.title,
+        imageUrl: row.imageUrl,
+        clicks: 0,
+        lastClickAt: null,
+        offers: [],
+      };
+      products.set(row.productId, product);
+    }
+
+    product.clicks += row.clicks;
+    if (
+      lastClickAt &&
+      (!product.lastClickAt || lastClickAt > product.lastClickAt)
+    ) {
+      product.lastClickAt = lastClickAt;
+    }
+    product.offers.push({
+      code: row.code,
+      shortUrl: buildShortUrl(baseUrl, row.code),
+      offerKey: row.offerKey,
+      offerName: row.offerName,
+      targetUrl: row.targetUrl,
+      clicks: row.clicks,
+      lastClickAt,
+    });
+  }
+
+  const sorted = [...products.values()]
+    .sort(
+      (a, b) =>
+        b.clicks - a.clicks ||
+        (b.lastClickAt ?? "").localeCompare(a.lastClickAt ?? ""),
+    )
+    .slice(0, MAX_STATS_PRODUCTS);
+  for (const product of sorted) {
+    product.offers.sort((a, b) => b.clicks - a.clicks);
+  }
+
+  return {
+    range,
+    totalClicks: rows.reduce((total, row) => total + row.clicks, 0),
+    products: sorted,
+  };
+}
+
+export function registerShortLinkRoutes(app: Express) {
+  // Public: opened by whoever the link was shared with
+  app.get("/r/:code", async (req: Request, res: Response) => {
+    const code = String(req.params.code);
+    if (!CODE_PATTERN.test(code)) {
+      return res.status(404).type("text/plain").send("Link not found");
+    }
+
+    try {
+      const [link] = await db
+        .select({ targetUrl: shortLinks.targetUrl })
+        .from(shortLinks)
+        .where(eq(shortLinks.code, code))
+        .limit(1);
+      if (!link) {
+        return res.status(404).type("text/plain").send("Link not found");
+      }
+
+      // The visitor is not kept waiting on the click being stored
+      recordClick(code, req).catch((error) => {
+        console.error("Failed to record link click:", error);
+      });
+
+      res.set("Cache-Control", "no-store");
+      return res.redirect(302, link.targetUrl);
+    } catch (error) {
+      console.error("Short link error:", error);
+      return res.status(500).type("text/plain").send("Something went wrong");
+    }
+  });
+
+  app.get("/api/links/stats", async (req: Request, res: Response) => {
+    const validation = linkStatsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid range",
+      });
+    }
+
+    try {
+      return res.json(
+        await queryLinkStats(
+          req.auth!.userId,
+          validation.data.range,
+          getShortLinkBaseUrl(req),
+        ),
+      );
+    } catch (error) {
+      console.error("Link stats error:", error);
+      return res.status(500).json({ message: "Failed to load link stats" });
+    }
+  });
+}
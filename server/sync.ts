@@ -0,0 +1,123 @@
+import type { Express, Request, Response } from "express";
+import { and, eq, gt, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { syncEntries, type SyncEntryRow } from "@shared/schema";
+import {
+  syncPullSchema,
+  syncPushSchema,
+  type SyncEntry,
+  type SyncKey,
+} from "@shared/sync";
+
+// A write stamped just before a pull can commit just after it; each pull
+// looks back this far so such writes are delivered next time. Entries seen
+// twice are ignored by the client, which keeps ties.
+const CURSOR_OVERLAP_MS = 30 * 1000;
+
+/**
+ * The database clock, which also stamps syncedAt, read the way Drizzle
+ * reads timestamp columns so the two compare exactly.
+ */
+async function getDatabaseTime(): Promise<Date> {
+  const result = await db.execute<{ now: string }>(
+    sql`select now()::timestamp::text as now`,
+  );
+  return new Date(`${result.rows[0].now.replace(" ", "T")}Z`);
+}
+
+function toSyncEntry(row: SyncEntryRow): SyncEntry {
+  return {
+    key: row.key as SyncKey,
+    value: row.value,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function registerSyncRoutes(app: Express) {
+  app.get("/api/sync", async (req: Request, res: Response) => {
+    const validation = syncPullSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid sync cursor",
+      });
+    }
+
+    try {
+      // Read the clock first so entries stored during the query are
+      // returned again on the next pull rather than skipped
+      const serverTime = new Date(
+        (await getDatabaseTime()).getTime() - CURSOR_OVERLAP_MS,
+      );
+      const { since } = validation.data;
+      const rows = await db
+        .select()
+        .from(syncEntries)
+        .where(
+          and(
+            eq(syncEntries.userId, req.auth!.userId),
+            since ? gt(syncEntries.syncedAt, new Date(since)) : undefined,
+          ),
+        );
+      return res.json({
+        entries: rows.map(toSyncEntry),
+        serverTime: serverTime.toISOString(),
+      });
+    } catch (error) {
+      console.error("Sync pull error:", error);
+      return res.status(500).json({ message: "Failed to load synced data" });
+    }
+  });
+
+  // Responds with the stored entries for the pushed keys, so a device whose
+  // change lost to a later write can adopt the winning value
+  app.post("/api/sync", async (req: Request, res: Response) => {
+    const validation = syncPushSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid changes",
+      });
+    }
+
+    const userId = req.auth!.userId;
+    const { changes } = validation.data;
+
+    try {
+      for (const change of changes) {
+        await db
+          .insert(syncEntries)
+          .values({
+            userId,
+            key: change.key,
+            value: change.value,
+            updatedAt: new Date(change.updatedAt),
+          })
+          .onConflictDoUpdate({
+            target: [syncEntries.userId, syncEntries.key],
+            set: {
+              value: change.value,
+              updatedAt: new Date(change.updatedAt),
+              syncedAt: sql`now()`,
+            },
+            setWhere: sql`${syncEntries.updatedAt} < excluded.updated_at`,
+          });
+      }
+
+      const rows = await db
+        .select()
+        .from(syncEntries)
+        .where(
+          and(
+            eq(syncEntries.userId, userId),
+            inArray(
+              syncEntries.key,
+              changes.map((change) => change.key),
+            ),
+          ),
+        );
+      return res.json({ entries: rows.map(toSyncEntry) });
+    } catch (error) {
+      console.error("Sync push error:", error);
+      return res.status(500).json({ message: "Failed to save synced data" });
+    }
+  });
+}
@@ -0,0 +1,493 @@
+import type { Express, Request, Response } from "express";
+import { and, count, desc, eq, isNull, sql } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "./db";
+import type { ApiCredentials } from "./aliexpress";
+import { CredentialsError, getStoredCredentials } from "./credentials";
+import { recordPriceSnapshot } from "./price-history";
+import { assertPublicHttpsUrl, UnsafeUrlError } from "./public-url";
+import { getProductDetailsFromApi } from "./routes";
+import {
+  addWatchSchema,
+  alertWebhookSchema,
+  alertWebhooks,
+  priceAlerts,
+  updateWatchSchema,
+  watchlistItems,
+  type PriceAlertRow,
+  type WatchlistItemRow,
+} from "@shared/schema";
+import { buildProductUrl } from "@shared/links";
+import { parsePriceValue } from "@shared/price-history";
+import {
+  isWatchConditionMet,
+  type PriceAlert,
+  type WatchlistItem,
+} from "@shared/watchlist";
+
+const MAX_WATCHLIST_ITEMS = 100;
+const MAX_ALERTS = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// 0 disables background checks; watches can still be checked on demand
+const CHECK_INTERVAL_MS =
+  parseInt(process.env.WATCHLIST_CHECK_INTERVAL_MINUTES || "30", 10) *
+  60 *
+  1000;
+const CHECKS_PER_RUN = parseInt(
+  process.env.WATCHLIST_CHECKS_PER_RUN || "50",
+  10,
+);
+
+export class WatchlistError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WatchlistError";
+    this.status = status;
+  }
+}
+
+function toWatchlistItem(row: WatchlistItemRow): WatchlistItem {
+  return {
+    id: row.id,
+    productId: row.productId,
+    title: row.title,
+    imageUrl: row.imageUrl,
+    targetPrice: row.targetPrice,
+    targetDropPercent: row.targetDropPercent,
+    basePrice: row.basePrice,
+    lastPrice: row.lastPrice,
+    lastPriceValue: row.lastPriceValue,
+    lastCheckedAt: row.lastCheckedAt?.toISOString() ?? null,
+    lastError: row.lastError,
+    triggeredAt: row.triggeredAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toPriceAlert(row: PriceAlertRow): PriceAlert {
+  return {
+    id: row.id,
+    watchId: row.watchId,
+    productId: row.productId,
+    title: row.title,
+    imageUrl: row.imageUrl,
+    price: row.price,
+    priceValue: row.priceValue,
+    basePrice: row.basePrice,
+    createdAt: row.createdAt.toISOString(),
+    readAt: row.readAt?.toISOString() ?? null,
+  };
+}
+
+async function findWatch(
+  userId: string,
+  id: string,
+): Promise<WatchlistItemRow> {
+  const [row] = await db
+    .select()
+    .from(watchlistItems)
+    .where(and(eq(watchlistItems.id, id), eq(watchlistItems.userId, userId)))
+    .limit(1);
+  if (!row) {
+    throw new WatchlistError("Watched product not found", 404);
+  }
+  return row;
+}
+
+async function getWebhookUrl(userId: string): Promise<string | null> {
+  const [row] = await db
+    .select()
+    .from(alertWebhooks)
+    .where(eq(alertWebhooks.userId, userId))
+    .limit(1);
+  return row?.url ?? null;
+}
+
+/** Delivery is best effort: failures are logged and not retried. */
+async function sendAlertWebhook(alert: PriceAlertRow): Promise<void> {
+  try {
+    const url = await getWebhookUrl(alert.userId);
+    if (!url) return;
+
+    // Redirects are not followed; they could lead to an internal address
+    const response = await fetch(await assertPublicHttpsUrl(url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        event: "price_alert",
+        alert: toPriceAlert(alert),
+        productUrl: buildProductUrl(alert.productId),
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    if (!response.ok) {
+      console.error(`Alert webhook responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Alert webhook error:", error);
+  }
+}
+
+/**
+ * Fetches the current price of a watched product, records it and raises an
+ * alert when the watch condition is met. API failures are stored on the
+ * watch instead of being thrown.
+ */
+async function checkWatch(
+  watch: WatchlistItemRow,
+  { appKey, appSecret, trackingId }: ApiCredentials,
+): Promise<WatchlistItemRow> {
+  const checkedAt = new Date();
+
+  try {
+    const details = await getProductDetailsFromApi(
+      watch.productId,
+      appKey,
+      appSecret,
+      trackingId,
+    );
+    void recordPriceSnapshot({ productId: watch.productId, ...details });
+
+    const priceValue = parsePriceValue(details.price);
+    if (priceValue === null) {
+      throw new WatchlistError("Price is not available");
+    }
+
+    let [updated] = await db
+      .update(watchlistItems)
+      .set({
+        title: details.title,
+        imageUrl: details.imageUrl ?? watch.imageUrl,
+        lastPrice: details.price,
+        lastPriceValue: priceValue,
+        lastCheckedAt: checkedAt,
+        lastError: null,
+      })
+      .where(eq(watchlistItems.id, watch.id))
+      .returning();
+
+    // The scheduler and a manual check can run at once; only the one that
+    // claims the trigger raises the alert
+    let claimed: WatchlistItemRow | undefined;
+    if (
+      !watch.triggeredAt &&
+      isWatchConditionMet(watch, watch.basePrice, priceValue)
+    ) {
+      [claimed] = await db
+        .update(watchlistItems)
+        .set({ triggeredAt: checkedAt })
+        .where(
+          and(
+            eq(watchlistItems.id, watch.id),
+            isNull(watchlistItems.triggeredAt),
+          ),
+        )
+        .returning();
+    }
+
+    if (claimed) {
+      updated = claimed;
+      const [alert] = await db
+        .insert(priceAlerts)
+        .values({
+          id: crypto.randomUUID(),
+          userId: watch.userId,
+          watchId: watch.id,
+          productId: watch.productId,
+          title: updated.title,
+          imageUrl: updated.imageUrl,
+          price: details.price,
+          priceValue,
+          basePrice: watch.basePrice,
+        })
+        .returning();
+      void sendAlertWebhook(alert);
+    }
+
+    return updated;
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Price check failed";
+    const [updated] = await db
+      .update(watchlistItems)
+      .set({ lastCheckedAt: checkedAt, lastError: message })
+      .where(eq(watchlistItems.id, watch.id))
+      .returning();
+    return updated;
+  }
+}
+
+/**
+ * Checks the watches that have waited longest, using each owner's stored
+ * credentials. Watches of owners without credentials are only marked as
+ * checked so they do not hold back the others.
+ */
+async function runWatchlistChecks(): Promise<void> {
+  const watches = await db
+    .select()
+    .from(watchlistItems)
+    .where(isNull(watchlistItems.triggeredAt))
+    .orderBy(sql`${watchlistItems.lastCheckedAt} asc nulls first`)
+    .limit(CHECKS_PER_RUN);
+
+  const credentialsByUser = new Map<string, ApiCredentials | null>();
+
+  for (const watch of watches) {
+    if (!credentialsByUser.has(watch.userId)) {
+      const credentials = await getStoredCredentials(watch.userId).catch(
+        (error) => {
+          console.error("Watchlist credentials error:", error);
+          return null;
+        },
+      );
+      credentialsByUser.set(watch.userId, credentials);
+    }
+
+    const credentials = credentialsByUser.get(watch.userId);
+    if (!credentials) {
+      await db
+        .update(watchlistItems)
+        .set({
+          lastCheckedAt: new Date(),
+          lastError: "API credentials are not configured",
+        })
+        .where(eq(watchlistItems.id, watch.id));
+      continue;
+    }
+
+    await checkWatch(watch, credentials);
+  }
+}
+
+export function startWatchlistScheduler(): void {
+  if (CHECK_INTERVAL_MS <= 0) return;
+
+  let running = false;
+  setInterval(async () => {
+    // A slow run is not overlapped by the next tick
+    if (running) return;
+    running = true;
+    try {
+      await runWatchlistChecks();
+    } catch (error) {
+      console.error("Watchlist check error:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
+
+function handleWatchlistError(res: Response, error: unknown, context: string) {
+  if (
+    error instanceof WatchlistError ||
+    error instanceof CredentialsError ||
+    error instanceof UnsafeUrlError
+  ) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ message: "Internal server error" });
+}
+
+export function registerWatchlistRoutes(app: Express) {
+  app.get("/api/watchlist", async (req: Request, res: Response) => {
+    try {
+      const rows = await db
+        .select()
+        .from(watchlistItems)
+        .where(eq(watchlistItems.userId, req.auth!.userId))
+        .orderBy(desc(watchlistItems.createdAt));
+      return res.json(rows.map(toWatchlistItem));
+    } catch (error) {
+      return handleWatchlistError(res, error, "Watchlist read error");
+    }
+  });
+
+  // Adding a product that is already watched replaces its target
+  app.post("/api/watchlist", async (req: Request, res: Response) => {
+    try {
+      const validation = addWatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const userId = req.auth!.userId;
+      const { productId, title, imageUrl, price } = validation.data;
+      const basePrice = parsePriceValue(price);
+      if (basePrice === null) {
+        throw new WatchlistError("The current price is not available");
+      }
+
+      const [existing] = await db
+        .select({ id: watchlistItems.id })
+        .from(watchlistItems)
+        .where(
+          and(
+            eq(watchlistItems.userId, userId),
+            eq(watchlistItems.productId, productId),
+          ),
+        )
+        .limit(1);
+      if (!existing) {
+        const [{ total }] = await db
+          .select({ total: count() })
+          .from(watchlistItems)
+          .where(eq(watchlistItems.userId, userId));
+        if (total >= MAX_WATCHLIST_ITEMS) {
+          throw new WatchlistError(
+            `You can watch up to ${MAX_WATCHLIST_ITEMS} products`,
+          );
+        }
+      }
+
+      const values = {
+        title,
+        imageUrl: imageUrl ?? null,
+        targetPrice: validation.data.targetPrice ?? null,
+        targetDropPercent: validation.data.targetDropPercent ?? null,
+        basePrice,
+        lastPrice: price,
+        lastPriceValue: basePrice,
+        lastError: null,
+        triggeredAt: null,
+      };
+
+      const [row] = await db
+        .insert(watchlistItems)
+        .values({ id: crypto.randomUUID(), userId, productId, ...values })
+        .onConflictDoUpdate({
+          target: [watchlistItems.userId, watchlistItems.productId],
+          set: values,
+        })
+        .returning();
+      return res.json(toWatchlistItem(row));
+    } catch (error) {
+      return handleWatchlistError(res, error, "Watchlist add error");
+    }
+  });
+
+  // Changing the target re-arms a triggered watch from the latest price
+  app.patch("/api/watchlist/:id", async (req: Request, res: Response) => {
+    try {
+      const validation = updateWatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const watch = await findWatch(req.auth!.userId, String(req.params.id));
+      const [row] = await db
+        .update(watchlistItems)
+        .set({
+          targetPrice: validation.data.targetPrice ?? null,
+          targetDropPercent: validation.data.targetDropPercent ?? null,
+          basePrice: watch.lastPriceValue ?? watch.basePrice,
+          triggeredAt: null,
+        })
+        .where(eq(watchlistItems.id, watch.id))
+        .returning();
+      return res.json(toWatchlistItem(row));
+    } catch (error) {
+      return handleWatchlistError(res, error, "Watchlist update error");
+    }
+  });
+
+  app.delete("/api/watchlist/:id", async (req: Request, res: Response) => {
+    try {
+      const watch = await findWatch(req.auth!.userId, String(req.params.id));
+      await db.delete(watchlistItems).where(eq(watchlistItems.id, watch.id));
+      return res.json({ success: true });
+    } catch (error) {
+      return handleWatchlistError(res, error, "Watchlist delete error");
+    }
+  });
+
+  app.post("/api/watchlist/:id/check", async (req: Request, res: Response) => {
+    try {
+      const userId = req.auth!.userId;
+      const watch = await findWatch(userId, String(req.params.id));
+      const credentials = await getStoredCredentials(userId);
+      if (!credentials) {
+        throw new WatchlistError("API credentials are not configured");
+      }
+
+      return res.json(toWatchlistItem(await checkWatch(watch, credentials)));
+    } catch (error) {
+      return handleWatchlistError(res, error, "Watchlist check error");
+    }
+  });
+
+  app.get("/api/alerts", async (req: Request, res: Response) => {
+    try {
+      const rows = await db
+        .select()
+        .from(priceAlerts)
+        .where(eq(priceAlerts.userId, req.auth!.userId))
+        .orderBy(desc(priceAlerts.createdAt))
+        .limit(MAX_ALERTS);
+      return res.json(rows.map(toPriceAlert));
+    } catch (error) {
+      return handleWatchlistError(res, error, "Alerts read error");
+    }
+  });
+
+  app.post("/api/alerts/read", async (req: Request, res: Response) => {
+    try {
+      await db
+        .update(priceAlerts)
+        .set({ readAt: new Date() })
+        .where(
+          and(
+            eq(priceAlerts.userId, req.auth!.userId),
+            isNull(priceAlerts.readAt),
+          ),
+        );
+      return res.json({ success: true });
+    } catch (error) {
+      return handleWatchlistError(res, error, "Alerts update error");
+    }
+  });
+
+  app.get("/api/alerts/webhook", async (req: Request, res: Response) => {
+    try {
+      return res.json({ url: await getWebhookUrl(req.auth!.userId) });
+    } catch (error) {
+      return handleWatchlistError(res, error, "Webhook read error");
+    }
+  });
+
+  app.put("/api/alerts/webhook", async (req: Request, res: Response) => {
+    try {
+      const validation = alertWebhookSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: validation.error.errors[0]?.message || "Invalid input",
+        });
+      }
+
+      const userId = req.auth!.userId;
+      const { url } = validation.data;
+      if (!url) {
+        await db.delete(alertWebhooks).where(eq(alertWebhooks.userId, userId));
+        return res.json({ url: null });
+      }
+
+      await assertPublicHttpsUrl(url);
+      const values = { url, updatedAt: new Date() };
+      await db
+        .insert(alertWebhooks)
+        .values({ userId, ...values })
+        .onConflictDoUpdate({ target: alertWebhooks.userId, set: values });
+      return res.json({ url });
+    } catch (error) {
+      return handleWatchlistError(res, error, "Webhook save error");
+    }
+  });
+}
@@ -0,0 +1,15 @@
+/** Result of a signed test call made with a set of API credentials */
+export type CredentialOutcome =
+  | "valid"
+  | "invalid_app_key"
+  | "invalid_signature"
+  | "invalid_tracking_id"
+  | "rate_limited"
+  | "unreachable"
+  | "api_error";
+
+export interface CredentialVerification {
+  success: boolean;
+  outcome: CredentialOutcome;
+  message: string;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { parsePriceValue } from "./price-history";
+
+export const HISTORY_SORTS = [
+  "recent",
+  "price",
+  "discount",
+  "commission",
+] as const;
+
+export type HistorySort = (typeof HISTORY_SORTS)[number];
+
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// Query string values arrive as strings; empty ones are treated as unset
+const optionalNumber = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  z.coerce.number().min(0).max(100).optional(),
+);
+const optionalDate = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  z.string().datetime().optional(),
+);
+
+export const historyQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  category: z.string().trim().max(200).optional(),
+  minDiscount: optionalNumber,
+  maxDiscount: optionalNumber,
+  from: optionalDate,
+  to: optionalDate,
+  sort: z.enum(HISTORY_SORTS).default("recent"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).default(30),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type HistoryQuery = z.input<typeof historyQuerySchema>;
+
+export interface HistoryPage<T> {
+  items: T[];
+  /** Number of matching products across all pages */
+  total: number;
+}
+
+/** Fields of a stored product that search, filters and sorting use. */
+export interface HistoryFields {
+  title: string;
+  storeName?: string;
+  categoryName?: string;
+  price: string;
+  discount?: string;
+  commissionRate?: string;
+  searchedAt: string;
+}
+
+/** Discount and commission are shown as "12.5%"; the leading number is used. */
+export function getHistoryValues(product: HistoryFields) {
+  return {
+    priceValue: parsePriceValue(product.price),
+    discountValue: parsePriceValue(product.discount || ""),
+    commissionValue: parsePriceValue(product.commissionRate || ""),
+  };
+}
+
+/**
+ * In-memory version of the server query, used on the offline copy of the
+ * history. Returns the requested page of matching products.
+ */
+export function queryHistory<T extends HistoryFields>(
+  products: T[],
+  query: HistoryQuery,
+): HistoryPage<T> {
+  const {
+    search,
+    category,
+    minDiscount,
+    maxDiscount,
+    from,
+    to,
+    sort,
+    order,
+    limit,
+    offset,
+  } = historyQuerySchema.parse(query);
+  const needle = search?.toLowerCase();
+
+  const matches = products.filter((product) => {
+    const { discountValue } = getHistoryValues(product);
+    if (
+      needle &&
+      !product.title.toLowerCase().includes(needle) &&
+      !(product.storeName || "").toLowerCase().includes(needle)
+    ) {
+      return false;
+    }
+    if (category && product.categoryName !== category) return false;
+    if (minDiscount !== undefined && (discountValue ?? 0) < minDiscount) {
+      return false;
+    }
+    if (maxDiscount !== undefined && (discountValue ?? 0) > maxDiscount) {
+      return false;
+    }
+    if (from && product.searchedAt < from) return false;
+    if (to && product.searchedAt > to) return false;
+    return true;
+  });
+
+  const sortValue = (product: T): number | null => {
+    const values = getHistoryValues(product);
+    if (sort === "price") return values.priceValue;
+    if (sort === "discount") return values.discountValue;
+    if (sort === "commission") return values.commissionValue;
+    return new Date(product.searchedAt).getTime();
+  };
+
+  // Products without a value go last in either direction
+  const direction = order === "asc" ? 1 : -1;
+  matches.sort((a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    return (left - right) * direction;
+  });
+
+  return {
+    items: matches.slice(offset, offset + limit),
+    total: matches.length,
+  };
+}
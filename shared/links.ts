@@ -0,0 +1,98 @@
+const URL_PATTERN =
+  /https?:\/\/(?:[a-zA-Z]|[0-9]|[$-_@.&+]|[!*\(\),]|(?:%[0-9a-fA-F][0-9a-fA-F]))+/g;
+
+const ALIEXPRESS_HOSTS = [
+  "aliexpress.com",
+  "alix.live",
+  "s.click.aliexpress.com",
+];
+
+export function isAliExpressUrl(url: string): boolean {
+  return ALIEXPRESS_HOSTS.some((host) => url.includes(host));
+}
+
+export function isAliExpressHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return ALIEXPRESS_HOSTS.some(
+    (allowed) => host === allowed || host.endsWith(`.${allowed}`),
+  );
+}
+
+export function extractUrls(text: string): string[] {
+  return text.match(URL_PATTERN) || [];
+}
+
+export function extractProductId(text: string): string | null {
+  const urls = extractUrls(text);
+  const targetUrl = urls.find((url) => isAliExpressUrl(url)) || text;
+
+  // Patterns for specific product ID extraction from URLs
+  const urlPatterns = [
+    /[?&]productIds?=(\d+)/,
+    /\/item\/(\d+)\.(?:html|htm)/,
+    /\/item\/(\d+)(?:\?|$)/,
+    /\/product\/(\d+)/,
+    /\/i\/(\d+)/,
+    /\/p\/[^/]+\/index\.html[?&]productIds?=(\d+)/,
+    /\/ssr\/.*?[?&]productIds?=(\d+)/,
+    /\/[a-z0-9]+\.html\?.*?productId(?:s)?=(\d+)/,
+  ];
+
+  for (const pattern of urlPatterns) {
+    const match = targetUrl.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  // If no URL pattern matches, search for a long numeric string in the entire text
+  const numericMatch = text.match(/\b\d{10,20}\b/);
+  if (numericMatch) {
+    return numericMatch[0];
+  }
+
+  return null;
+}
+
+export function buildProductUrl(productId: string): string {
+  return `https://www.aliexpress.com/item/${productId}.html`;
+}
+
+/**
+ * Splits a pasted block of text into individual AliExpress product links.
+ * Lines without a link but with a bare product ID are turned into product
+ * URLs. Links pointing at the same product are only returned once.
+ */
+export function extractProductLinks(text: string): string[] {
+  const links: string[] = [];
+  const seenUrls = new Set<string>();
+  const seenProductIds = new Set<string>();
+
+  const addLink = (url: string) => {
+    const productId = extractProductId(url);
+    if (seenUrls.has(url) || (productId && seenProductIds.has(productId))) {
+      return;
+    }
+    seenUrls.add(url);
+    if (productId) {
+      seenProductIds.add(productId);
+    }
+    links.push(url);
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const urls = extractUrls(line).filter((url) => isAliExpressUrl(url));
+
+    if (urls.length > 0) {
+      urls.forEach(addLink);
+      continue;
+    }
+
+    const productId = line.match(/\b\d{10,20}\b/)?.[0];
+    if (productId) {
+      addLink(buildProductUrl(productId));
+    }
+  }
+
+  return links;
+}
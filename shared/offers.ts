@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+export interface OfferType {
+  key: string;
+  label: string;
+  /** URL pattern for the affiliate link; {productId} is substituted */
+  primaryUrl: string;
+  /** URL pattern tried when the primary URL cannot be converted */
+  fallbackUrl: string;
+  enabled: boolean;
+  sortOrder: number;
+  custom?: boolean;
+}
+
+export const customOfferTypeSchema = z.object({
+  label: z.string().trim().min(1, "Offer name is required").max(60),
+  sourceType: z
+    .string()
+    .trim()
+    .regex(/^\d{1,6}$/, "sourceType must be a number"),
+});
+
+export type CustomOfferType = z.infer<typeof customOfferTypeSchema>;
+
+export const MAX_CUSTOM_OFFER_TYPES = 20;
+
+const PRODUCT_URL = "https://www.aliexpress.com/item/{productId}.html";
+const STAR_SHARE_URL =
+  "https://star.aliexpress.com/share/share.htm?redirectUrl=";
+
+function sourceTypeUrl(sourceType: string): string {
+  return `${PRODUCT_URL}?sourceType=${sourceType}`;
+}
+
+function defineOfferType(
+  key: string,
+  label: string,
+  primaryUrl: string,
+  sortOrder: number,
+): OfferType {
+  return {
+    key,
+    label,
+    primaryUrl,
+    fallbackUrl: `${STAR_SHARE_URL}${primaryUrl}`,
+    enabled: true,
+    sortOrder,
+  };
+}
+
+export const DEFAULT_OFFER_TYPES: OfferType[] = [
+  defineOfferType(
+    "coin_link",
+    "Coin Page Offer",
+    "https://m.aliexpress.com/p/coin-index/index.html?_immersiveMode=true&productIds={productId}",
+    0,
+  ),
+  defineOfferType(
+    "direct_link",
+    "Direct Product Link",
+    sourceTypeUrl("620"),
+    1,
+  ),
+  defineOfferType("super_link", "Super Deals", sourceTypeUrl("562"), 2),
+  defineOfferType(
+    "big_save_link",
+    "Big Save Discount",
+    sourceTypeUrl("680"),
+    3,
+  ),
+  defineOfferType("limited_link", "Limited Discount", sourceTypeUrl("561"), 4),
+  defineOfferType(
+    "potential_link",
+    "Potential Discount",
+    sourceTypeUrl("504"),
+    5,
+  ),
+  defineOfferType(
+    "bundle_direct_link",
+    "Bundle Direct",
+    sourceTypeUrl("570"),
+    6,
+  ),
+  defineOfferType(
+    "bundle_page_link",
+    "Bundle Deals Page",
+    "https://www.aliexpress.com/ssr/300000512/BundleDeals2?&pha_manifest=ssr&productIds={productId}",
+    7,
+  ),
+];
+
+const CUSTOM_OFFER_KEY_PATTERN = /^source_\d+_link$/;
+
+export function customOfferKey(sourceType: string): string {
+  return `source_${sourceType.trim()}_link`;
+}
+
+export function createCustomOfferType(
+  { label, sourceType }: CustomOfferType,
+  sortOrder: number,
+): OfferType {
+  return {
+    ...defineOfferType(
+      customOfferKey(sourceType),
+      label.trim(),
+      sourceTypeUrl(sourceType.trim()),
+      sortOrder,
+    ),
+    custom: true,
+  };
+}
+
+/**
+ * Returns the built-in offer types followed by the user's custom campaigns,
+ * ordered by sortOrder. Custom campaigns reusing a built-in sourceType
+ * or key are ignored.
+ */
+export function getOfferTypes(
+  customOfferTypes: CustomOfferType[] = [],
+): OfferType[] {
+  const types = [...DEFAULT_OFFER_TYPES];
+  const seenKeys = new Set(types.map((type) => type.key));
+  const seenUrls = new Set(types.map((type) => type.primaryUrl));
+
+  customOfferTypes.forEach((custom, index) => {
+    const type = createCustomOfferType(
+      custom,
+      DEFAULT_OFFER_TYPES.length + index,
+    );
+    if (seenKeys.has(type.key) || seenUrls.has(type.primaryUrl)) return;
+    seenKeys.add(type.key);
+    seenUrls.add(type.primaryUrl);
+    types.push(type);
+  });
+
+  return types.sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+export interface OfferPreferences {
+  /** Offer keys in the order the user wants them listed */
+  offerOrder: string[];
+  disabledOfferKeys: string[];
+}
+
+/**
+ * Applies the user's ordering and enabled state to the offer types. Keys
+ * missing from the saved order (e.g. newly added campaigns) keep their
+ * relative order after the ordered ones.
+ */
+export function applyOfferPreferences(
+  types: OfferType[],
+  { offerOrder, disabledOfferKeys }: OfferPreferences,
+): OfferType[] {
+  const rank = (key: string) => {
+    const index = offerOrder.indexOf(key);
+    return index === -1 ? offerOrder.length : index;
+  };
+
+  return [...types]
+    .sort((a, b) => rank(a.key) - rank(b.key) || a.sortOrder - b.sortOrder)
+    .map((type, index) => ({
+      ...type,
+      enabled: !disabledOfferKeys.includes(type.key),
+      sortOrder: index,
+    }));
+}
+
+/**
+ * Restricts the offer types to the requested keys, in the requested order.
+ * Without a key list every enabled type is kept.
+ */
+export function selectOfferTypes(
+  types: OfferType[],
+  offerKeys?: string[],
+): OfferType[] {
+  if (!offerKeys) return types.filter((type) => type.enabled);
+
+  return offerKeys
+    .map((key) => types.find((type) => type.key === key))
+    .filter((type): type is OfferType => !!type)
+    .map((type, index) => ({ ...type, enabled: true, sortOrder: index }));
+}
+
+export function isOfferKey(key: string): boolean {
+  return (
+    DEFAULT_OFFER_TYPES.some((type) => type.key === key) ||
+    CUSTOM_OFFER_KEY_PATTERN.test(key)
+  );
+}
+
+export function buildOfferUrl(pattern: string, productId: string): string {
+  return pattern.replace(/\{productId\}/g, productId);
+}
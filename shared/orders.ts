@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+/** Longest date range that can be synced or reported at once */
+export const MAX_ORDER_RANGE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const orderDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine(
+    (value) =>
+      !isNaN(Date.parse(value)) &&
+      new Date(value).toISOString().startsWith(value),
+    "Invalid date",
+  );
+
+/** Whole UTC days, both ends included */
+export const orderRangeSchema = z
+  .object({ from: orderDate, to: orderDate })
+  .refine(({ from, to }) => from <= to, "The start date is after the end date")
+  .refine(
+    ({ from, to }) =>
+      (Date.parse(to) - Date.parse(from)) / DAY_MS < MAX_ORDER_RANGE_DAYS,
+    `The range can span at most ${MAX_ORDER_RANGE_DAYS} days`,
+  );
+
+export type OrderRange = z.infer<typeof orderRangeSchema>;
+
+export interface OrderSyncResult {
+  /** Orders returned by AliExpress for the range */
+  fetched: number;
+  /**
+   * False when the sync stopped before every order was fetched; the ones
+   * fetched are stored and syncing a shorter range gets the rest
+   */
+  complete: boolean;
+  syncedAt: string;
+}
+
+export interface EarningsRow {
+  key: string;
+  label: string;
+  orders: number;
+  paidAmount: number;
+  estimatedCommission: number;
+  settledCommission: number;
+}
+
+export type EarningsGrouping = "day" | "product" | "trackingId" | "offerType";
+
+/** Earnings of the orders settled in one currency */
+export interface CurrencyEarnings {
+  currency: string;
+  totals: Omit<EarningsRow, "key" | "label">;
+  groups: Record<EarningsGrouping, EarningsRow[]>;
+}
+
+export interface EarningsReport extends OrderRange {
+  /** Most recent sync of this user's orders, null before the first one */
+  lastSyncedAt: string | null;
+  /**
+   * One entry per settlement currency, the one with the most orders first.
+   * Amounts in different currencies are never added up.
+   */
+  currencies: CurrencyEarnings[];
+}
+
+/** The last `days` days up to today, in the format the order API expects */
+export function getRecentRange(days: number, now = new Date()): OrderRange {
+  const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return {
+    from: toDate(now.getTime() - (days - 1) * DAY_MS),
+    to: toDate(now.getTime()),
+  };
+}
+
+export function formatCommission(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
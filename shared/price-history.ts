@@ -0,0 +1,76 @@
+export interface PricePoint {
+  price: string;
+  originalPrice: string;
+  discount: string;
+  orders: string;
+  priceValue: number | null;
+  originalPriceValue: number | null;
+  recordedAt: string;
+}
+
+export interface PriceHistorySummary {
+  lowest: PricePoint | null;
+  highest: PricePoint | null;
+  latest: PricePoint | null;
+  /** True when the latest price is the lowest one seen so far */
+  isLowest: boolean;
+}
+
+export interface PriceHistory {
+  productId: string;
+  points: PricePoint[];
+  summary: PriceHistorySummary;
+}
+
+/**
+ * Extracts the amount from a displayed price such as "19.99 USD" or
+ * "US $1,299.00". Returns null for "N/A" and other unparsable values.
+ */
+export function parsePriceValue(price: string): number | null {
+  const match = price.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  if (!match) return null;
+  const value = parseFloat(match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function createPricePoint(
+  snapshot: Pick<PricePoint, "price" | "originalPrice" | "discount" | "orders">,
+  recordedAt: string = new Date().toISOString(),
+): PricePoint {
+  return {
+    price: snapshot.price,
+    originalPrice: snapshot.originalPrice,
+    discount: snapshot.discount,
+    orders: snapshot.orders,
+    priceValue: parsePriceValue(snapshot.price),
+    originalPriceValue: parsePriceValue(snapshot.originalPrice),
+    recordedAt,
+  };
+}
+
+/** Points are expected oldest first. */
+export function summarizePriceHistory(
+  points: PricePoint[],
+): PriceHistorySummary {
+  const priced = points.filter((point) => point.priceValue !== null);
+  const latest = priced[priced.length - 1] ?? null;
+
+  let lowest: PricePoint | null = null;
+  let highest: PricePoint | null = null;
+  for (const point of priced) {
+    if (!lowest || point.priceValue! < lowest.priceValue!) lowest = point;
+    if (!highest || point.priceValue! > highest.priceValue!) highest = point;
+  }
+
+  return {
+    lowest,
+    highest,
+    latest,
+    isLowest: !!latest && !!lowest && latest.priceValue! <= lowest.priceValue!,
+  };
+}
+
+/** Formats a parsed amount the way the API displays prices. */
+export function formatPriceValue(value: number): string {
+  return `${value.toFixed(2)} USD`;
+}
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/** Canvas size of each promo card layout, in pixels */
+export const PROMO_LAYOUTS = {
+  square: { width: 1080, height: 1080 },
+  story: { width: 1080, height: 1920 },
+} as const;
+
+export type PromoLayout = keyof typeof PROMO_LAYOUTS;
+
+export const promoRequestSchema = z.object({
+  layout: z.enum(["square", "story"]),
+  title: z.string().trim().min(1, "Title is required").max(500),
+  price: z.string().trim().min(1, "Price is required").max(40),
+  originalPrice: z.string().trim().max(40).default(""),
+  discount: z.string().trim().max(20).default(""),
+  storeName: z.string().trim().max(120).default(""),
+  /** Out of 5; null hides the stars */
+  rating: z.number().min(0).max(5).nullable().default(null),
+  imageUrl: z.string().url().nullable().default(null),
+  channelName: z.string().trim().max(60).default(""),
+  /** Offer link drawn as a QR code; null leaves it out */
+  qrLink: z.string().url().max(2000).nullable().default(null),
+});
+
+export type PromoRequest = z.input<typeof promoRequestSchema>;
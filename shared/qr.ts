@@ -0,0 +1,527 @@
+import { z } from "zod";
+
+/**
+ * QR code encoder (ISO/IEC 18004) for links: byte mode, versions 1-40 and
+ * all four error correction levels. The smallest version that fits is used
+ * and the mask with the lowest penalty score is picked.
+ */
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+/** Rows of modules, true for dark */
+export type QrMatrix = boolean[][];
+
+export interface QrSvgOptions {
+  foreground?: string;
+  background?: string;
+  /** Data URI drawn over the center; raises error correction to H */
+  logo?: string | null;
+  /** Quiet zone around the code, in modules */
+  margin?: number;
+}
+
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #1A1A1A");
+
+export const qrRequestSchema = z.object({
+  data: z.string().trim().min(1, "Link is required").max(2000),
+  foreground: colorSchema.default("#000000"),
+  background: colorSchema.default("#FFFFFF"),
+  /** Draws the channel logo in the center */
+  logo: z.boolean().default(false),
+});
+
+export type QrRequest = z.input<typeof qrRequestSchema>;
+
+export class QrCapacityError extends Error {
+  constructor() {
+    super("Too much data for a QR code");
+    this.name = "QrCapacityError";
+  }
+}
+
+const LEVELS: QrErrorCorrection[] = ["L", "M", "Q", "H"];
+const FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Indexed by level, then version (index 0 is unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+];
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] *
+      ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+// Multiplication in GF(2^8) with the QR polynomial 0x11D
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Splits the data into blocks, adds error correction and interleaves them */
+function addErrorCorrection(
+  data: number[],
+  version: number,
+  level: number,
+): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Padding keeps short and long blocks aligned while interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, index) => {
+      if (i !== shortBlockLength - eccLength || index >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/** Byte-mode data codewords for the version, padded to capacity */
+function encodeData(bytes: number[], version: number, level: number) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacity = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  }
+  return codewords;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly reserved: boolean[][];
+
+  constructor(
+    private readonly version: number,
+    private readonly level: QrErrorCorrection,
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array(this.size).fill(false),
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array(this.size).fill(false),
+    );
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || x >= size || y < 0 || y >= size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last)) return;
+        if (i === last && j === 0) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.setFunction(cx + dx, cy + dy, distance !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserved now, filled in once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number) {
+    const { size } = this;
+    const data = (FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, size - 15 + i, getBit(bits, i));
+    }
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /** Places the codewords in the zigzag order, skipping function patterns */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (this.reserved[y][x] || bit >= codewords.length * 8) continue;
+          this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  /** XORs the data modules with the mask; applying it twice undoes it */
+  applyMask(mask: number) {
+    const matches = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && matches(x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+function lineScore(line: boolean[]): number {
+  let score = 0;
+  let run = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run++;
+      continue;
+    }
+    if (run >= 5) score += run - 2;
+    run = 1;
+  }
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (
+      FINDER_LIKE.some((pattern) =>
+        pattern.every((dark, k) => line[i + k] === dark),
+      )
+    ) {
+      score += 40;
+    }
+  }
+  return score;
+}
+
+/** Penalty rules from the spec; lower is easier to scan */
+function penaltyScore(modules: QrMatrix): number {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+
+  for (let i = 0; i < size; i++) {
+    score += lineScore(modules[i]);
+    score += lineScore(modules.map((row) => row[i]));
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+function toUtf8(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+/**
+ * Encodes text as a QR code. Throws QrCapacityError when it does not fit
+ * in version 40 at the requested level.
+ */
+export function encodeQr(
+  text: string,
+  errorCorrection: QrErrorCorrection = "M",
+): QrMatrix {
+  const bytes = toUtf8(text);
+  const level = LEVELS.indexOf(errorCorrection);
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16);
+    if (headerBits + bytes.length * 8 <= dataCodewords(version, level) * 8) {
+      break;
+    }
+  }
+  if (version > 40) throw new QrCapacityError();
+
+  const builder = new QrBuilder(version, errorCorrection);
+  builder.drawCodewords(
+    addErrorCorrection(encodeData(bytes, version, level), version, level),
+  );
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    builder.applyMask(mask);
+    builder.drawFormatBits(mask);
+    const score = penaltyScore(builder.modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    builder.applyMask(mask);
+  }
+  builder.applyMask(bestMask);
+  builder.drawFormatBits(bestMask);
+  return builder.modules;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Draws the code's dark modules as one path, to be placed inside an SVG.
+ * Coordinates are in modules, starting at (x, y).
+ */
+export function qrPath(modules: QrMatrix, x = 0, y = 0): string {
+  const parts: string[] = [];
+  modules.forEach((row, rowIndex) => {
+    row.forEach((dark, column) => {
+      if (dark) parts.push(`M${x + column} ${y + rowIndex}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+}
+
+/** Renders text as a standalone, scalable SVG QR code */
+export function renderQrSvg(text: string, options: QrSvgOptions = {}): string {
+  const {
+    foreground = "#000000",
+    background = "#FFFFFF",
+    logo = null,
+    margin = 4,
+  } = options;
+  const modules = encodeQr(text, logo ? "H" : "M");
+  const size = modules.length + margin * 2;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`,
+    `<rect width="${size}" height="${size}" fill="${escapeAttribute(background)}"/>`,
+    `<path d="${qrPath(modules, margin, margin)}" fill="${escapeAttribute(foreground)}"/>`,
+  ];
+
+  // Level H recovers up to 30% of the code, so the logo covers well under that
+  if (logo) {
+    const logoSize = Math.round(modules.length * 0.22);
+    const offset = (size - logoSize) / 2;
+    parts.push(
+      `<rect x="${offset - 1}" y="${offset - 1}" width="${logoSize + 2}" height="${logoSize + 2}" rx="1" fill="${escapeAttribute(background)}"/>`,
+      `<image href="${escapeAttribute(logo)}" x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}"/>`,
+    );
+  }
+
+  parts.push("</svg>");
+  return parts.join("");
+}
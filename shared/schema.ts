@@ -1,4 +1,14 @@
-import { pgTable, text, varchar, date } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  date,
+  jsonb,
+  timestamp,
+  doublePrecision,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,6 +21,248 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+export const sessions = pgTable("sessions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  userId: varchar("user_id", { length: 6 })
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const apiCredentials = pgTable("api_credentials", {
+  userId: varchar("user_id", { length: 6 })
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  appKey: text("app_key").notNull(),
+  appSecretEncrypted: text("app_secret_encrypted").notNull(),
+  trackingId: text("tracking_id").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const cacheEntries = pgTable("cache_entries", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// One row per product lookup; the text columns keep the values as shown to
+// users and the numeric ones are parsed for charts and lowest/highest stats
+export const priceHistory = pgTable(
+  "price_history",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    productId: text("product_id").notNull(),
+    price: text("price").notNull(),
+    originalPrice: text("original_price").notNull(),
+    discount: text("discount").notNull(),
+    orders: text("orders").notNull(),
+    priceValue: doublePrecision("price_value"),
+    originalPriceValue: doublePrecision("original_price_value"),
+    recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("price_history_product_recorded_idx").on(
+      table.productId,
+      table.recordedAt,
+    ),
+  ],
+);
+
+// Every product a user looked up; the full product is kept as JSON and the
+// parsed columns back search, filters and sorting
+export const productHistory = pgTable(
+  "product_history",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    productId: text("product_id").notNull(),
+    title: text("title").notNull(),
+    storeName: text("store_name"),
+    categoryName: text("category_name"),
+    priceValue: doublePrecision("price_value"),
+    discountValue: doublePrecision("discount_value"),
+    commissionValue: doublePrecision("commission_value"),
+    product: jsonb("product").notNull(),
+    searchedAt: timestamp("searched_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("product_history_user_product_idx").on(
+      table.userId,
+      table.productId,
+    ),
+    index("product_history_user_searched_idx").on(
+      table.userId,
+      table.searchedAt,
+    ),
+  ],
+);
+
+// Products a user wants re-checked in the background; a watch fires once
+// and stays triggered until its target is changed
+export const watchlistItems = pgTable(
+  "watchlist_items",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    productId: text("product_id").notNull(),
+    title: text("title").notNull(),
+    imageUrl: text("image_url"),
+    targetPrice: doublePrecision("target_price"),
+    targetDropPercent: doublePrecision("target_drop_percent"),
+    basePrice: doublePrecision("base_price").notNull(),
+    lastPrice: text("last_price"),
+    lastPriceValue: doublePrecision("last_price_value"),
+    lastCheckedAt: timestamp("last_checked_at"),
+    lastError: text("last_error"),
+    triggeredAt: timestamp("triggered_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("watchlist_items_user_product_idx").on(
+      table.userId,
+      table.productId,
+    ),
+  ],
+);
+
+export const priceAlerts = pgTable(
+  "price_alerts",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    watchId: varchar("watch_id", { length: 36 })
+      .notNull()
+      .references(() => watchlistItems.id, { onDelete: "cascade" }),
+    productId: text("product_id").notNull(),
+    title: text("title").notNull(),
+    imageUrl: text("image_url"),
+    price: text("price").notNull(),
+    priceValue: doublePrecision("price_value").notNull(),
+    basePrice: doublePrecision("base_price").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    readAt: timestamp("read_at"),
+  },
+  (table) => [
+    index("price_alerts_user_created_idx").on(table.userId, table.createdAt),
+  ],
+);
+
+export const alertWebhooks = pgTable("alert_webhooks", {
+  userId: varchar("user_id", { length: 6 })
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Settings and message templates synced between a user's devices. Each
+// key holds the value written last by the device's own clock; syncedAt is
+// the server time it arrived, used as the pull cursor
+export const syncEntries = pgTable(
+  "sync_entries",
+  {
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    value: jsonb("value").notNull(),
+    updatedAt: timestamp("updated_at").notNull(),
+    syncedAt: timestamp("synced_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("sync_entries_user_key_idx").on(table.userId, table.key),
+  ],
+);
+
+// Short codes standing in for generated offer links; a user's same target
+// link always maps to the same code so clicks add up across shares
+export const shortLinks = pgTable(
+  "short_links",
+  {
+    code: varchar("code", { length: 12 }).primaryKey(),
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    productId: text("product_id").notNull(),
+    title: text("title").notNull(),
+    imageUrl: text("image_url"),
+    offerKey: text("offer_key").notNull(),
+    offerName: text("offer_name").notNull(),
+    targetUrl: text("target_url").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("short_links_user_target_idx").on(
+      table.userId,
+      table.targetUrl,
+    ),
+    index("short_links_user_product_idx").on(table.userId, table.productId),
+  ],
+);
+
+export const linkClicks = pgTable(
+  "link_clicks",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    code: varchar("code", { length: 12 })
+      .notNull()
+      .references(() => shortLinks.code, { onDelete: "cascade" }),
+    clickedAt: timestamp("clicked_at").notNull().defaultNow(),
+    referrer: text("referrer"),
+    userAgent: text("user_agent"),
+    country: varchar("country", { length: 2 }),
+  },
+  (table) => [
+    index("link_clicks_code_clicked_idx").on(table.code, table.clickedAt),
+  ],
+);
+
+// Affiliate orders pulled from the AliExpress order API. Amounts are in
+// the settlement currency; the offer is attributed from the last short
+// link click on the product before the order was paid
+export const affiliateOrders = pgTable(
+  "affiliate_orders",
+  {
+    id: varchar("id", { length: 36 }).primaryKey(),
+    userId: varchar("user_id", { length: 6 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    orderId: text("order_id").notNull(),
+    subOrderId: text("sub_order_id").notNull(),
+    status: text("status").notNull(),
+    productId: text("product_id").notNull(),
+    productTitle: text("product_title").notNull(),
+    imageUrl: text("image_url"),
+    trackingId: text("tracking_id").notNull(),
+    offerKey: text("offer_key"),
+    offerName: text("offer_name"),
+    currency: text("currency").notNull(),
+    paidAmount: doublePrecision("paid_amount").notNull(),
+    commissionRate: text("commission_rate"),
+    estimatedCommission: doublePrecision("estimated_commission").notNull(),
+    settledCommission: doublePrecision("settled_commission"),
+    paidAt: timestamp("paid_at").notNull(),
+    settledAt: timestamp("settled_at"),
+    syncedAt: timestamp("synced_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("affiliate_orders_user_sub_order_idx").on(
+      table.userId,
+      table.subOrderId,
+    ),
+    index("affiliate_orders_user_paid_idx").on(table.userId, table.paidAt),
+  ],
+);
+
 export const insertUserSchema = createInsertSchema(users)
   .omit({ id: true })
   .extend({
@@ -26,6 +278,85 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const refreshSessionSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const saveCredentialsSchema = z.object({
+  appKey: z.string().trim().min(1, "App Key is required"),
+  // Optional when credentials are already stored: the current secret is kept
+  appSecret: z.string().trim().optional(),
+  trackingId: z.string().trim().min(1, "Tracking ID is required"),
+});
+
+export const rotateCredentialsSchema = z.object({
+  appSecret: z.string().trim().min(1, "App Secret is required"),
+  appKey: z.string().trim().min(1).optional(),
+  trackingId: z.string().trim().min(1).optional(),
+});
+
+// Products are stored as sent by the client; only the fields the history
+// queries rely on are checked
+export const historyProductSchema = z
+  .object({
+    productId: z.string().regex(/^\d+$/, "Invalid product ID"),
+    title: z.string().min(1, "Title is required"),
+    price: z.string(),
+    discount: z.string().optional(),
+    storeName: z.string().optional(),
+    categoryName: z.string().optional(),
+    commissionRate: z.string().optional(),
+    searchedAt: z.string().datetime(),
+  })
+  .passthrough();
+
+const watchTargetSchema = z.object({
+  targetPrice: z.number().positive("Target price must be above 0").nullish(),
+  targetDropPercent: z
+    .number()
+    .gt(0, "Price drop must be above 0%")
+    .lt(100, "Price drop must be below 100%")
+    .nullish(),
+});
+
+function hasWatchTarget(input: z.infer<typeof watchTargetSchema>) {
+  return input.targetPrice != null || input.targetDropPercent != null;
+}
+
+export const addWatchSchema = watchTargetSchema
+  .extend({
+    productId: z.string().regex(/^\d+$/, "Invalid product ID"),
+    title: z.string().trim().min(1, "Title is required"),
+    imageUrl: z.string().nullish(),
+    price: z.string().min(1, "Current price is required"),
+  })
+  .refine(hasWatchTarget, "Set a target price or a price drop");
+
+export const updateWatchSchema = watchTargetSchema.refine(
+  hasWatchTarget,
+  "Set a target price or a price drop",
+);
+
+export const alertWebhookSchema = z.object({
+  // An empty URL removes the webhook
+  url: z
+    .string()
+    .trim()
+    .url("Invalid webhook URL")
+    .refine((url) => /^https:\/\//.test(url), "The webhook URL must use https")
+    .or(z.literal("")),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type User = typeof users.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type StoredApiCredentials = typeof apiCredentials.$inferSelect;
+export type PriceHistoryEntry = typeof priceHistory.$inferSelect;
+export type WatchlistItemRow = typeof watchlistItems.$inferSelect;
+export type PriceAlertRow = typeof priceAlerts.$inferSelect;
+export type ProductHistoryRow = typeof productHistory.$inferSelect;
+export type SyncEntryRow = typeof syncEntries.$inferSelect;
+export type ShortLinkRow = typeof shortLinks.$inferSelect;
+export type LinkClickRow = typeof linkClicks.$inferSelect;
+export type AffiliateOrderRow = typeof affiliateOrders.$inferSelect;
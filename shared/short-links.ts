@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+export const LINK_STATS_RANGES = ["7", "30", "all"] as const;
+
+export type LinkStatsRange = (typeof LINK_STATS_RANGES)[number];
+
+export const linkStatsQuerySchema = z.object({
+  /** Days of clicks to count; "all" counts every click */
+  range: z.enum(LINK_STATS_RANGES).default("30"),
+});
+
+export interface OfferClickStats {
+  code: string;
+  shortUrl: string;
+  offerKey: string;
+  offerName: string;
+  targetUrl: string;
+  clicks: number;
+  lastClickAt: string | null;
+}
+
+export interface ProductClickStats {
+  productId: string;
+  title: string;
+  imageUrl: string | null;
+  clicks: number;
+  lastClickAt: string | null;
+  offers: OfferClickStats[];
+}
+
+export interface LinkStats {
+  range: LinkStatsRange;
+  totalClicks: number;
+  products: ProductClickStats[];
+}
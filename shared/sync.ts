@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+/** Per-user values kept in sync between devices */
+export const SYNC_KEYS = [
+  "settings",
+  "template.share",
+  "template.details",
+  "template.copyAll",
+  "template.digest",
+  "template.library",
+  "collections",
+] as const;
+
+export type SyncKey = (typeof SYNC_KEYS)[number];
+
+export const MAX_SYNC_CHANGES = 50;
+
+/** Largest request body accepted by `POST /api/sync` */
+export const MAX_SYNC_BODY_BYTES = 2 * 1024 * 1024;
+
+const syncChangeSchema = z.object({
+  key: z.enum(SYNC_KEYS),
+  value: z.unknown().refine((value) => value !== undefined, "Missing value"),
+  updatedAt: z.string().datetime(),
+});
+
+export const syncPushSchema = z.object({
+  changes: z.array(syncChangeSchema).min(1).max(MAX_SYNC_CHANGES),
+});
+
+export const syncPullSchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
+export interface SyncEntry {
+  key: SyncKey;
+  value: unknown;
+  updatedAt: string;
+}
+
+export interface SyncPullResponse {
+  entries: SyncEntry[];
+  /** Pass back as `since` to only receive later changes */
+  serverTime: string;
+}
+
+export function isSyncKey(key: string): key is SyncKey {
+  return (SYNC_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Last-write-wins: an incoming value replaces the current one only when it
+ * was written later. Ties keep the current value so replays are no-ops.
+ */
+export function isNewerWrite(
+  incoming: string,
+  current: string | null | undefined,
+): boolean {
+  return !current || new Date(incoming).getTime() > new Date(current).getTime();
+}
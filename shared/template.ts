@@ -0,0 +1,391 @@
+import { parsePriceValue } from "./price-history";
+
+/**
+ * Message template language:
+ *
+ * - `{name}` is replaced everywhere it appears; unknown names render empty
+ * - `{name|filter|filter:arg}` runs the value through filters
+ * - `{#if name}...{#else}...{/if}` (or `{#if !name}`) shows text only when
+ *   the value is set; "", "0", "0%" and "N/A" count as unset
+ * - `{#each list}...{/each}` repeats its body per item, with the item's
+ *   fields and `{index}` available inside
+ *
+ * Tags that sit alone on a line take the whole line with them, so hidden
+ * blocks don't leave empty lines behind. Braces that don't form a valid tag,
+ * such as `{ note }`, are kept as text.
+ */
+
+export type TemplateValues = Record<string, string>;
+
+export interface TemplateData {
+  values: TemplateValues;
+  lists?: Record<string, TemplateValues[]>;
+}
+
+export type TemplateIssueCode =
+  | "unknownKey"
+  | "unknownFilter"
+  | "invalidArgument"
+  | "unclosedBlock"
+  | "unexpectedTag";
+
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  /** The tag the issue was found in, e.g. "{title|shout}" */
+  tag: string;
+}
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface TextNode {
+  type: "text";
+  value: string;
+}
+
+interface ValueNode {
+  type: "value";
+  name: string;
+  filters: FilterCall[];
+  tag: string;
+}
+
+interface IfNode {
+  type: "if";
+  name: string;
+  negate: boolean;
+  tag: string;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+}
+
+interface EachNode {
+  type: "each";
+  name: string;
+  tag: string;
+  body: TemplateNode[];
+}
+
+type TemplateNode = TextNode | ValueNode | IfNode | EachNode;
+
+type Token =
+  | TextNode
+  | ValueNode
+  | {
+      type: "open";
+      block: "if" | "each";
+      name: string;
+      negate: boolean;
+      tag: string;
+    }
+  | { type: "else"; tag: string }
+  | { type: "close"; block: "if" | "each"; tag: string };
+
+const TAG_PATTERN = /\{([^{}\n]+)\}/g;
+const NAME = "[A-Za-z_][A-Za-z0-9_]*";
+const VALUE_TAG = new RegExp(`^(${NAME})((?:\\|[^|]+)*)$`);
+const OPEN_TAG = new RegExp(`^#(if|each)\\s+(!?)\\s*(${NAME})$`);
+const CLOSE_TAG = /^\/(if|each)$/;
+
+const UNSET_VALUES = ["", "0", "0%", "n/a", "false"];
+
+type Filter = (value: string, args: string[]) => string | null;
+
+/** Each filter returns null when its arguments are invalid */
+const FILTERS: Record<string, Filter> = {
+  uppercase: (value) => value.toUpperCase(),
+  lowercase: (value) => value.toLowerCase(),
+  truncate: (value, [length]) => {
+    const max = parseInt(length, 10);
+    if (!Number.isInteger(max) || max < 1) return null;
+    return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+  },
+  // {price|currency:DZD:250} converts with the given rate per unit
+  currency: (value, [code, rate]) => {
+    const multiplier = parseFloat(rate);
+    if (!code || !Number.isFinite(multiplier) || multiplier <= 0) return null;
+    const amount = parsePriceValue(value);
+    return amount === null
+      ? value
+      : `${(amount * multiplier).toFixed(2)} ${code.trim()}`;
+  },
+  default: (value, args) => (isSet(value) ? value : args.join(":")),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function isSet(value: string | undefined): boolean {
+  return (
+    value !== undefined && !UNSET_VALUES.includes(value.trim().toLowerCase())
+  );
+}
+
+function parseFilters(source: string): FilterCall[] {
+  return source
+    .split("|")
+    .slice(1)
+    .map((call) => {
+      const [name, ...args] = call.split(":");
+      return { name: name.trim(), args: args.map((arg) => arg.trim()) };
+    });
+}
+
+function toToken(content: string, tag: string): Token | null {
+  const trimmed = content.trim();
+
+  const open = trimmed.match(OPEN_TAG);
+  if (open) {
+    return {
+      type: "open",
+      block: open[1] as "if" | "each",
+      negate: open[2] === "!",
+      name: open[3],
+      tag,
+    };
+  }
+  if (trimmed === "#else") return { type: "else", tag };
+  const close = trimmed.match(CLOSE_TAG);
+  if (close) return { type: "close", block: close[1] as "if" | "each", tag };
+
+  const value = content.match(VALUE_TAG);
+  if (value) {
+    return {
+      type: "value",
+      name: value[1],
+      filters: parseFilters(content),
+      tag,
+    };
+  }
+  return null;
+}
+
+function isBlockTag(token: Token | undefined): boolean {
+  return (
+    !!token &&
+    (token.type === "open" || token.type === "else" || token.type === "close")
+  );
+}
+
+/**
+ * Drops the rest of the line around block tags that are alone on it.
+ * Standalone tags are found first so trimming one doesn't hide the next.
+ */
+function trimStandaloneTags(tokens: Token[]): Token[] {
+  const standalone = tokens.map((token, index) => {
+    if (!isBlockTag(token)) return false;
+    const before = tokens[index - 1];
+    const after = tokens[index + 1];
+    const startsLine =
+      index === 0 ||
+      (before.type === "text" && /(^|\n)[ \t]*$/.test(before.value));
+    const endsLine =
+      index === tokens.length - 1 ||
+      (after.type === "text" && /^[ \t]*(\r?\n|$)/.test(after.value));
+    return startsLine && endsLine;
+  });
+
+  return tokens.map((token, index) => {
+    if (token.type !== "text") return token;
+    let value = token.value;
+    if (standalone[index - 1]) value = value.replace(/^[ \t]*\r?\n?/, "");
+    if (standalone[index + 1]) value = value.replace(/[ \t]*$/, "");
+    return { type: "text", value };
+  });
+}
+
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const token = toToken(match[1], match[0]);
+    if (!token) continue;
+    if (match.index > lastIndex) {
+      tokens.push({
+        type: "text",
+        value: template.slice(lastIndex, match.index),
+      });
+    }
+    tokens.push(token);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < template.length) {
+    tokens.push({ type: "text", value: template.slice(lastIndex) });
+  }
+  return trimStandaloneTags(tokens);
+}
+
+interface ParseResult {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+/** Builds the node tree; unbalanced tags are reported and skipped */
+function parse(template: string): ParseResult {
+  const issues: TemplateIssue[] = [];
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the list new nodes are added to
+  const stack: { node: IfNode | EachNode; target: TemplateNode[] }[] = [];
+  const current = () => stack[stack.length - 1]?.target ?? root;
+
+  for (const token of tokenize(template)) {
+    switch (token.type) {
+      case "text":
+      case "value":
+        current().push(token);
+        break;
+      case "open": {
+        const node: IfNode | EachNode =
+          token.block === "if"
+            ? {
+                type: "if",
+                name: token.name,
+                negate: token.negate,
+                tag: token.tag,
+                then: [],
+                otherwise: [],
+              }
+            : { type: "each", name: token.name, tag: token.tag, body: [] };
+        current().push(node);
+        stack.push({
+          node,
+          target: node.type === "if" ? node.then : node.body,
+        });
+        break;
+      }
+      case "else": {
+        const open = stack[stack.length - 1];
+        if (open?.node.type === "if" && open.target === open.node.then) {
+          open.target = open.node.otherwise;
+        } else {
+          issues.push({ code: "unexpectedTag", tag: token.tag });
+        }
+        break;
+      }
+      case "close": {
+        const open = stack[stack.length - 1];
+        if (open?.node.type === token.block) {
+          stack.pop();
+        } else {
+          issues.push({ code: "unexpectedTag", tag: token.tag });
+        }
+        break;
+      }
+    }
+  }
+
+  for (const open of stack) {
+    issues.push({ code: "unclosedBlock", tag: open.node.tag });
+  }
+  return { nodes: root, issues };
+}
+
+function applyFilters(value: string, filters: FilterCall[]): string {
+  return filters.reduce((result, { name, args }) => {
+    const filter = FILTERS[name];
+    return (filter && filter(result, args)) ?? result;
+  }, value);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  values: TemplateValues,
+  lists: Record<string, TemplateValues[]>,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "value":
+          return applyFilters(values[node.name] ?? "", node.filters);
+        case "if": {
+          const list = lists[node.name];
+          const set = list ? list.length > 0 : isSet(values[node.name]);
+          return renderNodes(
+            set !== node.negate ? node.then : node.otherwise,
+            values,
+            lists,
+          );
+        }
+        case "each":
+          return (lists[node.name] ?? [])
+            .map((item, index) =>
+              renderNodes(
+                node.body,
+                { ...values, ...item, index: String(index + 1) },
+                lists,
+              ),
+            )
+            .join("");
+      }
+    })
+    .join("");
+}
+
+export function renderTemplate(template: string, data: TemplateData): string {
+  return renderNodes(parse(template).nodes, data.values, data.lists ?? {});
+}
+
+function checkNodes(
+  nodes: TemplateNode[],
+  keys: Set<string>,
+  data: TemplateData,
+  issues: TemplateIssue[],
+) {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        break;
+      case "value":
+        if (!keys.has(node.name)) {
+          issues.push({ code: "unknownKey", tag: node.tag });
+        }
+        for (const { name, args } of node.filters) {
+          const filter = FILTERS[name];
+          if (!filter) {
+            issues.push({ code: "unknownFilter", tag: node.tag });
+          } else if (filter("0", args) === null) {
+            issues.push({ code: "invalidArgument", tag: node.tag });
+          }
+        }
+        break;
+      case "if":
+        if (!keys.has(node.name) && !data.lists?.[node.name]) {
+          issues.push({ code: "unknownKey", tag: node.tag });
+        }
+        checkNodes(node.then, keys, data, issues);
+        checkNodes(node.otherwise, keys, data, issues);
+        break;
+      case "each": {
+        const list = data.lists?.[node.name];
+        if (!list) {
+          issues.push({ code: "unknownKey", tag: node.tag });
+        }
+        // Item fields are known inside the loop
+        const itemKeys = new Set([
+          ...keys,
+          "index",
+          ...(list ?? []).flatMap((item) => Object.keys(item)),
+        ]);
+        checkNodes(node.body, itemKeys, data, issues);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Lists problems in a template, checking names against the sample data:
+ * unknown keys or filters, bad filter arguments and unbalanced blocks.
+ */
+export function validateTemplate(
+  template: string,
+  data: TemplateData,
+): TemplateIssue[] {
+  const { nodes, issues } = parse(template);
+  checkNodes(nodes, new Set(Object.keys(data.values)), data, issues);
+  return issues;
+}
@@ -0,0 +1,61 @@
+export interface WatchTarget {
+  /** Fires when the price is at or below this amount */
+  targetPrice?: number | null;
+  /** Fires when the price has dropped this many percent below basePrice */
+  targetDropPercent?: number | null;
+}
+
+export interface WatchlistItem extends WatchTarget {
+  id: string;
+  productId: string;
+  title: string;
+  imageUrl: string | null;
+  /** Price when the product was added or its target last changed */
+  basePrice: number;
+  lastPrice: string | null;
+  lastPriceValue: number | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  triggeredAt: string | null;
+  createdAt: string;
+}
+
+export interface PriceAlert {
+  id: string;
+  watchId: string;
+  productId: string;
+  title: string;
+  imageUrl: string | null;
+  price: string;
+  priceValue: number;
+  basePrice: number;
+  createdAt: string;
+  readAt: string | null;
+}
+
+/** The highest price that satisfies the watch, or null without a target. */
+export function getWatchThreshold(
+  target: WatchTarget,
+  basePrice: number,
+): number | null {
+  const thresholds: number[] = [];
+  if (target.targetPrice != null) thresholds.push(target.targetPrice);
+  if (target.targetDropPercent != null) {
+    thresholds.push(basePrice * (1 - target.targetDropPercent / 100));
+  }
+  return thresholds.length ? Math.max(...thresholds) : null;
+}
+
+export function isWatchConditionMet(
+  target: WatchTarget,
+  basePrice: number,
+  priceValue: number,
+): boolean {
+  const threshold = getWatchThreshold(target, basePrice);
+  return threshold !== null && priceValue <= threshold;
+}
+
+export function getDropPercent(basePrice: number, priceValue: number): number {
+  if (basePrice <= 0) return 0;
+  return Math.round(((basePrice - priceValue) / basePrice) * 1000) / 10;
+}